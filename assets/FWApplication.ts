@@ -1,9 +1,22 @@
-import { _decorator, assetManager, Component, EventTarget, director, Node, UITransform, Widget, Prefab, instantiate, AssetManager, RenderRoot2D, System, ISchedulable, Director, Scene } from 'cc';
+import { _decorator, assetManager, Component, EventTarget, director, Node, UITransform, Widget, Prefab, instantiate, AssetManager, RenderRoot2D, System, ISchedulable, Director, Scene, game, Game } from 'cc';
 
 import { FWTimer } from './common/FWTimer';
-import { FWManager } from './manager';
+import { func } from './common/FWFunction';
+import { log } from './common';
+import { FWManager, managerRegister } from './manager';
+import { IInitApplicationConfig, initApplication } from './FWDebug';
 const { ccclass, property } = _decorator;
 
+/**
+ * 软重启选项
+ */
+export interface IRestartOptions {
+    /** 是否卸载除 main、resources 以外的所有子包，默认 false */
+    unloadBundles?: boolean;
+    /** 重新初始化使用的配置，不传则沿用当前应用的配置 */
+    config?: IInitApplicationConfig;
+}
+
 /**
  * FWApplication - 框架应用程序主类
  * 负责初始化和管理整个应用程序的生命周期
@@ -30,13 +43,30 @@ export class FWApplication implements ISchedulable {
     /** 框架管理器实例 */
     manager: FWManager;
 
+    /** 应用初始化配置 */
+    readonly config: IInitApplicationConfig;
+
+    /** 是否处于后台 */
+    private _isBackground: boolean = false;
+
+    /** 切到后台的时间戳（毫秒） */
+    private _hideTime: number = 0;
+
+    /** 最近一次在后台停留的时长（毫秒） */
+    private _backgroundTime: number = 0;
+
+    /** 累计在后台停留的时长（毫秒） */
+    private _totalBackgroundTime: number = 0;
+
     /**
      * 构造函数
      * 初始化应用程序，设置单例，启动定时器，初始化管理器
+     * @param config 应用初始化配置，软重启时沿用
      */
-    constructor() {
+    constructor(config: IInitApplicationConfig = {}) {
         // 设置实例标识
         this.id = this.uuid = "FWApplication"
+        this.config = config;
         
         // 如果已存在实例，先销毁
         if(FWApplication._instance) FWApplication._instance.dectroy();
@@ -47,6 +77,11 @@ export class FWApplication implements ISchedulable {
         
         // 启动高优先级定时器更新
         FWTimer.scheduleUpdate(this, System.Priority.HIGH, false);
+
+        // 监听前后台切换及内存警告
+        game.on(Game.EVENT_HIDE, this.onHide, this);
+        game.on(Game.EVENT_SHOW, this.onShow, this);
+        game.on(Game.EVENT_LOW_MEMORY, this.onLowMemory, this);
         
         // 初始化管理器
         this.initManager();
@@ -57,8 +92,24 @@ export class FWApplication implements ISchedulable {
         // 启动应用
         this.start();
         
-        // 发送管理器初始化完成事件
-        app.manager.event.emit(app.manager.event.events.MANAGER_INIT_END);
+        // 等待所有管理器异步初始化结束后发送管理器初始化完成事件
+        this.manager.init().then(() => {
+            if (FWApplication._instance !== this) return;
+            app.manager.event.emit(app.manager.event.events.MANAGER_INIT_END);
+        }).catch((err) => {
+            this.onInitError(err);
+        });
+    }
+
+    /**
+     * 初始化流程本身出错（而非单个管理器失败）时记录并通知
+     * @param err 失败原因
+     */
+    protected onInitError(err: any) {
+        let error = err instanceof Error ? err : new Error(func.getErroMessage(err));
+        log.error(`application init failed:`, error);
+        if (FWApplication._instance !== this) return;
+        app.manager.event?.emit(app.manager.event.events.MANAGER_INIT_FAILED, "app", error);
     }
 
     /**
@@ -88,13 +139,87 @@ export class FWApplication implements ISchedulable {
 
     /**
      * 更新方法
-     * 每帧调用，更新框架管理器的状态
+     * 每帧调用，先驱动固定步长更新，再驱动可变步长更新
      * @param deltaTime 帧间隔时间
      */
     update(deltaTime: number) {
+        this.manager.fixedUpdate(deltaTime);
         this.manager.update(deltaTime);
     }
 
+    /**
+     * 是否处于后台
+     */
+    get isBackground() {
+        return this._isBackground;
+    }
+
+    /**
+     * 最近一次在后台停留的时长（毫秒）
+     */
+    get backgroundTime() {
+        return this._backgroundTime;
+    }
+
+    /**
+     * 累计在后台停留的时长（毫秒）
+     */
+    get totalBackgroundTime() {
+        return this._totalBackgroundTime;
+    }
+
+    /**
+     * 切到后台回调
+     * 记录切换时间，通知所有管理器并发送ON_APP_PAUSE事件
+     */
+    protected onHide() {
+        if (this._isBackground) return;
+        this._isBackground = true;
+        this._hideTime = FWTimer.now();
+        this.manager.onPause();
+        app.manager.event.emit(app.manager.event.events.ON_APP_PAUSE);
+    }
+
+    /**
+     * 回到前台回调
+     * 计算后台停留时长，通知所有管理器并发送ON_APP_RESUME事件
+     */
+    protected onShow() {
+        if (!this._isBackground) return;
+        this._isBackground = false;
+        this._backgroundTime = FWTimer.now() - this._hideTime;
+        this._totalBackgroundTime += this._backgroundTime;
+        this.manager.onResume(this._backgroundTime);
+        app.manager.event.emit(app.manager.event.events.ON_APP_RESUME, this._backgroundTime);
+    }
+
+    /**
+     * 内存不足回调
+     * 通知所有管理器并发送ON_APP_LOW_MEMORY事件
+     */
+    protected onLowMemory() {
+        this.manager.onLowMemory();
+        app.manager.event.emit(app.manager.event.events.ON_APP_LOW_MEMORY);
+    }
+
+    /**
+     * 软重启框架
+     * 销毁所有管理器及其单例缓存、常驻节点后，重新执行initApplication
+     * 用于登出、切换语言等需要重置整个框架状态的流程
+     * @param options 重启选项 {@link IRestartOptions}
+     */
+    restart(options: IRestartOptions = {}) {
+        let { unloadBundles = false, config = this.config } = options;
+        // 卸载子包需要在管理器销毁前进行，以便正常发送ON_BUNDLE_RELEASE事件
+        if (unloadBundles) {
+            this.manager.get("asset")?.unloadAllBundles();
+        }
+        this.dectroy();
+        // 清空注册表，避免重新注册时断言失败
+        managerRegister.clear();
+        initApplication(config);
+    }
+
     /**
      * 销毁应用
      * 清理定时器、销毁管理器、清理全局引用
@@ -102,6 +227,11 @@ export class FWApplication implements ISchedulable {
     dectroy() {
         // 停止定时器更新
         FWTimer.unscheduleUpdate(this);
+
+        // 移除前后台切换监听
+        game.off(Game.EVENT_HIDE, this.onHide, this);
+        game.off(Game.EVENT_SHOW, this.onShow, this);
+        game.off(Game.EVENT_LOW_MEMORY, this.onLowMemory, this);
         
         // 销毁管理器
         this.manager.dectroy();
@@ -123,7 +253,15 @@ declare global {
     interface IFWApp {
         /** 销毁应用 */
         dectroy():void;
+        /** 软重启框架 */
+        restart(options?: IRestartOptions):void;
         /** 获取应用实例 */
         get instance(): FWApplication;
+        /** 是否处于后台 */
+        readonly isBackground: boolean;
+        /** 最近一次在后台停留的时长（毫秒） */
+        readonly backgroundTime: number;
+        /** 累计在后台停留的时长（毫秒） */
+        readonly totalBackgroundTime: number;
     }
 }
\ No newline at end of file
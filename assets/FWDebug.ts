@@ -5,7 +5,7 @@
 import { Director, director, Scene } from 'cc';
 import { BUILD, EDITOR, PREVIEW } from 'cc/env';
 import { FWApplication } from './FWApplication';
-import { FWBaseManager, registerManager, FWAssetManager, FWHotupdateManager, FWAudioManager, FWDataManager, FWEventManager, FWNativeManager, FWSceneManager, FWUIManager } from './manager';
+import { FWBaseManager, IManagerRegisterInfo, registerManager, FWAssetManager, FWHotupdateManager, FWAudioManager, FWDataManager, FWEventManager, FWNativeManager, FWNetManager, FWSceneManager, FWUIManager } from './manager';
 
 
 export interface IInitApplicationConfig {
@@ -17,22 +17,43 @@ export interface IInitApplicationConfig {
     hotupdateManager?: () => FWBaseManager;
     audioManager?: () => FWBaseManager;
     eventManager?: () => FWBaseManager;
+    netManager?: () => FWBaseManager;
+    /**
+     * 额外的自定义管理器，key为管理器标识，可通过 app.manager.get(key) 访问
+     * @example
+     * ```typescript
+     * initApplication({
+     *     managers: {
+     *         quest: { ctor: () => QuestManager.instance, dependencies: ["data"], updateOrder: 10 },
+     *         shop: { ctor: () => ShopManager.instance, priority: 1 },
+     *     }
+     * });
+     * ```
+     */
+    managers?: Record<string, IManagerRegisterInfo>;
 }
 
 export function initApplication(config: IInitApplicationConfig = {}) {
     console.log("初始化Application");
 
-    registerManager("asset", config.assetManager ? config.assetManager : () =>  FWAssetManager.instance);
-    registerManager("ui", config.uiManager ? config.uiManager : () => FWUIManager.instance);
-    registerManager("scene", config.sceneManager ? config.sceneManager : () => FWSceneManager.instance);
+    registerManager("asset", config.assetManager ? config.assetManager : () =>  FWAssetManager.instance, { dependencies: ["event"] });
+    registerManager("ui", config.uiManager ? config.uiManager : () => FWUIManager.instance, { dependencies: ["event", "asset"] });
+    registerManager("scene", config.sceneManager ? config.sceneManager : () => FWSceneManager.instance, { dependencies: ["asset", "ui"] });
     registerManager("native", config.nativeManager ? config.nativeManager : () => FWNativeManager.instance);
-    registerManager("data", config.dataManager ? config.dataManager : () => FWDataManager.instance);
+    registerManager("data", config.dataManager ? config.dataManager : () => FWDataManager.instance, { dependencies: ["event"] });
     // hotupdate 还未完成，暂时不注册
     // registerManager("hotupdate",config.hotupdateManager ? config.hotupdateManager : () => FWHotupdateManager.instance);
-    registerManager("audio", config.audioManager ? config.audioManager : () => FWAudioManager.instance);
+    registerManager("audio", config.audioManager ? config.audioManager : () => FWAudioManager.instance, { dependencies: ["event", "data"] });
     registerManager("event", config.eventManager ? config.eventManager : () => FWEventManager.instance);
+    registerManager("net", config.netManager ? config.netManager : () => FWNetManager.instance, { dependencies: ["event"] });
 
-    new FWApplication();
+    // 注册自定义管理器
+    Object.keys(config.managers ?? {}).forEach(key => {
+        let { ctor, ...options } = config.managers[key];
+        registerManager(key, ctor, options);
+    });
+
+    new FWApplication(config);
 }
 
 // 根据不同的运行环境（编辑器、预览、构建）采用不同的初始化策略
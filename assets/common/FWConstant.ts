@@ -23,6 +23,8 @@ export class constant {
     }
 
     static default_loadPrefab:Prefab;
+    static default_requestLoadingPrefab:Prefab;
+    static default_toastPrefab:Prefab;
     static default_sprite_splash:SpriteFrame;
     static encrypt_key = "b9d27fa6b64db9390678aa4fe42bdf84";
 
@@ -41,4 +43,6 @@ export const managerObject:IFWManagerBase[] = []
 
 export const data_key = {
     setting : "setting",
+    httpCache : "http_cache",
+    httpDownload : "http_download",
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { Component } from "cc";
+import { _decorator, Component } from "cc";
+import { FWEventName, IFWEvents } from "../events/FWEvents";
+const { ccclass } = _decorator;
 /**
  * 装饰器
  */
@@ -78,4 +80,198 @@ export const MainThrend = function() {
             })
         };
     };
-}
\ No newline at end of file
+}
+
+/**
+ * 事件订阅装饰器选项
+ */
+export interface IOnEventOptions {
+    /** 优先级(数字越大越先执行)，默认 0 */
+    priority?: number;
+    /** 是否只触发一次，每次订阅只触发一次 */
+    once?: boolean;
+}
+
+/**
+ * 通过装饰器声明的事件订阅
+ */
+interface IEventSubscription {
+    /** 事件名称 */
+    event: FWEventName;
+    /** 方法名 */
+    method: string;
+    /** 优先级 */
+    priority: number;
+    /** 是否只触发一次 */
+    once: boolean;
+}
+
+/** 类原型上声明的事件订阅 */
+const eventSubscriptions: WeakMap<object, IEventSubscription[]> = new WeakMap();
+
+/** 已订阅事件的对象及订阅时所用的事件管理器，软重启后事件管理器会被替换 */
+const subscribedTargets: WeakMap<object, IFWManager["event"]> = new WeakMap();
+
+/** 请求订阅且尚未取消的对象，事件管理器创建或替换后需要重新订阅 */
+const activeTargets: Set<object> = new Set();
+
+/**
+ * 事件订阅装饰器使用示例:
+ * ```ts
+ * @ccclass('SettingPanel')
+ * class SettingPanel extends FWEventComponent {
+ *     // 参数类型由 IFWEvents 推断，签名不匹配时编译报错
+ *     @OnEvent('ON_BGM_VOLUME_CHANGED')
+ *     onBgmVolumeChanged(volume: number) {
+ *         this.slider.progress = volume;
+ *     }
+ *
+ *     @OnEvent('MANAGER_INIT_END', { once: true, priority: 10 })
+ *     onInitEnd() {
+ *     }
+ * }
+ * ```
+ * 组件继承 FWEventComponent 或使用 EventSubscriber 混入后，启用时订阅、禁用或销毁时取消订阅；
+ * 管理器在 start 前自动订阅、销毁时自动取消订阅；
+ * 其他对象可手动调用 subscribeEvents / unsubscribeEvents
+ */
+/**
+ * 事件订阅装饰器
+ * @param event 事件名称
+ * @param options 订阅选项 {@link IOnEventOptions}
+ * @returns 装饰器函数
+ */
+export const OnEvent = function <K extends FWEventName>(event: K, options: IOnEventOptions = {}) {
+    return function (target: any, key: string, descriptor: TypedPropertyDescriptor<(...args: IFWEvents[K]) => any>) {
+        if (!eventSubscriptions.has(target)) {
+            eventSubscriptions.set(target, []);
+        }
+        eventSubscriptions.get(target).push({
+            event,
+            method: key,
+            priority: options.priority ?? 0,
+            once: !!options.once,
+        });
+    };
+}
+
+/**
+ * 获取对象通过装饰器声明的所有事件订阅，包括父类中声明的订阅
+ * @param target 对象
+ * @returns 事件订阅列表，父类的订阅在前
+ */
+function getEventSubscriptions(target: object) {
+    let result: IEventSubscription[] = [];
+    let keys: Set<string> = new Set();
+    let proto = Object.getPrototypeOf(target);
+    while (proto && proto !== Object.prototype) {
+        let list = eventSubscriptions.get(proto) ?? [];
+        // 子类重写并重复声明同一订阅时只保留一次
+        let own = list.filter(item => !keys.has(`${item.event}|${item.method}`));
+        own.forEach(item => keys.add(`${item.event}|${item.method}`));
+        result = own.concat(result);
+        proto = Object.getPrototypeOf(proto);
+    }
+    return result;
+}
+
+/**
+ * 订阅对象通过 OnEvent 声明的事件，重复调用不会重复订阅
+ * 框架尚未初始化时先记录，等事件管理器创建后再订阅；软重启后自动订阅到新的事件管理器
+ * @param target 对象
+ */
+export function subscribeEvents(target: object) {
+    let subscriptions = getEventSubscriptions(target);
+    if (subscriptions.length == 0) {
+        return;
+    }
+    activeTargets.add(target);
+    let event = globalThis.app?.manager?.event;
+    if (!event || subscribedTargets.get(target) === event) {
+        return;
+    }
+    // 仍订阅在已销毁的事件管理器上时先移除
+    offEvents(target);
+    subscribedTargets.set(target, event);
+    subscriptions.forEach(item => {
+        if (item.once) {
+            event.once(item.event, target[item.method], target, item.priority);
+        } else {
+            event.on(item.event, target[item.method], target, item.priority);
+        }
+    });
+}
+
+/**
+ * 取消订阅对象通过 OnEvent 声明的事件，不影响手动添加的监听
+ * @param target 对象
+ */
+export function unsubscribeEvents(target: object) {
+    activeTargets.delete(target);
+    offEvents(target);
+}
+
+/**
+ * 将所有未取消订阅的对象订阅到当前的事件管理器
+ * 由管理器在事件管理器创建后调用，覆盖框架初始化前启用的组件以及软重启后保留的组件
+ */
+export function resubscribeEvents() {
+    activeTargets.forEach(target => subscribeEvents(target));
+}
+
+/**
+ * 从订阅时所用的事件管理器上移除对象通过 OnEvent 声明的事件
+ * @param target 对象
+ */
+function offEvents(target: object) {
+    let event = subscribedTargets.get(target);
+    if (!event) {
+        return;
+    }
+    subscribedTargets.delete(target);
+    getEventSubscriptions(target).forEach(item => {
+        event.off(item.event, target[item.method], target);
+    });
+}
+
+/**
+ * 组件事件订阅混入
+ * 启用时订阅 OnEvent 声明的事件，禁用或销毁时取消订阅
+ * 子类重写 onEnable、onDisable、onDestroy 时需要调用 super
+ * @param Base 组件基类
+ * @returns 混入后的组件类
+ *
+ * @example
+ * ```ts
+ * @ccclass('HeroView')
+ * class HeroView extends EventSubscriber(FWUIDialog) {
+ *     @OnEvent('ON_BGM_VOLUME_CHANGED')
+ *     onBgmVolumeChanged(volume: number) {}
+ * }
+ * ```
+ */
+export function EventSubscriber<T extends new (...args: any[]) => Component>(Base: T) {
+    return class extends Base {
+        onEnable() {
+            (Base.prototype as any).onEnable?.call(this);
+            subscribeEvents(this);
+        }
+
+        onDisable() {
+            unsubscribeEvents(this);
+            (Base.prototype as any).onDisable?.call(this);
+        }
+
+        onDestroy() {
+            unsubscribeEvents(this);
+            (Base.prototype as any).onDestroy?.call(this);
+        }
+    };
+}
+
+/**
+ * 支持 OnEvent 装饰器的组件基类
+ */
+@ccclass('FWEventComponent')
+export class FWEventComponent extends EventSubscriber(Component) {
+}
@@ -201,7 +201,16 @@ export class FWFile {
             try {
                 if (bByte) {
                     const data = FWFile.getItem(path);
-                    return data ? new Uint8Array(CryptoES.enc.Base64.parse(data).words).buffer : null;
+                    if (!data) {
+                        return null;
+                    }
+                    // WordArray每个元素为4字节，需要按sigBytes逐字节取出
+                    const words = CryptoES.enc.Base64.parse(data);
+                    const bytes = new Uint8Array(words.sigBytes);
+                    for (let i = 0; i < words.sigBytes; i++) {
+                        bytes[i] = (words.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+                    }
+                    return bytes.buffer;
                 } else {
                     return FWFile.getItem(path);
                 }
@@ -212,6 +221,35 @@ export class FWFile {
         }
     }
 
+    /**
+     * 获取writeFile写入的文件的完整路径，用于readFile与isFileExist
+     * @param path writeFile使用的文件路径
+     * @returns 原生平台为可写目录下的路径，Web平台不变
+     */
+    static getFullPath(path: string) {
+        return sys.isNative ? native.fileUtils.getWritablePath() + path : path;
+    }
+
+    /**
+     * 删除writeFile写入的文件
+     * @param path writeFile使用的文件路径
+     * @returns 是否删除成功
+     */
+    static removeFile(path: string) {
+        if(sys.isNative) {
+            let finalPath = FWFile.getFullPath(path);
+            return !native.fileUtils.isFileExist(finalPath) || native.fileUtils.removeFile(finalPath);
+        } else {
+            try {
+                sys.localStorage.removeItem(FWFile.fileKey + path);
+            } catch (e) {
+                log.info('Web平台删除失败:', e);
+                return false;
+            }
+            return true;
+        }
+    }
+
     /**
      * 浏览器端保存文件（触发下载）
      * @param data 要保存的数据
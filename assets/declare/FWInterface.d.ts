@@ -1,7 +1,14 @@
 export interface IFWManagerBase {
+    updatePriority: number;
+    useFixedUpdate: boolean;
+    readonly paused: boolean;
     update(deltaTime: number): void;
+    fixedUpdate(fixedDeltaTime: number): void;
     __preload():void;
     start(): void;
+    onPause(): void;
+    onResume(backgroundTime: number): void;
+    onLowMemory(): void;
     dectroy(): void;
 }
 
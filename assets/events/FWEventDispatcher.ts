@@ -32,6 +32,123 @@ interface IEventListener<TArgs extends any[] = any[]> {
     priority?: number;
 }
 
+/**
+ * 异步触发选项
+ */
+export interface IEmitAsyncOptions {
+    /**
+     * 执行方式，默认 sequential
+     * - sequential: 按优先级依次执行，等待上一个监听器完成后再执行下一个
+     * - parallel: 按优先级依次调用，同时等待所有监听器完成
+     */
+    mode?: 'sequential' | 'parallel';
+}
+
+/**
+ * 等待事件选项
+ */
+export interface IWaitForOptions<TArgs extends any[] = any[]> {
+    /** 超时时间(毫秒)，超时后 reject，不传则一直等待 */
+    timeout?: number;
+    /** 过滤函数，返回 true 时才结束等待 */
+    filter?: (...args: TArgs) => boolean;
+}
+
+/**
+ * 目标已失效的监听器信息
+ */
+export interface IInvalidListenerInfo {
+    /** 事件名称或事件模式，通配符监听器为 `*` */
+    event: string;
+    /** 失效的目标对象 */
+    target: any;
+    /** 优先级 */
+    priority: number;
+    /** 是否只执行一次 */
+    once: boolean;
+}
+
+/**
+ * 单个监听器的执行记录
+ */
+export interface IEventHandlerTrace {
+    /** 监听器类型 */
+    kind: 'listener' | 'pattern' | 'wildcard';
+    /** 目标对象名称，没有目标时为空字符串 */
+    target: string;
+    /** 优先级 */
+    priority: number;
+    /** 执行耗时(毫秒)，异步监听器包含等待时间 */
+    duration: number;
+    /** 执行出错时的错误信息 */
+    error?: string;
+}
+
+/**
+ * 单次事件触发的追踪信息
+ */
+export interface IEventTrace {
+    /** 事件名称 */
+    event: string;
+    /** 事件参数 */
+    args: any[];
+    /** 是否为 emitAsync 触发 */
+    async: boolean;
+    /** 是否被拦截器拦截 */
+    intercepted: boolean;
+    /** 执行的监听器数量 */
+    listenerCount: number;
+    /** 总耗时(毫秒) */
+    duration: number;
+    /** 各监听器的执行记录，按执行顺序排列 */
+    handlers: IEventHandlerTrace[];
+}
+
+/**
+ * 事件追踪回调，每次触发事件后调用；作为开始回调时在监听器执行前调用，此时只有事件名称与参数
+ */
+export type EventTracer = (trace: IEventTrace) => void;
+
+/**
+ * 判断事件名是否匹配模式
+ *
+ * 事件名按 `.` 分段，`*` 匹配一段，`**` 匹配零段或多段
+ *
+ * @param pattern 事件模式，如 `net.*.connected`、`ui.**`
+ * @param event 事件名称
+ * @returns 是否匹配
+ *
+ * @example
+ * ```typescript
+ * matchEventPattern('net.*.connected', 'net.channel0.connected'); // true
+ * matchEventPattern('ui.**', 'ui.dialog.shown'); // true
+ * matchEventPattern('ui.*', 'ui.dialog.shown'); // false
+ * ```
+ */
+export function matchEventPattern(pattern: string, event: string): boolean {
+    const patternSegments = pattern.split('.');
+    const eventSegments = event.split('.');
+    const match = (pi: number, ei: number): boolean => {
+        if (pi === patternSegments.length) {
+            return ei === eventSegments.length;
+        }
+        const segment = patternSegments[pi];
+        if (segment === '**') {
+            for (let i = ei; i <= eventSegments.length; i++) {
+                if (match(pi + 1, i)) {
+                    return true;
+                }
+            }
+            return false;
+        }
+        if (ei === eventSegments.length) {
+            return false;
+        }
+        return (segment === '*' || segment === eventSegments[ei]) && match(pi + 1, ei + 1);
+    };
+    return match(0, 0);
+}
+
 /**
  * 事件分发器类(带类型约束)
  * 
@@ -42,6 +159,11 @@ interface IEventListener<TArgs extends any[] = any[]> {
  * - 优先级控制
  * - 事件拦截
  * - 通配符匹配
+ * - 异步触发与等待事件
+ * - 命名空间、模式匹配与子分发器
+ * - 粘性事件与回放
+ * - 跳过并移除目标已失效(isValid 为 false)的监听器
+ * - 事件追踪(配合 FWEventRecorder 录制与回放)
  * 
  * @template TEvents 事件映射类型
  * 
@@ -73,13 +195,37 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
     
     /** 通配符监听器 */
     private wildcardListeners: IEventListener[] = [];
+
+    /** 模式监听器，key 为事件模式 */
+    private patternListeners: Map<string, IEventListener[]> = new Map();
+
+    /** 父级分发器，子分发器触发的事件会加上命名空间转发给父级 */
+    private parent: FWEventDispatcher<any> | null = null;
+
+    /** 在父级分发器中的命名空间 */
+    private namespace: string = '';
+
+    /** 子分发器，key 为命名空间 */
+    private scopes: Map<string, FWEventDispatcher<any>> = new Map();
     
+    /** 粘性事件，key 为事件名称，value 为回放缓冲区大小 */
+    private stickyEvents: Map<keyof TEvents, number> = new Map();
+
+    /** 粘性事件最近触发的参数，按触发顺序排列 */
+    private stickyPayloads: Map<keyof TEvents, any[][]> = new Map();
+
     /** 事件拦截器 */
     private interceptors: Map<keyof TEvents, Function[]> = new Map();
     
     /** 是否启用调试日志 */
     private debugMode: boolean = false;
     
+    /** 事件追踪回调 */
+    private tracers: EventTracer[] = [];
+
+    /** 事件追踪的开始回调，key 为对应的追踪回调 */
+    private traceStarts: Map<EventTracer, EventTracer> = new Map();
+
     /** 事件统计信息 */
     private stats: Map<keyof TEvents, { count: number; lastTime: number }> = new Map();
 
@@ -137,6 +283,11 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
         }
 
         this.log(`[on] 添加监听: ${String(event)}, 优先级: ${priority}`);
+
+        // 粘性事件立即回放
+        if (event !== '*' as K) {
+            this.replaySticky(event, listener as any);
+        }
         return this;
     }
 
@@ -172,6 +323,14 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
             priority
         };
 
+        // 粘性事件已触发过，直接以最近一次的参数回调
+        const payloads = this.stickyPayloads.get(event);
+        if (payloads && payloads.length > 0) {
+            this.log(`[once] 回放粘性事件: ${String(event)}`);
+            this.invokeListener(event, listener as any, payloads[payloads.length - 1]);
+            return this;
+        }
+
         if (!this.listeners.has(event)) {
             this.listeners.set(event, []);
         }
@@ -208,6 +367,7 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
         if (!event) {
             this.listeners.clear();
             this.wildcardListeners = [];
+            this.patternListeners.clear();
             this.log('[off] 移除所有监听');
             return this;
         }
@@ -281,6 +441,18 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
             }
         });
 
+        // 移除模式监听器
+        this.patternListeners.forEach((listeners, pattern) => {
+            const filtered = listeners.filter(listener => listener.target !== target);
+            removedCount += listeners.length - filtered.length;
+
+            if (filtered.length === 0) {
+                this.patternListeners.delete(pattern);
+            } else {
+                this.patternListeners.set(pattern, filtered);
+            }
+        });
+
         // 移除通配符监听器
         const wildcardFiltered = this.wildcardListeners.filter(listener => listener.target !== target);
         removedCount += this.wildcardListeners.length - wildcardFiltered.length;
@@ -309,14 +481,22 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
             return false;
         }
 
+        const trace = this.createTrace(event, args, false);
+
         // 检查拦截器
         if (this.shouldIntercept(event, args)) {
             this.log(`[emit] 事件被拦截: ${String(event)}`);
+            this.finishTrace(trace, 0, true);
             return false;
         }
 
+        this.recordSticky(event, args);
+
         let triggered = false;
         const startTime = performance.now();
+        const invalidTargets: Set<any> = new Set();
+        let handlerStart = 0;
+        let handlerError: any = undefined;
 
         // 触发普通监听器
         if (this.listeners.has(event)) {
@@ -324,6 +504,12 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
             const toRemove: IEventListener[] = [];
 
             for (const listener of eventListeners) {
+                if (!this.isTargetValid(listener.target)) {
+                    invalidTargets.add(listener.target);
+                    continue;
+                }
+                handlerStart = trace ? performance.now() : 0;
+                handlerError = undefined;
                 try {
                     if (listener.target) {
                         listener.callback.apply(listener.target, args);
@@ -337,8 +523,10 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
                         toRemove.push(listener);
                     }
                 } catch (error) {
+                    handlerError = error;
                     console.error(`[FWEventDispatcher] Error in listener for ${String(event)}:`, error);
                 }
+                this.traceHandler(trace, 'listener', listener, handlerStart, handlerError);
             }
 
             // 移除一次性监听器
@@ -354,11 +542,35 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
             }
         }
 
+        // 触发模式监听器
+        for (const listener of this.getPatternListeners(event)) {
+            if (!this.isTargetValid(listener.target)) {
+                invalidTargets.add(listener.target);
+                continue;
+            }
+            handlerStart = trace ? performance.now() : 0;
+            handlerError = undefined;
+            try {
+                listener.callback.apply(listener.target, [event, ...args]);
+                triggered = true;
+            } catch (error) {
+                handlerError = error;
+                console.error(`[FWEventDispatcher] Error in pattern listener for ${String(event)}:`, error);
+            }
+            this.traceHandler(trace, 'pattern', listener, handlerStart, handlerError);
+        }
+
         // 触发通配符监听器
         if (this.wildcardListeners.length > 0) {
             const wildcardArgs = [event, ...args]; // 第一个参数是事件名
             
             for (const listener of this.wildcardListeners.slice()) {
+                if (!this.isTargetValid(listener.target)) {
+                    invalidTargets.add(listener.target);
+                    continue;
+                }
+                handlerStart = trace ? performance.now() : 0;
+                handlerError = undefined;
                 try {
                     if (listener.target) {
                         listener.callback.apply(listener.target, wildcardArgs);
@@ -367,19 +579,475 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
                     }
                     triggered = true;
                 } catch (error) {
+                    handlerError = error;
                     console.error(`[FWEventDispatcher] Error in wildcard listener:`, error);
                 }
+                this.traceHandler(trace, 'wildcard', listener, handlerStart, handlerError);
             }
         }
 
+        // 移除目标已失效的监听器
+        invalidTargets.forEach(target => this.offTarget(target));
+
         // 记录统计信息
         const elapsed = performance.now() - startTime;
         this.updateStats(event, elapsed);
 
         this.log(`[emit] 触发事件: ${String(event)}, 耗时: ${elapsed.toFixed(2)}ms`);
+        this.finishTrace(trace, elapsed, false);
+
+        // 转发给父级分发器
+        if (this.parent) {
+            triggered = this.parent.emit(`${this.namespace}.${String(event)}`, ...args) || triggered;
+        }
         return triggered;
     }
 
+    /**
+     * 异步触发事件
+     *
+     * 按优先级执行监听器并等待返回的 Promise，监听器抛出的异常与 emit 一样只打印不中断
+     *
+     * @param event 事件名称
+     * @param args 传递给监听器的参数
+     * @param options 执行选项 {@link IEmitAsyncOptions}
+     * @returns 所有监听器执行完成后 resolve，值为是否成功触发(是否有监听器)
+     *
+     * @example
+     * ```typescript
+     * dispatcher.on('game:save', async (slot) => {
+     *     await saveToServer(slot);
+     * });
+     * await dispatcher.emitAsync('game:save', [1]);
+     * await dispatcher.emitAsync('game:save', [1], { mode: 'parallel' });
+     * ```
+     */
+    async emitAsync<K extends keyof TEvents>(event: K, args: TEvents[K], options: IEmitAsyncOptions = {}): Promise<boolean> {
+        if (!event) {
+            console.error('[FWEventDispatcher] event is required');
+            return false;
+        }
+
+        const trace = this.createTrace(event, args, true);
+
+        // 检查拦截器
+        if (this.shouldIntercept(event, args)) {
+            this.log(`[emitAsync] 事件被拦截: ${String(event)}`);
+            this.finishTrace(trace, 0, true);
+            return false;
+        }
+
+        this.recordSticky(event, args);
+
+        const { mode = 'sequential' } = options;
+        const startTime = performance.now();
+
+        // 复制监听器，并在执行前移除一次性监听器，避免等待期间再次触发
+        const eventListeners = this.listeners.has(event) ? this.listeners.get(event)!.slice() : [];
+        const onceListeners = eventListeners.filter(listener => listener.once);
+        if (onceListeners.length > 0) {
+            const remaining = this.listeners.get(event)!.filter(listener => !listener.once);
+            if (remaining.length === 0) {
+                this.listeners.delete(event);
+            } else {
+                this.listeners.set(event, remaining);
+            }
+        }
+
+        const calls: [IEventListener, any[], IEventHandlerTrace['kind']][] = eventListeners.map(listener => [listener, args, 'listener']);
+        const wildcardArgs = [event, ...args]; // 第一个参数是事件名
+        this.getPatternListeners(event).forEach(listener => calls.push([listener, wildcardArgs, 'pattern']));
+        this.wildcardListeners.slice().forEach(listener => calls.push([listener, wildcardArgs, 'wildcard']));
+
+        const invoke = async ([listener, callArgs, kind]: [IEventListener, any[], IEventHandlerTrace['kind']]) => {
+            // 顺序执行时目标可能在等待期间失效
+            if (!this.isTargetValid(listener.target)) {
+                this.offTarget(listener.target);
+                return;
+            }
+            const handlerStart = trace ? performance.now() : 0;
+            let handlerError: any = undefined;
+            try {
+                await listener.callback.apply(listener.target, callArgs);
+            } catch (error) {
+                handlerError = error;
+                console.error(`[FWEventDispatcher] Error in async listener for ${String(event)}:`, error);
+            }
+            this.traceHandler(trace, kind, listener, handlerStart, handlerError);
+        };
+
+        if (mode === 'parallel') {
+            await Promise.all(calls.map(invoke));
+        } else {
+            for (const call of calls) {
+                await invoke(call);
+            }
+        }
+
+        // 记录统计信息
+        const elapsed = performance.now() - startTime;
+        this.updateStats(event, elapsed);
+
+        this.log(`[emitAsync] 触发事件: ${String(event)}, 方式: ${mode}, 耗时: ${elapsed.toFixed(2)}ms`);
+        this.finishTrace(trace, elapsed, false);
+
+        // 转发给父级分发器
+        if (this.parent) {
+            const parentTriggered = await this.parent.emitAsync(`${this.namespace}.${String(event)}`, args, options);
+            return calls.length > 0 || parentTriggered;
+        }
+        return calls.length > 0;
+    }
+
+    /**
+     * 等待事件触发
+     *
+     * @param event 事件名称
+     * @param options 等待选项 {@link IWaitForOptions}
+     * @returns 事件触发时 resolve 事件参数，超时 reject
+     *
+     * @example
+     * ```typescript
+     * const [uiRoot] = await dispatcher.waitFor('ui:rootChanged');
+     * const [x, y] = await dispatcher.waitFor('player:move', {
+     *     timeout: 3000,
+     *     filter: (x, y) => x > 100,
+     * });
+     * ```
+     */
+    waitFor<K extends keyof TEvents>(event: K, options: IWaitForOptions<TEvents[K]> = {}): Promise<TEvents[K]> {
+        const { timeout, filter } = options;
+        return new Promise<TEvents[K]>((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            let settled = false;
+            const callback = (...args: TEvents[K]) => {
+                if (filter && !filter(...args)) {
+                    return;
+                }
+                settled = true;
+                this.off(event, callback);
+                if (timer !== undefined) {
+                    clearTimeout(timer);
+                }
+                resolve(args);
+            };
+            this.on(event, callback);
+            // 粘性事件可能在 on 中已回放并结束等待
+            if (!settled && timeout !== undefined) {
+                timer = setTimeout(() => {
+                    this.off(event, callback);
+                    reject(new Error(`[FWEventDispatcher] waitFor ${String(event)} timeout after ${timeout}ms`));
+                }, timeout);
+            }
+        });
+    }
+
+    /**
+     * 设置粘性事件
+     *
+     * 粘性事件会记住最近触发的参数，之后通过 on 添加的监听器会立即按顺序收到这些参数，
+     * once 添加的监听器只收到最近一次的参数，通配符和模式监听器不回放
+     *
+     * @param event 事件名称
+     * @param replay 回放缓冲区大小，默认 1(只保留最近一次)
+     * @returns 返回自身以支持链式调用
+     *
+     * @example
+     * ```typescript
+     * dispatcher.setSticky('game:ready');
+     * dispatcher.emit('game:ready');
+     * dispatcher.on('game:ready', () => {}); // 立即回调
+     *
+     * dispatcher.setSticky('chat:message', 20); // 新监听器收到最近 20 条消息
+     * ```
+     */
+    setSticky<K extends keyof TEvents>(event: K, replay: number = 1): this {
+        const size = Math.max(1, Math.floor(replay));
+        this.stickyEvents.set(event, size);
+
+        // 缩小缓冲区时丢弃较早的参数
+        const payloads = this.stickyPayloads.get(event);
+        if (payloads && payloads.length > size) {
+            payloads.splice(0, payloads.length - size);
+        }
+        return this;
+    }
+
+    /**
+     * 取消粘性事件，同时清除已记住的参数
+     *
+     * @param event 事件名称
+     * @returns 返回自身以支持链式调用
+     */
+    removeSticky<K extends keyof TEvents>(event: K): this {
+        this.stickyEvents.delete(event);
+        this.stickyPayloads.delete(event);
+        return this;
+    }
+
+    /**
+     * 清除粘性事件已记住的参数，事件仍保持粘性
+     *
+     * @param event 事件名称(不传则清除所有粘性事件的参数)
+     * @returns 返回自身以支持链式调用
+     *
+     * @example
+     * ```typescript
+     * dispatcher.clearSticky('game:ready'); // 重新开局前清除
+     * ```
+     */
+    clearSticky<K extends keyof TEvents>(event?: K): this {
+        if (event) {
+            this.stickyPayloads.delete(event);
+        } else {
+            this.stickyPayloads.clear();
+        }
+        return this;
+    }
+
+    /**
+     * 是否为粘性事件
+     *
+     * @param event 事件名称
+     */
+    isSticky<K extends keyof TEvents>(event: K): boolean {
+        return this.stickyEvents.has(event);
+    }
+
+    /**
+     * 获取粘性事件最近一次触发的参数
+     *
+     * @param event 事件名称
+     * @returns 事件参数，未触发过或不是粘性事件时返回 undefined
+     */
+    getStickyPayload<K extends keyof TEvents>(event: K): TEvents[K] | undefined {
+        const payloads = this.stickyPayloads.get(event);
+        return payloads && payloads.length > 0 ? payloads[payloads.length - 1] as TEvents[K] : undefined;
+    }
+
+    /**
+     * 按模式监听事件
+     *
+     * 事件名按 `.` 分段，`*` 匹配一段，`**` 匹配零段或多段，回调的第一个参数是实际触发的事件名
+     *
+     * @param pattern 事件模式
+     * @param callback 回调函数
+     * @param target 上下文对象
+     * @param priority 优先级(数字越大越先执行)，默认 0
+     * @returns 返回自身以支持链式调用
+     *
+     * @example
+     * ```typescript
+     * dispatcher.onPattern('net.*.connected', (event) => {}); // net.channel0.connected
+     * dispatcher.onPattern('ui.**', (event, ...args) => {});  // ui.dialog.shown
+     * ```
+     */
+    onPattern(
+        pattern: string,
+        callback: (event: string, ...args: any[]) => void,
+        target?: any,
+        priority: number = 0
+    ): this {
+        if (!pattern || !callback) {
+            console.error('[FWEventDispatcher] pattern and callback are required');
+            return this;
+        }
+
+        if (!this.patternListeners.has(pattern)) {
+            this.patternListeners.set(pattern, []);
+        }
+
+        const listeners = this.patternListeners.get(pattern)!;
+        listeners.push({ callback, target, once: false, priority });
+        this.sortListeners(listeners);
+
+        this.log(`[onPattern] 添加模式监听: ${pattern}, 优先级: ${priority}`);
+        return this;
+    }
+
+    /**
+     * 移除模式监听
+     *
+     * @param pattern 事件模式(不传则移除所有模式监听)
+     * @param callback 回调函数(不传则移除该模式的所有监听)
+     * @param target 上下文对象
+     * @returns 返回自身以支持链式调用
+     */
+    offPattern(
+        pattern?: string,
+        callback?: (event: string, ...args: any[]) => void,
+        target?: any
+    ): this {
+        if (!pattern) {
+            this.patternListeners.clear();
+            return this;
+        }
+
+        if (!callback) {
+            this.patternListeners.delete(pattern);
+            return this;
+        }
+
+        const filtered = (this.patternListeners.get(pattern) ?? []).filter(listener => {
+            return !(listener.callback === callback && (target === undefined || listener.target === target));
+        });
+
+        if (filtered.length === 0) {
+            this.patternListeners.delete(pattern);
+        } else {
+            this.patternListeners.set(pattern, filtered);
+        }
+        return this;
+    }
+
+    /**
+     * 获取子分发器
+     *
+     * 子分发器拥有独立的监听器，触发的事件会加上命名空间转发给父级，
+     * 如子分发器 `net.channel0` 触发 `connected`，父级会收到 `net.channel0.connected`
+     *
+     * @param namespace 命名空间，支持多段，如 `net.channel0`
+     * @returns 子分发器，同一命名空间返回同一实例
+     *
+     * @example
+     * ```typescript
+     * interface ChannelEvents {
+     *     'connected': [];
+     *     'closed': [code: number];
+     * }
+     * const channel = dispatcher.scope<ChannelEvents>('net.channel0');
+     * channel.emit('closed', 1000); // 父级收到 net.channel0.closed
+     * dispatcher.offNamespace('net'); // 移除 net 下的所有监听
+     * ```
+     */
+    scope<TScope extends EventMap = EventMap>(namespace: string): FWEventDispatcher<TScope> {
+        const [head, ...rest] = namespace.split('.');
+        let child = this.scopes.get(head);
+        if (!child) {
+            child = new FWEventDispatcher(this.debugMode);
+            child.parent = this;
+            child.namespace = head;
+            this.scopes.set(head, child);
+        }
+        return rest.length > 0 ? child.scope<TScope>(rest.join('.')) : child;
+    }
+
+    /**
+     * 获取完整命名空间(从根分发器开始)
+     *
+     * @returns 完整命名空间，根分发器返回空字符串
+     */
+    getNamespace(): string {
+        if (!this.parent) {
+            return '';
+        }
+        const parentNamespace = this.parent.getNamespace();
+        return parentNamespace ? `${parentNamespace}.${this.namespace}` : this.namespace;
+    }
+
+    /**
+     * 移除命名空间下的所有监听
+     *
+     * 包括该命名空间及其子级的事件监听、模式监听和子分发器中的监听
+     *
+     * @param namespace 命名空间
+     * @returns 返回自身以支持链式调用
+     *
+     * @example
+     * ```typescript
+     * dispatcher.offNamespace('ui.dialog'); // 移除 ui.dialog、ui.dialog.shown 等事件的监听
+     * ```
+     */
+    offNamespace(namespace: string): this {
+        const prefix = `${namespace}.`;
+        const inNamespace = (name: string) => name === namespace || name.startsWith(prefix);
+
+        this.getEventNames().forEach(event => {
+            if (inNamespace(String(event))) {
+                this.listeners.delete(event);
+            }
+        });
+
+        Array.from(this.stickyPayloads.keys()).forEach(event => {
+            if (inNamespace(String(event))) {
+                this.stickyPayloads.delete(event);
+            }
+        });
+
+        Array.from(this.patternListeners.keys()).forEach(pattern => {
+            if (inNamespace(pattern)) {
+                this.patternListeners.delete(pattern);
+            }
+        });
+
+        this.scopes.forEach((child, key) => {
+            if (inNamespace(key)) {
+                child.clear();
+            } else if (namespace.startsWith(`${key}.`)) {
+                child.offNamespace(namespace.slice(key.length + 1));
+            }
+        });
+
+        this.log(`[offNamespace] 移除命名空间监听: ${namespace}`);
+        return this;
+    }
+
+    /**
+     * 销毁子分发器
+     *
+     * 清空所有监听并与父级断开，之后触发的事件不再转发
+     */
+    dispose(): void {
+        this.clear();
+        if (this.parent && this.parent.scopes.get(this.namespace) === this) {
+            this.parent.scopes.delete(this.namespace);
+        }
+        this.parent = null;
+    }
+
+    /**
+     * 添加事件追踪回调
+     *
+     * 每次触发事件(包括被拦截的事件)后调用，只有存在追踪回调时才会统计各监听器的耗时
+     *
+     * 监听器中嵌套触发的事件会先于外层事件结束，需要按触发顺序记录时使用 onStart，
+     * onStart 与 tracer 收到的是同一个追踪信息对象
+     *
+     * @param tracer 追踪回调
+     * @param onStart 开始回调，在监听器执行前调用
+     * @returns 返回自身以支持链式调用
+     *
+     * @example
+     * ```typescript
+     * dispatcher.addTracer(trace => {
+     *     if (trace.duration > 16) {
+     *         console.warn(`${trace.event} 耗时 ${trace.duration}ms`, trace.handlers);
+     *     }
+     * });
+     * ```
+     */
+    addTracer(tracer: EventTracer, onStart?: EventTracer): this {
+        if (this.tracers.indexOf(tracer) === -1) {
+            this.tracers.push(tracer);
+        }
+        if (onStart) {
+            this.traceStarts.set(tracer, onStart);
+        }
+        return this;
+    }
+
+    /**
+     * 移除事件追踪回调
+     *
+     * @param tracer 追踪回调
+     * @returns 返回自身以支持链式调用
+     */
+    removeTracer(tracer: EventTracer): this {
+        this.tracers = this.tracers.filter(item => item !== tracer);
+        this.traceStarts.delete(tracer);
+        return this;
+    }
+
     /**
      * 添加事件拦截器
      * 
@@ -457,6 +1125,56 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
         return this.listeners.get(event)!.some(listener => listener.callback === callback);
     }
 
+    /**
+     * 获取目标已失效的监听器
+     *
+     * 目标的 isValid 为 false 时视为失效(如已销毁的 Cocos 节点或组件)，
+     * 这类监听器在触发时会被跳过并移除，未触发前仍会保留并持有目标
+     *
+     * @returns 失效监听器信息列表
+     *
+     * @example
+     * ```typescript
+     * dispatcher.getInvalidListeners().forEach(info => {
+     *     console.warn(`${info.event} 的监听目标已销毁`, info.target);
+     * });
+     * ```
+     */
+    getInvalidListeners(): IInvalidListenerInfo[] {
+        const result: IInvalidListenerInfo[] = [];
+        const collect = (event: string, listeners: IEventListener[]) => {
+            listeners.forEach(listener => {
+                if (!this.isTargetValid(listener.target)) {
+                    result.push({ event, target: listener.target, priority: listener.priority || 0, once: !!listener.once });
+                }
+            });
+        };
+
+        this.listeners.forEach((listeners, event) => collect(String(event), listeners));
+        this.patternListeners.forEach((listeners, pattern) => collect(pattern, listeners));
+        collect('*', this.wildcardListeners);
+        this.scopes.forEach((child, namespace) => {
+            child.getInvalidListeners().forEach(info => {
+                result.push({ ...info, event: `${namespace}.${info.event}` });
+            });
+        });
+        return result;
+    }
+
+    /**
+     * 移除目标已失效的监听器
+     *
+     * @returns 移除的监听器数量
+     */
+    removeInvalidListeners(): number {
+        const invalid = this.getInvalidListeners();
+        new Set(invalid.map(info => info.target)).forEach(target => {
+            this.offTarget(target);
+        });
+        this.scopes.forEach(child => child.removeInvalidListeners());
+        return invalid.length;
+    }
+
     /**
      * 获取事件的监听器数量
      * 
@@ -472,6 +1190,9 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
         this.listeners.forEach(listeners => {
             count += listeners.length;
         });
+        this.patternListeners.forEach(listeners => {
+            count += listeners.length;
+        });
         return count;
     }
 
@@ -502,11 +1223,16 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
 
     /**
      * 清空所有监听器和拦截器
+     *
+     * 粘性事件的参数会被清除，但事件仍保持粘性
      */
     clear(): void {
         this.listeners.clear();
         this.wildcardListeners = [];
+        this.patternListeners.clear();
+        this.stickyPayloads.clear();
         this.interceptors.clear();
+        this.scopes.forEach(child => child.clear());
         this.log('[clear] 清空所有监听器和拦截器');
     }
 
@@ -536,6 +1262,28 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
             });
         });
 
+        if (this.patternListeners.size > 0) {
+            console.log('\nPatterns:');
+            this.patternListeners.forEach((listeners, pattern) => {
+                console.log(`  ${pattern}: ${listeners.length} listener(s)`);
+            });
+        }
+
+        if (this.scopes.size > 0) {
+            console.log('\nScopes:');
+            this.scopes.forEach((child, namespace) => {
+                console.log(`  ${namespace}: ${child.getListenerCount()} listener(s)`);
+            });
+        }
+
+        const invalidListeners = this.getInvalidListeners();
+        if (invalidListeners.length > 0) {
+            console.log('\nInvalid Targets:');
+            invalidListeners.forEach(info => {
+                console.log(`  ${info.event}: priority: ${info.priority}, once: ${info.once}, target:`, info.target);
+            });
+        }
+
         if (this.stats.size > 0) {
             console.log('\nStats:');
             this.stats.forEach((stat, event) => {
@@ -553,6 +1301,143 @@ export class FWEventDispatcher<TEvents extends EventMap = EventMap> {
         listeners.sort((a, b) => (b.priority || 0) - (a.priority || 0));
     }
 
+    /**
+     * 获取匹配事件名的模式监听器，按优先级排序
+     */
+    private getPatternListeners<K extends keyof TEvents>(event: K): IEventListener[] {
+        const matched: IEventListener[] = [];
+        this.patternListeners.forEach((listeners, pattern) => {
+            if (matchEventPattern(pattern, String(event))) {
+                matched.push(...listeners);
+            }
+        });
+        this.sortListeners(matched);
+        return matched;
+    }
+
+    /**
+     * 目标是否有效，未设置目标或目标没有 isValid 属性时视为有效
+     */
+    private isTargetValid(target: any): boolean {
+        return !target || target.isValid !== false;
+    }
+
+    /**
+     * 记录粘性事件的参数，超出回放缓冲区时丢弃最早的参数
+     */
+    private recordSticky<K extends keyof TEvents>(event: K, args: TEvents[K]): void {
+        const size = this.stickyEvents.get(event);
+        if (size === undefined) {
+            return;
+        }
+
+        if (!this.stickyPayloads.has(event)) {
+            this.stickyPayloads.set(event, []);
+        }
+
+        const payloads = this.stickyPayloads.get(event)!;
+        payloads.push(args);
+        if (payloads.length > size) {
+            payloads.splice(0, payloads.length - size);
+        }
+    }
+
+    /**
+     * 向新添加的监听器回放粘性事件，监听器在回调中被移除时停止回放
+     */
+    private replaySticky<K extends keyof TEvents>(event: K, listener: IEventListener): void {
+        const payloads = this.stickyPayloads.get(event);
+        if (!payloads || payloads.length === 0) {
+            return;
+        }
+
+        this.log(`[on] 回放粘性事件: ${String(event)}, 共 ${payloads.length} 次`);
+        for (const args of payloads.slice()) {
+            if (!this.listeners.get(event)?.includes(listener) || !this.isTargetValid(listener.target)) {
+                break;
+            }
+            this.invokeListener(event, listener, args);
+        }
+    }
+
+    /**
+     * 调用单个监听器，捕获并输出回调中的错误
+     */
+    private invokeListener<K extends keyof TEvents>(event: K, listener: IEventListener, args: any[]): void {
+        try {
+            listener.callback.apply(listener.target, args);
+        } catch (error) {
+            console.error(`[FWEventDispatcher] Error in listener for ${String(event)}:`, error);
+        }
+    }
+
+    /**
+     * 创建追踪信息并通知开始回调，没有追踪回调时返回 null
+     */
+    private createTrace<K extends keyof TEvents>(event: K, args: TEvents[K], async: boolean): IEventTrace | null {
+        if (this.tracers.length === 0) {
+            return null;
+        }
+        const trace: IEventTrace = { event: String(event), args, async, intercepted: false, listenerCount: 0, duration: 0, handlers: [] };
+        for (const tracer of this.tracers.slice()) {
+            const onStart = this.traceStarts.get(tracer);
+            if (!onStart) {
+                continue;
+            }
+            try {
+                onStart(trace);
+            } catch (error) {
+                console.error('[FWEventDispatcher] Error in tracer:', error);
+            }
+        }
+        return trace;
+    }
+
+    /**
+     * 记录单个监听器的执行情况
+     */
+    private traceHandler(
+        trace: IEventTrace | null,
+        kind: IEventHandlerTrace['kind'],
+        listener: IEventListener,
+        startTime: number,
+        error: any
+    ): void {
+        if (!trace) {
+            return;
+        }
+        const target = listener.target;
+        const handler: IEventHandlerTrace = {
+            kind,
+            target: target ? String(target.name || target.constructor?.name || '') : '',
+            priority: listener.priority || 0,
+            duration: performance.now() - startTime
+        };
+        if (error !== undefined) {
+            handler.error = error instanceof Error ? error.message : String(error);
+        }
+        trace.handlers.push(handler);
+    }
+
+    /**
+     * 结束追踪并通知追踪回调
+     */
+    private finishTrace(trace: IEventTrace | null, duration: number, intercepted: boolean): void {
+        if (!trace) {
+            return;
+        }
+        trace.duration = duration;
+        trace.intercepted = intercepted;
+        trace.listenerCount = trace.handlers.length;
+        for (const tracer of this.tracers.slice()) {
+            try {
+                tracer(trace);
+            } catch (error) {
+                console.error('[FWEventDispatcher] Error in tracer:', error);
+            }
+        }
+    }
+
     /**
      * 检查是否应该拦截事件
      */
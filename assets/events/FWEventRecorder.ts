@@ -0,0 +1,384 @@
+import { EventMap, FWEventDispatcher, IEventHandlerTrace, IEventTrace } from './FWEventDispatcher';
+
+/**
+ * 录制的单条事件
+ */
+export interface IEventRecord {
+    /** 序号，从 0 开始 */
+    seq: number;
+    /** 距离开始录制的时间(毫秒) */
+    time: number;
+    /** 事件名称 */
+    event: string;
+    /** 序列化后的事件参数 */
+    args: any[];
+    /** 是否为 emitAsync 触发 */
+    async: boolean;
+    /** 是否被拦截器拦截 */
+    intercepted: boolean;
+    /** 执行的监听器数量 */
+    listenerCount: number;
+    /** 总耗时(毫秒) */
+    duration: number;
+    /** 各监听器的执行记录 */
+    handlers: IEventHandlerTrace[];
+}
+
+/**
+ * 导出的事件录像
+ */
+export interface IEventRecording {
+    /** 录像格式版本 */
+    version: number;
+    /** 开始录制的时间戳(毫秒) */
+    startTime: number;
+    /** 录制时长(毫秒) */
+    duration: number;
+    /** 事件记录，按触发顺序排列 */
+    records: IEventRecord[];
+}
+
+/**
+ * 录制选项
+ */
+export interface IEventRecorderOptions {
+    /** 最多保留的记录数，超出时丢弃最早的记录，默认 1000 */
+    maxRecords?: number;
+    /** 过滤函数，返回 false 的事件不记录 */
+    filter?: (event: string, args: any[]) => boolean;
+    /** 自定义参数序列化，返回 undefined 时使用默认序列化 */
+    serializer?: (value: any) => any;
+    /** 默认序列化时对象的最大展开深度，默认 4 */
+    maxDepth?: number;
+}
+
+/**
+ * 回放选项
+ */
+export interface IEventReplayOptions {
+    /** 回放速度倍率，按录制时的时间间隔等待；不传或为 0 时不等待，依次立即触发 */
+    speed?: number;
+    /** 过滤函数，返回 false 的记录不回放 */
+    filter?: (record: IEventRecord) => boolean;
+    /** 是否回放录制时被拦截的事件，默认 false */
+    includeIntercepted?: boolean;
+}
+
+/** 录像格式版本 */
+const RECORDING_VERSION = 1;
+
+/**
+ * 事件录制器
+ *
+ * 通过 FWEventDispatcher 的追踪回调记录每次事件触发的时间、参数、监听器数量与耗时，
+ * 录像可导出为 JSON，并回放到任意分发器中复现事件流程
+ *
+ * 参数中的普通数据会原样保留，类实例(如节点、组件)会序列化为 `{ __type, name, uuid }` 形式的描述，
+ * 回放时监听器收到的是这份描述而不是原对象
+ *
+ * @example
+ * ```typescript
+ * // 录制
+ * const recorder = new FWEventRecorder({ maxRecords: 500 });
+ * recorder.start(dispatcher);
+ * // ...
+ * recorder.stop();
+ * const json = recorder.export();
+ *
+ * // 回放
+ * await FWEventRecorder.replay(json, dispatcher);
+ * await FWEventRecorder.replay(json, dispatcher, { speed: 2 }); // 两倍速按原时间间隔回放
+ * ```
+ */
+export class FWEventRecorder {
+    /** 事件记录 */
+    private _records: IEventRecord[] = [];
+
+    /** 正在录制的分发器 */
+    private dispatcher: FWEventDispatcher<any> | null = null;
+
+    /** 开始录制的时间戳(毫秒) */
+    private startTime: number = 0;
+
+    /** 开始录制时的高精度时间 */
+    private startNow: number = 0;
+
+    /** 停止录制时距离开始的时间(毫秒) */
+    private stopTime: number = 0;
+
+    /** 下一条记录的序号 */
+    private seq: number = 0;
+
+    /** 尚未结束的事件对应的记录 */
+    private pending: Map<IEventTrace, IEventRecord> = new Map();
+
+    /** 录制选项 */
+    private options: IEventRecorderOptions;
+
+    constructor(options: IEventRecorderOptions = {}) {
+        this.options = options;
+    }
+
+    /**
+     * 事件记录
+     */
+    get records(): readonly IEventRecord[] {
+        return this._records;
+    }
+
+    /**
+     * 是否正在录制
+     */
+    get isRecording(): boolean {
+        return this.dispatcher !== null;
+    }
+
+    /**
+     * 开始录制，会先清空之前的记录
+     *
+     * @param dispatcher 要录制的分发器，子分发器转发的事件以带命名空间的事件名记录
+     * @returns 返回自身以支持链式调用
+     */
+    start<TEvents extends EventMap>(dispatcher: FWEventDispatcher<TEvents>): this {
+        this.stop();
+        this.clear();
+        this.dispatcher = dispatcher;
+        this.startTime = Date.now();
+        this.startNow = performance.now();
+        dispatcher.addTracer(this.onTrace, this.onTraceStart);
+        return this;
+    }
+
+    /**
+     * 停止录制，已有记录会保留
+     *
+     * @returns 返回自身以支持链式调用
+     */
+    stop(): this {
+        if (this.dispatcher) {
+            this.dispatcher.removeTracer(this.onTrace);
+            this.dispatcher = null;
+            this.pending.clear();
+            this.stopTime = performance.now() - this.startNow;
+        }
+        return this;
+    }
+
+    /**
+     * 清空记录
+     */
+    clear(): void {
+        this._records = [];
+        this.pending.clear();
+        this.seq = 0;
+        this.stopTime = 0;
+        this.startTime = Date.now();
+        this.startNow = performance.now();
+    }
+
+    /**
+     * 获取录像
+     *
+     * @returns 录像数据
+     */
+    toJSON(): IEventRecording {
+        return {
+            version: RECORDING_VERSION,
+            startTime: this.startTime,
+            duration: this.isRecording ? performance.now() - this.startNow : this.stopTime,
+            records: this._records.slice()
+        };
+    }
+
+    /**
+     * 导出录像为 JSON 字符串
+     *
+     * @param space 缩进，同 JSON.stringify
+     * @returns JSON 字符串
+     */
+    export(space?: number | string): string {
+        return JSON.stringify(this.toJSON(), null, space);
+    }
+
+    /**
+     * 解析录像
+     *
+     * @param data JSON 字符串或录像数据
+     * @returns 录像数据
+     */
+    static parse(data: string | IEventRecording): IEventRecording {
+        const recording: IEventRecording = typeof data === 'string' ? JSON.parse(data) : data;
+        if (!recording || !Array.isArray(recording.records)) {
+            throw new Error('[FWEventRecorder] invalid recording');
+        }
+        if (recording.version > RECORDING_VERSION) {
+            throw new Error(`[FWEventRecorder] unsupported recording version ${recording.version}`);
+        }
+        return recording;
+    }
+
+    /**
+     * 回放录像
+     *
+     * 按录制顺序在分发器上重新触发事件，emitAsync 录制的事件会等待监听器执行完成
+     *
+     * @param data JSON 字符串或录像数据
+     * @param dispatcher 回放的目标分发器
+     * @param options 回放选项 {@link IEventReplayOptions}
+     * @returns 回放的事件数量
+     */
+    static async replay<TEvents extends EventMap>(
+        data: string | IEventRecording,
+        dispatcher: FWEventDispatcher<TEvents>,
+        options: IEventReplayOptions = {}
+    ): Promise<number> {
+        const { speed = 0, filter, includeIntercepted = false } = options;
+        const recording = this.parse(data);
+        let lastTime = recording.records.length > 0 ? recording.records[0].time : 0;
+        let count = 0;
+
+        for (const record of recording.records) {
+            if (record.intercepted && !includeIntercepted) {
+                continue;
+            }
+            if (filter && !filter(record)) {
+                continue;
+            }
+
+            if (speed > 0 && record.time > lastTime) {
+                const delay = (record.time - lastTime) / speed;
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+            lastTime = record.time;
+
+            if (record.async) {
+                await dispatcher.emitAsync(record.event, record.args as any);
+            } else {
+                dispatcher.emit(record.event, ...record.args as any);
+            }
+            count++;
+        }
+        return count;
+    }
+
+    /**
+     * 追踪开始回调
+     *
+     * 在监听器执行前记录，保证监听器中嵌套触发的事件排在外层事件之后，回放时顺序与录制时一致
+     */
+    private onTraceStart = (trace: IEventTrace) => {
+        const { maxRecords = 1000, filter } = this.options;
+        if (filter && !filter(trace.event, trace.args)) {
+            return;
+        }
+
+        const record: IEventRecord = {
+            seq: this.seq++,
+            time: performance.now() - this.startNow,
+            event: trace.event,
+            args: trace.args.map(arg => this.serialize(arg, 0, [])),
+            async: trace.async,
+            intercepted: false,
+            listenerCount: 0,
+            duration: 0,
+            handlers: []
+        };
+        this._records.push(record);
+        this.pending.set(trace, record);
+
+        if (this._records.length > maxRecords) {
+            this._records.splice(0, this._records.length - maxRecords);
+        }
+    };
+
+    /**
+     * 追踪回调，补全事件结束后才能得到的信息
+     */
+    private onTrace = (trace: IEventTrace) => {
+        const record = this.pending.get(trace);
+        if (!record) {
+            return;
+        }
+        this.pending.delete(trace);
+        record.intercepted = trace.intercepted;
+        record.listenerCount = trace.listenerCount;
+        record.duration = trace.duration;
+        record.handlers = trace.handlers.slice();
+    };
+
+    /**
+     * 将参数序列化为可 JSON 化的数据
+     */
+    private serialize(value: any, depth: number, stack: any[]): any {
+        if (this.options.serializer) {
+            const custom = this.options.serializer(value);
+            if (custom !== undefined) {
+                return custom;
+            }
+        }
+
+        if (value === null || value === undefined) {
+            return null;
+        }
+
+        const type = typeof value;
+        if (type === 'number') {
+            return Number.isFinite(value) ? value : String(value);
+        }
+        if (type === 'string' || type === 'boolean') {
+            return value;
+        }
+        if (type === 'bigint' || type === 'symbol') {
+            return String(value);
+        }
+        if (type === 'function') {
+            return `[Function ${value.name || 'anonymous'}]`;
+        }
+        if (value instanceof Error) {
+            return { __type: 'Error', name: value.name, message: value.message };
+        }
+        if (stack.indexOf(value) !== -1) {
+            return '[Circular]';
+        }
+
+        const { maxDepth = 4 } = this.options;
+        if (Array.isArray(value)) {
+            if (depth >= maxDepth) {
+                return `[Array(${value.length})]`;
+            }
+            return value.map(item => this.serialize(item, depth + 1, stack.concat([value])));
+        }
+
+        if (typeof value.toJSON === 'function') {
+            return this.serialize(value.toJSON(), depth, stack);
+        }
+
+        const proto = Object.getPrototypeOf(value);
+        if (proto !== Object.prototype && proto !== null) {
+            // 类实例只保留可用于辨认的字段和公开的基础类型字段(如 Vec3 的 x、y、z)
+            const description: Record<string, any> = { __type: value.constructor?.name || 'Object' };
+            if (typeof value.name === 'string') {
+                description.name = value.name;
+            }
+            if (typeof value.uuid === 'string') {
+                description.uuid = value.uuid;
+            }
+            Object.keys(value).forEach(key => {
+                const field = value[key];
+                if (key[0] !== '_' && (typeof field === 'number' || typeof field === 'string' || typeof field === 'boolean')) {
+                    description[key] = field;
+                }
+            });
+            return description;
+        }
+
+        if (depth >= maxDepth) {
+            return '[Object]';
+        }
+        const result: Record<string, any> = {};
+        Object.keys(value).forEach(key => {
+            result[key] = this.serialize(value[key], depth + 1, stack.concat([value]));
+        });
+        return result;
+    }
+}
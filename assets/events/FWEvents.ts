@@ -1,5 +1,6 @@
 import { EventMap } from '@bl-framework/core';
 import { Node, EventTouch, Component } from 'cc';
+import { NetCloseReason } from '../network/NetNode';
 
 
 /**
@@ -22,6 +23,19 @@ export const FWEventNames = {
     ON_GAME_TOUCH_CANCEL: 'ON_GAME_TOUCH_CANCEL' as const,
     // 系统管理相关事件
     MANAGER_INIT_END: 'MANAGER_INIT_END' as const,
+    MANAGER_INIT_FAILED: 'MANAGER_INIT_FAILED' as const,
+    // 应用生命周期相关事件
+    ON_APP_PAUSE: 'ON_APP_PAUSE' as const,
+    ON_APP_RESUME: 'ON_APP_RESUME' as const,
+    ON_APP_LOW_MEMORY: 'ON_APP_LOW_MEMORY' as const,
+    // 网络相关事件
+    ON_NET_CONNECTING: 'ON_NET_CONNECTING' as const,
+    ON_NET_WORKING: 'ON_NET_WORKING' as const,
+    ON_NET_RECONNECTING: 'ON_NET_RECONNECTING' as const,
+    ON_NET_CLOSED: 'ON_NET_CLOSED' as const,
+    ON_NET_RECONNECT_ATTEMPT: 'ON_NET_RECONNECT_ATTEMPT' as const,
+    ON_NET_RECONNECT_SUCCESS: 'ON_NET_RECONNECT_SUCCESS' as const,
+    ON_NET_RECONNECT_FAILED: 'ON_NET_RECONNECT_FAILED' as const,
 } as const; 
 /**
  * 框架全局事件类型映射
@@ -61,6 +75,7 @@ export interface IFWEvents extends EventMap {
      * 
      * 当场景中的UI根节点（UIRoot）发生变化时触发
      * 通常用于通知其他组件UI层级结构已更新
+     * 粘性事件，之后添加的监听器会立即收到当前的UI根节点
      */
     'ON_UI_ROOT_CHANGED': [uiRoot: Component];
 
@@ -133,8 +148,123 @@ export interface IFWEvents extends EventMap {
      * 
      * 当所有核心管理器初始化完成后触发
      * 通常用于通知游戏可以开始正常运行
+     * 粘性事件，初始化完成后添加的监听器会立即收到
      */
     'MANAGER_INIT_END': [];
+
+    /**
+     * 管理器初始化失败事件
+     * 
+     * 当某个管理器的init失败，或其依赖的管理器初始化失败时触发
+     * 每个失败的管理器触发一次，之后仍会发送MANAGER_INIT_END
+     * 初始化流程本身出错时key为"app"，之后不再发送MANAGER_INIT_END
+     * 
+     * @param key - 初始化失败的管理器key
+     * @param error - 失败原因
+     */
+    'MANAGER_INIT_FAILED': [key: string, error: Error];
+
+    // ==================== 应用生命周期相关事件 ====================
+
+    /**
+     * 应用切到后台事件
+     * 
+     * 当游戏被切到后台（锁屏、切换应用等）时触发
+     * 在所有管理器的onPause调用之后发送
+     */
+    'ON_APP_PAUSE': [];
+
+    /**
+     * 应用回到前台事件
+     * 
+     * 当游戏从后台回到前台时触发
+     * 在所有管理器的onResume调用之后发送
+     * 
+     * @param backgroundTime - 本次在后台停留的时长（毫秒）
+     */
+    'ON_APP_RESUME': [backgroundTime: number];
+
+    /**
+     * 系统内存不足事件
+     * 
+     * 当系统发出内存警告时触发，用于释放可再次获取的缓存资源
+     */
+    'ON_APP_LOW_MEMORY': [];
+
+    // ==================== 网络相关事件 ====================
+
+    /**
+     * 网络开始连接事件
+     * 
+     * 网络节点发起连接（包括自动重连发起的连接）时触发
+     * 
+     * @param name - 网络节点名称
+     * @param isReconnect - 是否为自动重连
+     */
+    'ON_NET_CONNECTING': [name: string, isReconnect: boolean];
+
+    /**
+     * 网络可用事件
+     * 
+     * 连接成功且握手通过，进入可传输数据状态时触发
+     * 
+     * @param name - 网络节点名称
+     */
+    'ON_NET_WORKING': [name: string];
+
+    /**
+     * 网络断线重连事件
+     * 
+     * 连接断开且将自动重连时触发，之后每次重连尝试触发 ON_NET_RECONNECT_ATTEMPT
+     * 
+     * @param name - 网络节点名称
+     * @param code - socket关闭码，参见 NetInterface 中的状态码说明
+     * @param reason - 断开的原因
+     */
+    'ON_NET_RECONNECTING': [name: string, code: number, reason: NetCloseReason];
+
+    /**
+     * 网络关闭事件
+     * 
+     * 连接断开且不再自动重连时触发
+     * 
+     * @param name - 网络节点名称
+     * @param code - socket关闭码，参见 NetInterface 中的状态码说明
+     * @param reason - 断开的原因
+     */
+    'ON_NET_CLOSED': [name: string, code: number, reason: NetCloseReason];
+
+    /**
+     * 网络重连尝试事件
+     * 
+     * 断线后每次安排重连时触发
+     * 
+     * @param name - 网络节点名称
+     * @param attempt - 本次断线后的第几次重连（从1开始）
+     * @param delay - 距离发起重连的等待时间（毫秒）
+     */
+    'ON_NET_RECONNECT_ATTEMPT': [name: string, attempt: number, delay: number];
+
+    /**
+     * 网络重连成功事件
+     * 
+     * 重连后进入可传输数据状态（握手成功）时触发
+     * 
+     * @param name - 网络节点名称
+     * @param attempts - 本次断线后共尝试重连的次数
+     */
+    'ON_NET_RECONNECT_SUCCESS': [name: string, attempts: number];
+
+    /**
+     * 网络重连失败事件
+     * 
+     * 重连次数用尽或重连被取消（如握手失败）时触发
+     * 
+     * @param name - 网络节点名称
+     * @param attempts - 本次断线后共尝试重连的次数
+     * @param reason - 最后一次断开的原因
+     */
+    'ON_NET_RECONNECT_FAILED': [name: string, attempts: number, reason: NetCloseReason];
 }
 
 /**
@@ -123,6 +123,16 @@ export default class Simulator {
     this.timeStep = timeStep;
   }
 
+  /**
+   * 以固定步长推进一次模拟
+   * 在管理器的 fixedUpdate 中调用，保证每次步进的时间间隔一致
+   * @param fixedDeltaTime 固定步长（秒）
+   */
+  step(fixedDeltaTime: number) {
+    this.timeStep = fixedDeltaTime;
+    this.run();
+  }
+
   /**
    * 获取 Agent 位置
    * @param agentId Agent ID
@@ -1,8 +1,35 @@
 import { assert, instantiate, sys } from "cc";
-import { managerRegister } from "./manager/base/FWBaseManager";
+import { FWBaseManager, IManagerRegisterOptions, managerRegister, registerManager, unregisterManager } from "./manager/base/FWBaseManager";
 import { managerObject } from "../common/FWConstant";
+import { func } from "../common/FWFunction";
+import { resubscribeEvents, subscribeEvents } from "../common/FWDecorator";
+import { log } from "../common";
+import { IFWManagerBase } from "../declare/FWInterface";
 
 export class FWManager extends EventTarget {
+    /** 已创建的管理器，按依赖顺序排列 */
+    private _managers: Map<string, FWBaseManager> = new Map();
+
+    /** 管理器的初始化任务 */
+    private _initTasks: Map<string, Promise<void>> = new Map();
+
+    /** 初始化失败的管理器及失败原因 */
+    private _initErrors: Map<string, Error> = new Map();
+
+    /** 固定更新步长（秒） */
+    fixedTimeStep: number = 1 / 60;
+
+    /** 单帧最多执行的固定更新次数，超出的累积时间会被丢弃，避免卡顿后持续追帧 */
+    maxFixedSteps: number = 5;
+
+    /** 固定更新累积时间 */
+    private _fixedAccumulator: number = 0;
+
+    /** 按更新优先级排序的管理器，只用于update与fixedUpdate，managerObject保持创建与依赖顺序 */
+    private _updateList: IFWManagerBase[] = [];
+
+    /** 生成_updateList时的managerObject快照，用于检测管理器的增删 */
+    private _updateSource: IFWManagerBase[] = [];
 
     constructor() {
         super();
@@ -10,11 +37,11 @@ export class FWManager extends EventTarget {
     }
 
     initManager() {
-        managerRegister.forEach((element,key) => {
-            this[key] = element();
+        this.sortManagerKeys().forEach(key => {
+            this.createManager(key);
         });
     }
-    
+
     __preload() {
         managerObject.forEach(element => {
             element.__preload();
@@ -23,22 +50,326 @@ export class FWManager extends EventTarget {
 
     start() {
         managerObject.forEach(element => {
+            subscribeEvents(element);
             element.start();
         });
+        // 框架初始化前启用的组件、软重启后仍启用的组件订阅到新的事件管理器
+        resubscribeEvents();
+        // 子包释放时移除绑定该子包的管理器
+        app.manager.event.on(app.manager.event.events.ON_BUNDLE_RELEASE, this.onBundleRelease, this);
+    }
+
+    /**
+     * 异步初始化所有管理器
+     * 每个管理器在其依赖全部初始化成功后才会执行init，依赖失败时自身也会被标记为失败
+     * @returns 所有管理器的初始化都结束（无论成功失败）后resolve
+     */
+    async init() {
+        await Promise.all(Array.from(this._managers.keys()).map(key => {
+            return this.initOne(key).catch((err) => {
+                this.onInitError(key, err);
+            });
+        }));
+    }
+
+    /**
+     * 获取管理器
+     * @param key 管理器key
+     * @returns 管理器实例，不存在时返回undefined
+     *
+     * @example
+     * ```typescript
+     * let quest = app.manager.get<QuestManager>("quest");
+     * let ui = app.manager.get("ui"); // 自动推断为 FWUIManager
+     * ```
+     */
+    get<K extends keyof IFWManager>(key: K): IFWManager[K];
+    get<T extends FWBaseManager = FWBaseManager>(key: string): T;
+    get(key: string) {
+        return this._managers.get(key);
+    }
+
+    /**
+     * 是否存在管理器
+     * @param key 管理器key
+     */
+    has(key: string) {
+        return this._managers.has(key);
+    }
+
+    /**
+     * 运行时添加管理器
+     * 注册并创建管理器，依次执行__preload、start和init
+     * 通常在功能子包加载时调用，配合options.bundle可在子包释放时自动移除
+     * @param key 管理器的唯一标识键
+     * @param ctor 管理器的构造函数
+     * @param options 注册选项 {@link IManagerRegisterOptions}
+     * @returns Promise<T> init完成后返回管理器实例，init失败时reject
+     */
+    async addManager<T extends FWBaseManager>(key: string, ctor: () => T, options: IManagerRegisterOptions = {}): Promise<T> {
+        registerManager(key, ctor, options);
+        let manager = this.createManager(key) as T;
+        manager.__preload();
+        subscribeEvents(manager);
+        manager.start();
+        try {
+            await this.initOne(key);
+        } catch (err) {
+            this.onInitError(key, err);
+            throw this._initErrors.get(key);
+        }
+        return manager;
+    }
+
+    /**
+     * 运行时移除管理器
+     * 销毁管理器并注销其注册信息
+     * @param key 管理器key
+     * @returns 是否移除成功
+     */
+    removeManager(key: string) {
+        let manager = this._managers.get(key);
+        if (!manager) {
+            return false;
+        }
+        managerRegister.forEach((info, other) => {
+            if (other != key && this._managers.has(other) && info.dependencies.indexOf(key) != -1) {
+                log.warn(`manager ${other} depends on removed manager ${key}`);
+            }
+        });
+        this._managers.delete(key);
+        this._initTasks.delete(key);
+        this._initErrors.delete(key);
+        delete this[key];
+        unregisterManager(key);
+        manager.dectroy();
+        return true;
+    }
+
+    /**
+     * 获取管理器的初始化错误
+     * @param key 管理器key
+     * @returns 初始化失败的原因，成功或未初始化时返回undefined
+     */
+    getInitError(key: string) {
+        return this._initErrors.get(key);
+    }
+
+    /**
+     * 创建已注册的管理器
+     * @param key 管理器key
+     * @returns 管理器实例
+     */
+    private createManager(key: string) {
+        let info = managerRegister.get(key);
+        let manager = info.ctor();
+        this._managers.set(key, manager);
+        if (info.updateOrder !== undefined) {
+            manager.updatePriority = info.updateOrder;
+        }
+        this[key] = manager;
+        return manager;
+    }
+
+    /**
+     * 初始化单个管理器，会先等待其所有依赖初始化完成
+     * @param key 管理器key
+     */
+    private initOne(key: string): Promise<void> {
+        if (this._initTasks.has(key)) {
+            return this._initTasks.get(key);
+        }
+        let dependencies = managerRegister.get(key)?.dependencies ?? [];
+        let task = Promise.all(dependencies.map(dep => {
+            if (!this._managers.has(dep)) {
+                return Promise.reject(new Error(`dependency ${dep} is not registered`));
+            }
+            return this.initOne(dep).catch((err) => {
+                return Promise.reject(new Error(`dependency ${dep} init failed: ${func.getErroMessage(err)}`));
+            });
+        })).then(() => this._managers.get(key).init());
+        this._initTasks.set(key, task);
+        return task;
+    }
+
+    /**
+     * 记录并通知管理器初始化失败
+     * @param key 管理器key
+     * @param err 失败原因
+     */
+    private onInitError(key: string, err: any) {
+        let error = err instanceof Error ? err : new Error(func.getErroMessage(err));
+        this._initErrors.set(key, error);
+        log.error(`manager ${key} init failed:`, error);
+        app.manager.event?.emit(app.manager.event.events.MANAGER_INIT_FAILED, key, error);
+    }
+
+    /**
+     * 子包释放回调
+     * 移除所有绑定该子包的管理器
+     * @param bundleName 子包名称
+     */
+    private onBundleRelease(bundleName: string) {
+        let keys: string[] = [];
+        managerRegister.forEach((info, key) => {
+            if (info.bundle && info.bundle == bundleName) {
+                keys.push(key);
+            }
+        });
+        keys.forEach(key => this.removeManager(key));
+    }
+
+    /**
+     * 按依赖关系对已注册的管理器进行拓扑排序
+     * 没有依赖关系的管理器按创建优先级排列，优先级相同时保持注册顺序
+     * @returns 排序后的管理器key列表
+     */
+    private sortManagerKeys() {
+        let sorted: string[] = [];
+        let visited: Set<string> = new Set();
+        let visiting: string[] = [];
+        let visit = (key: string) => {
+            if (visited.has(key)) {
+                return;
+            }
+            let index = visiting.indexOf(key);
+            if (index != -1) {
+                throw new Error(`manager dependency cycle: ${visiting.slice(index).concat(key).join(' -> ')}`);
+            }
+            visiting.push(key);
+            managerRegister.get(key).dependencies.forEach(dep => {
+                if (managerRegister.has(dep)) {
+                    visit(dep);
+                } else {
+                    log.warn(`manager ${key} depends on unregistered manager ${dep}`);
+                }
+            });
+            visiting.pop();
+            visited.add(key);
+            sorted.push(key);
+        };
+        let keys = Array.from(managerRegister.keys());
+        keys.sort((a, b) => managerRegister.get(b).priority - managerRegister.get(a).priority);
+        keys.forEach(key => visit(key));
+        return sorted;
+    }
+
+    /**
+     * 固定更新插值系数
+     * 剩余累积时间占一个固定步长的比例(0~1)，可用于渲染插值
+     */
+    get fixedAlpha() {
+        return this._fixedAccumulator / this.fixedTimeStep;
     }
 
     update(deltaTime: number): void {
+        this.getUpdateList().forEach(element => {
+            if (!element.paused) {
+                element.update(deltaTime);
+            }
+        });
+    }
+
+    /**
+     * 固定步长更新
+     * 累积帧间隔时间，按 fixedTimeStep 为步长调用管理器的 fixedUpdate
+     * @param deltaTime 帧间隔时间
+     */
+    fixedUpdate(deltaTime: number): void {
+        let updateList = this.getUpdateList();
+        this._fixedAccumulator += deltaTime;
+        let steps = 0;
+        while (this._fixedAccumulator >= this.fixedTimeStep && steps < this.maxFixedSteps) {
+            this._fixedAccumulator -= this.fixedTimeStep;
+            steps++;
+            updateList.forEach(element => {
+                if (element.useFixedUpdate && !element.paused) {
+                    element.fixedUpdate(this.fixedTimeStep);
+                }
+            });
+        }
+        // 超出追帧上限，丢弃多余的累积时间
+        if (this._fixedAccumulator >= this.fixedTimeStep) {
+            this._fixedAccumulator %= this.fixedTimeStep;
+        }
+    }
+
+    /**
+     * 应用切到后台，通知所有管理器
+     */
+    onPause() {
         managerObject.forEach(element => {
-            element.update(deltaTime);
+            element.onPause();
         });
     }
 
+    /**
+     * 应用回到前台，通知所有管理器
+     * @param backgroundTime 本次在后台停留的时长（毫秒）
+     */
+    onResume(backgroundTime: number) {
+        managerObject.forEach(element => {
+            element.onResume(backgroundTime);
+        });
+    }
+
+    /**
+     * 系统内存不足，通知所有管理器
+     */
+    onLowMemory() {
+        managerObject.forEach(element => {
+            element.onLowMemory();
+        });
+    }
+
+    /**
+     * 获取按更新优先级排序的管理器，管理器增删或优先级变化时重新排序，优先级相同时保持创建顺序
+     * 不修改managerObject，其余生命周期仍按依赖顺序调用
+     */
+    private getUpdateList() {
+        let list = this._updateList;
+        let changed = this._updateSource.length != managerObject.length
+            || managerObject.some((element, index) => element !== this._updateSource[index]);
+        for (let i = 1; !changed && i < list.length; i++) {
+            changed = list[i - 1].updatePriority > list[i].updatePriority;
+        }
+        if (changed) {
+            this._updateSource = Array.from(managerObject);
+            this._updateList = Array.from(managerObject).sort((a, b) => a.updatePriority - b.updatePriority);
+        }
+        return this._updateList;
+    }
+
     dectroy() {
+        if (globalThis.manager === this as any) {
+            globalThis.manager = null;
+        }
         let old = Array.from(managerObject);
         managerObject.length = 0;
+        this._managers.clear();
+        this._initTasks.clear();
+        this._fixedAccumulator = 0;
+        this._updateList = [];
+        this._updateSource = [];
         old.forEach(element => {
             element.dectroy();
         });
     }
 }
 
+/**
+ * 全局类型声明扩展
+ * 为全局管理器接口添加管理器访问方法
+ */
+declare global {
+    namespace globalThis {
+        interface IFWManager {
+            get<K extends keyof IFWManager>(key: K): IFWManager[K];
+            get<T extends FWBaseManager = FWBaseManager>(key: string): T;
+            has(key: string): boolean;
+            addManager<T extends FWBaseManager>(key: string, ctor: () => T, options?: IManagerRegisterOptions): Promise<T>;
+            removeManager(key: string): boolean;
+            getInitError(key: string): Error | undefined;
+        }
+    }
+}
@@ -128,6 +128,14 @@ export class FWAssetManager extends FWBaseManager {
         })
     }
 
+    /**
+     * 卸载所有子包
+     * @param keep 需要保留的子包名称，默认保留内置的 main 和 resources
+     */
+    unloadAllBundles(keep: string[] = ['main', 'resources']) {
+        this.unloadBundle(Array.from(this.bundles.keys()).filter(bundleName => keep.indexOf(bundleName) == -1));
+    }
+
     /**
      * 获取已加载的资源
      * @param path 资源路径
@@ -237,7 +245,7 @@ export class FWBundle {
             // 过滤掉加载失败的资源
             let ret:T[] = []
             data.forEach((v:T|Error) => {
-                if( v instanceof Error == false) {
+                if(!(v instanceof Error)) {
                     ret.push(v);
                 }
             })
@@ -167,6 +167,14 @@ export class FWAudioManager extends FWBaseManager {
         })
         // 销毁音效对象池
         this._sfxPool?.destroy();
+        // 移除并销毁常驻音频节点
+        [this._bgmNode, this._sfxNode].forEach(node => {
+            if (node?.isValid) {
+                director.removePersistRootNode(node);
+                node.destroy();
+            }
+        });
+        this._bgmNode = this._sfxNode = null;
     }
 }
 
@@ -22,6 +22,21 @@ export class FWDataManager extends FWBaseManager {
             this[key] = element();
         });
     }
+
+    /**
+     * 销毁时清理数据单例缓存
+     */
+    onDestroy(): void {
+        super.onDestroy();
+        dataRegister.forEach((element,key) => {
+            let data = this[key];
+            let ctor = data?.constructor as { _instance?: any };
+            if (ctor && ctor._instance === data) {
+                ctor._instance = null;
+            }
+            this[key] = null;
+        });
+    }
 }
 
 declare global {
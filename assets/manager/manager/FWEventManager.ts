@@ -1,6 +1,8 @@
-import { _decorator, assert, AudioClip, AudioSource, BlockInputEvents, color, Component, director, Eventify, EventTouch, log, Node, Pool, RenderRoot2D, Sprite, SpriteFrame, UITransform, Widget } from 'cc';
+import { _decorator, assert, AudioClip, AudioSource, BlockInputEvents, color, Component, director, Eventify, EventTouch, Node, Pool, RenderRoot2D, Sprite, SpriteFrame, UITransform, Widget } from 'cc';
 import { FWBaseManager } from "./base/FWBaseManager";
-import { FWEventDispatcher } from '../../events';
+import { log } from '../../common';
+import { EventMap, FWEventDispatcher, IEmitAsyncOptions, IWaitForOptions } from '../../events/FWEventDispatcher';
+import { FWEventRecorder, IEventRecorderOptions, IEventRecording, IEventReplayOptions } from '../../events/FWEventRecorder';
 import { IFWEvents, FWEventName, FWEventNames } from '../../events/FWEvents';
 const { ccclass, property } = _decorator;
 
@@ -20,17 +22,56 @@ export class FWEventManager extends FWBaseManager {
 
     events = FWEventNames;
 
+    /** 已绑定销毁回调的节点或组件，值为绑定的节点与回调，移除监听时一并解绑 */
+    private boundTargets: Map<Node | Component, { node: Node, callback: () => void }> = new Map();
+
     constructor() {
         super();
         this.event = new FWEventDispatcher<IFWEvents>();
+        // 晚于事件触发的监听器也需要收到的框架事件
+        this.event.setSticky(this.events.MANAGER_INIT_END);
+        this.event.setSticky(this.events.ON_UI_ROOT_CHANGED);
+    }
+
+    start() {
+        // 子包释放时移除该子包命名空间下的所有监听
+        this.on(this.events.ON_BUNDLE_RELEASE, this.onBundleRelease, this);
     }
 
     emit<K extends FWEventName>(event: K, ...args: IFWEvents[K]) {
         this.event.emit(event, ...args);
     }
 
+    /**
+     * 异步触发事件，等待所有监听器返回的 Promise
+     * @param event 事件名称
+     * @param args 事件参数
+     * @param options 执行选项 {@link IEmitAsyncOptions}
+     * @returns 是否有监听器
+     */
+    emitAsync<K extends FWEventName>(event: K, args: IFWEvents[K], options?: IEmitAsyncOptions) {
+        return this.event.emitAsync(event, args, options);
+    }
+
+    /**
+     * 等待事件触发
+     * @param event 事件名称
+     * @param options 等待选项 {@link IWaitForOptions}
+     * @returns 事件参数
+     *
+     * @example
+     * ```typescript
+     * let [uiRoot] = await app.manager.event.waitFor(app.manager.event.events.ON_UI_ROOT_CHANGED);
+     * let [touch] = await app.manager.event.waitFor(app.manager.event.events.ON_GAME_TOUCH_END, { timeout: 5000 });
+     * ```
+     */
+    waitFor<K extends FWEventName>(event: K, options?: IWaitForOptions<IFWEvents[K]>) {
+        return this.event.waitFor(event, options);
+    }
+
     /**
      * 添加事件监听
+     * target为节点或组件时，节点销毁后自动移除监听，已销毁目标的监听器不会再被调用
      * @param event 事件名称
      * @param callback 回调函数
      * @param target 目标对象
@@ -43,6 +84,7 @@ export class FWEventManager extends FWBaseManager {
         target?: any,
         priority?: number
     ) {
+        this.bindTargetLifetime(target);
         this.event.on(event, callback, target, priority);
     }
 
@@ -59,6 +101,7 @@ export class FWEventManager extends FWBaseManager {
         target?: any,
         priority?: number
     ) {
+        this.bindTargetLifetime(target);
         this.event.once(event, callback, target, priority);
     }
 
@@ -76,20 +119,228 @@ export class FWEventManager extends FWBaseManager {
         this.event.off(event, callback, target);
     }
 
+    /**
+     * 设置粘性事件
+     * 粘性事件会记住最近触发的参数，之后添加的监听器会立即收到
+     * @param event 事件名称
+     * @param replay 回放缓冲区大小，默认 1(只保留最近一次)
+     */
+    setSticky<K extends FWEventName>(event: K, replay?: number) {
+        this.event.setSticky(event, replay);
+    }
+
+    /**
+     * 取消粘性事件，同时清除已记住的参数
+     * @param event 事件名称
+     */
+    removeSticky<K extends FWEventName>(event: K) {
+        this.event.removeSticky(event);
+    }
+
+    /**
+     * 清除粘性事件已记住的参数，事件仍保持粘性
+     * @param event 事件名称(不传则清除所有)
+     */
+    clearSticky<K extends FWEventName>(event?: K) {
+        this.event.clearSticky(event);
+    }
+
+    /**
+     * 获取粘性事件最近一次触发的参数
+     * @param event 事件名称
+     * @returns 事件参数，未触发过时返回undefined
+     *
+     * @example
+     * ```typescript
+     * let [uiRoot] = app.manager.event.getStickyPayload(app.manager.event.events.ON_UI_ROOT_CHANGED) ?? [];
+     * ```
+     */
+    getStickyPayload<K extends FWEventName>(event: K) {
+        return this.event.getStickyPayload(event);
+    }
+
+    /**
+     * 按模式监听事件
+     * `*` 匹配一段，`**` 匹配零段或多段，回调的第一个参数是实际触发的事件名
+     * @param pattern 事件模式，如 `net.*.connected`
+     * @param callback 回调函数
+     * @param target 目标对象
+     * @param priority 优先级(数字越大越先执行)
+     */
+    onPattern(pattern: string, callback: (event: string, ...args: any[]) => void, target?: any, priority?: number) {
+        this.bindTargetLifetime(target);
+        this.event.onPattern(pattern, callback, target, priority);
+    }
+
+    /**
+     * 移除模式监听
+     * @param pattern 事件模式
+     * @param callback 回调函数
+     * @param target 目标对象
+     */
+    offPattern(pattern?: string, callback?: (event: string, ...args: any[]) => void, target?: any) {
+        this.event.offPattern(pattern, callback, target);
+    }
+
+    /**
+     * 获取命名空间子分发器
+     * 子分发器触发的事件会加上命名空间转发到全局事件，可用 onPattern 监听
+     * @param namespace 命名空间，如 `net.channel0`
+     * @returns 子分发器
+     *
+     * @example
+     * ```typescript
+     * let channel = app.manager.event.scope<ChannelEvents>('net.channel0');
+     * channel.on('connected', this.onConnected, this);
+     * app.manager.event.onPattern('net.*.connected', (event) => {});
+     * ```
+     */
+    scope<T extends EventMap = EventMap>(namespace: string) {
+        return this.event.scope<T>(namespace);
+    }
+
+    /**
+     * 获取子包的命名空间子分发器
+     * 子包释放(ON_BUNDLE_RELEASE)时自动移除其中的所有监听
+     * @param bundleName 子包名称
+     * @returns 子分发器
+     */
+    getBundleScope<T extends EventMap = EventMap>(bundleName: string) {
+        return this.scope<T>(`bundle.${bundleName}`);
+    }
+
+    /**
+     * 移除命名空间下的所有监听
+     * @param namespace 命名空间
+     */
+    offNamespace(namespace: string) {
+        this.event.offNamespace(namespace);
+    }
+
     /**
      * 移除目标对象的所有监听
      * @param target 目标对象
      */
     offTarget(target: any) {
+        this.unbindTargetLifetime(target);
         this.event.offTarget(target);
     }
 
+    /**
+     * 开始录制事件
+     * 录像可通过 recorder.export() 导出为JSON，随问题反馈一起提交
+     * @param options 录制选项 {@link IEventRecorderOptions}
+     * @returns 已开始录制的录制器
+     *
+     * @example
+     * ```typescript
+     * let recorder = app.manager.event.record({ maxRecords: 500 });
+     * // ...
+     * recorder.stop();
+     * let json = recorder.export();
+     * ```
+     */
+    record(options?: IEventRecorderOptions) {
+        return new FWEventRecorder(options).start(this.event);
+    }
+
+    /**
+     * 回放事件录像
+     * @param recording JSON字符串或录像数据
+     * @param options 回放选项 {@link IEventReplayOptions}
+     * @returns 回放的事件数量
+     */
+    replay(recording: string | IEventRecording, options?: IEventReplayOptions) {
+        return FWEventRecorder.replay(recording, this.event, options);
+    }
+
+    /**
+     * 获取目标已销毁但仍未移除的监听器
+     * @returns 失效监听器信息列表
+     */
+    getInvalidListeners() {
+        return this.event.getInvalidListeners();
+    }
+
+    /**
+     * 输出目标已销毁但仍未移除的监听器
+     * @returns 失效监听器数量
+     */
+    reportInvalidListeners() {
+        let invalid = this.getInvalidListeners();
+        invalid.forEach(info => {
+            log.warn(`[FWEventManager] listener of ${info.event} is attached to destroyed target`, info.target);
+        });
+        return invalid.length;
+    }
+
+    /**
+     * 移除目标已销毁的监听器
+     * @returns 移除的监听器数量
+     */
+    removeInvalidListeners() {
+        return this.event.removeInvalidListeners();
+    }
+
     /**
      * 移除所有事件监听
      */
     clear() {
+        Array.from(this.boundTargets.keys()).forEach(target => this.unbindTargetLifetime(target));
         this.event.clear();
     }
+
+    /**
+     * 目标为节点或组件时，在节点销毁时自动移除该目标的所有监听
+     * 单独销毁的组件在下次触发事件时移除
+     * @param target 目标对象
+     */
+    private bindTargetLifetime(target: any) {
+        let node: Node | null = null;
+        if (target instanceof Node) {
+            node = target;
+        } else if (target instanceof Component) {
+            node = target.node;
+        }
+        if (!node || !node.isValid || this.boundTargets.has(target)) {
+            return;
+        }
+        let callback = () => {
+            this.boundTargets.delete(target);
+            this.event.offTarget(target);
+        };
+        this.boundTargets.set(target, { node, callback });
+        node.once(Node.EventType.NODE_DESTROYED, callback);
+    }
+
+    /**
+     * 移除目标绑定的节点销毁回调
+     * @param target 目标对象
+     */
+    private unbindTargetLifetime(target: any) {
+        let bound = this.boundTargets.get(target);
+        if (!bound) {
+            return;
+        }
+        this.boundTargets.delete(target);
+        bound.node.off(Node.EventType.NODE_DESTROYED, bound.callback);
+    }
+
+    /**
+     * 子包释放回调
+     * @param bundleName 子包名称
+     */
+    private onBundleRelease(bundleName: string) {
+        this.offNamespace(`bundle.${bundleName}`);
+    }
+
+    /**
+     * 销毁时移除所有事件监听
+     */
+    onDestroy(): void {
+        super.onDestroy();
+        this.clear();
+    }
 }
 
 declare global {
@@ -0,0 +1,206 @@
+import { FWBaseManager } from './base/FWBaseManager';
+import { log } from '../../common';
+import { NetConnectOptions, NetNode, NetNodeState } from '../../network/NetNode';
+import { NetData, NetRequestError, NetRequestOptions, NetSendOptions } from '../../network/NetInterface';
+import { FWHttpCache } from '../../network/FWHttpCache';
+
+/**
+ * 网络管理器
+ * 按名称管理多个网络节点（频道），频道名称即节点的 name
+ * 节点的连接状态通过 app.manager.event 以 ON_NET_* 事件广播，管理器销毁时关闭所有频道
+ * 同时提供 FWHttp/FWAxios 共用的 HTTP 缓存，用于查看与清理
+ *
+ * @example
+ * ```typescript
+ * let node = new NetNode();
+ * node.init(new WebSock(), new BinaryProtocolHelper());
+ * app.manager.net.addChannel(node, "game");
+ * app.manager.net.connect({ url: "wss://example.com/game", autoReconnect: -1 }, "game");
+ * app.manager.event.on(app.manager.event.events.ON_NET_CLOSED, (name, code, reason) => { ... }, this);
+ * let rsp = await app.manager.net.request(Cmd.Login, { token }, {}, "game");
+ *
+ * app.manager.net.httpCache.getStats();
+ * app.manager.net.httpCache.purge("https://example.com/notice");
+ * ```
+ */
+export class FWNetManager extends FWBaseManager {
+    /** 静态实例，用于单例模式 */
+    protected static _instance: FWNetManager | null = null;
+
+    /**
+     * 获取网络管理器单例实例
+     * @returns FWNetManager 网络管理器实例
+     */
+    public static get instance(): FWNetManager {
+        if (!FWNetManager._instance) {
+            FWNetManager._instance = new FWNetManager();
+        }
+        return FWNetManager._instance;
+    }
+
+    /** 默认频道名称 */
+    static readonly DEFAULT_CHANNEL = 'default';
+
+    /** 网络频道，键为频道名称 */
+    private _channels: Map<string, NetNode> = new Map();
+
+    /**
+     * HTTP 响应缓存
+     */
+    get httpCache(): FWHttpCache {
+        return FWHttpCache.instance;
+    }
+
+    /**
+     * 所有频道的名称
+     */
+    get channelNames(): string[] {
+        return Array.from(this._channels.keys());
+    }
+
+    /**
+     * 添加频道
+     * 节点的 name 会被设置为频道名称，同名频道已存在时关闭并替换旧节点
+     * @param node 网络节点，需已调用 init
+     * @param name 频道名称
+     * @returns 添加的网络节点
+     */
+    addChannel(node: NetNode, name: string = FWNetManager.DEFAULT_CHANNEL): NetNode {
+        let old = this._channels.get(name);
+        if (old && old !== node) {
+            log.warn(`FWNetManager channel ${name} is replaced`);
+            old.close();
+        }
+        node.name = name;
+        this._channels.set(name, node);
+        return node;
+    }
+
+    /**
+     * 移除频道
+     * @param name 频道名称
+     * @param close 是否同时关闭节点，默认 true
+     * @returns 是否移除成功
+     */
+    removeChannel(name: string, close: boolean = true): boolean {
+        let node = this._channels.get(name);
+        if (!node) {
+            return false;
+        }
+        this._channels.delete(name);
+        if (close) {
+            node.close();
+        }
+        return true;
+    }
+
+    /**
+     * 获取频道的网络节点
+     * @param name 频道名称
+     * @returns 网络节点，不存在时返回 null
+     */
+    getChannel(name: string = FWNetManager.DEFAULT_CHANNEL): NetNode | null {
+        return this._channels.get(name) ?? null;
+    }
+
+    /**
+     * 是否存在频道
+     * @param name 频道名称
+     */
+    hasChannel(name: string): boolean {
+        return this._channels.has(name);
+    }
+
+    /**
+     * 获取频道的连接状态
+     * @param name 频道名称
+     * @returns 连接状态，频道不存在时返回 Closed
+     */
+    getState(name: string = FWNetManager.DEFAULT_CHANNEL): NetNodeState {
+        return this._channels.get(name)?.getState() ?? NetNodeState.Closed;
+    }
+
+    /**
+     * 连接频道
+     * @param options 连接选项
+     * @param name 频道名称
+     * @returns 是否成功发起连接
+     */
+    connect(options: NetConnectOptions, name: string = FWNetManager.DEFAULT_CHANNEL): boolean {
+        let node = this._channels.get(name);
+        if (!node) {
+            log.error(`FWNetManager channel ${name} not found`);
+            return false;
+        }
+        return node.connect(options);
+    }
+
+    /**
+     * 通过频道发送数据
+     * @param buf 数据
+     * @param options 发送选项
+     * @param name 频道名称
+     * @returns 是否发送成功或已进入发送队列
+     */
+    send(buf: NetData, options?: NetSendOptions, name: string = FWNetManager.DEFAULT_CHANNEL): boolean {
+        let node = this._channels.get(name);
+        if (!node) {
+            log.error(`FWNetManager channel ${name} not found`);
+            return false;
+        }
+        return node.send(buf, options);
+    }
+
+    /**
+     * 通过频道发起请求并等待响应
+     * @param cmd 请求指令
+     * @param payload 请求数据
+     * @param options 请求选项
+     * @param name 频道名称
+     * @returns 响应数据，频道不存在时以 CLOSED 错误 reject
+     */
+    request<TReq = any, TRsp = any>(cmd: number, payload: TReq, options?: NetRequestOptions, name: string = FWNetManager.DEFAULT_CHANNEL): Promise<TRsp> {
+        let node = this._channels.get(name);
+        if (!node) {
+            return Promise.reject(new NetRequestError('CLOSED', cmd, 0, `FWNetManager channel ${name} not found`));
+        }
+        return node.request<TReq, TRsp>(cmd, payload, options);
+    }
+
+    /**
+     * 关闭频道的连接，频道保留，可再次连接
+     * @param name 频道名称
+     */
+    close(name: string = FWNetManager.DEFAULT_CHANNEL) {
+        this._channels.get(name)?.close();
+    }
+
+    /**
+     * 关闭所有频道的连接
+     */
+    closeAll() {
+        this._channels.forEach(node => node.close());
+    }
+
+    /**
+     * 销毁回调
+     * 关闭并移除所有频道
+     */
+    onDestroy(): void {
+        super.onDestroy();
+        this.closeAll();
+        this._channels.clear();
+    }
+}
+
+/**
+ * 全局类型声明
+ * 扩展全局管理器接口，添加网络管理器类型
+ */
+declare global {
+    namespace globalThis {
+        interface IFWManager {
+            net: FWNetManager
+        }
+    }
+}
@@ -1,7 +1,8 @@
-import { _decorator, assert, AudioClip, AudioSource, BlockInputEvents, color, Component, director, EventTouch, log, Node, Pool, RenderRoot2D, Sprite, SpriteFrame, UITransform, Widget } from 'cc';
+import { _decorator, assert, AudioClip, AudioSource, BlockInputEvents, color, Component, director, EventTouch, instantiate, log, Node, Pool, RenderRoot2D, Sprite, SpriteFrame, UITransform, Widget } from 'cc';
 import { FWBaseManager } from './base/FWBaseManager';
 import { func, uiFunc } from '../../common/FWFunction';
-import { FWUILoading,FWUIMask } from '../../ui';
+import { FWUILoading,FWUIMask,FWUIRequestLoading } from '../../ui';
+import { constant } from '../../common/FWConstant';
 const { ccclass, property } = _decorator;
 
 /**
@@ -42,6 +43,15 @@ export class FWUILoadingManager extends FWBaseManager {
     /** 当前显示的加载界面 */
     private _cur:FWUILoading;
 
+    /** 进行中的网络请求，按开始顺序排列 */
+    private _requests:{ id:number, text:string }[] = [];
+
+    /** 网络请求标识计数 */
+    private _requestId = 0;
+
+    /** 网络请求的加载提示，所有网络请求共用 */
+    private _requestView:FWUIRequestLoading = null;
+
     /**
      * 设置根节点
      * 当设置根节点时，会自动创建或获取遮罩节点
@@ -93,7 +103,7 @@ export class FWUILoadingManager extends FWBaseManager {
 
     /**
      * 关闭所有加载界面
-     * 清空队列并隐藏所有加载界面
+     * 清空队列并隐藏所有加载界面，进行中的网络请求不再显示加载提示
      */
     closeAll() {
         let oldQueue = this._queue;
@@ -102,6 +112,67 @@ export class FWUILoadingManager extends FWBaseManager {
             dialog.hide();
         });
         this._queueDirty = true;
+        this._requests = [];
+        this._requestView = null;
+    }
+
+    /**
+     * 开始一个网络请求，显示网络请求的加载提示
+     * 多个请求共用同一个提示，显示最近开始的请求的文本，所有请求结束后隐藏
+     * @param text 提示文本
+     * @returns 请求标识，请求结束时传给endRequest
+     */
+    beginRequest(text: string = ""): number {
+        let id = ++this._requestId;
+        this._requests.push({ id, text });
+        if (!this._requestView?.isValid) {
+            this._requestView = this.createRequestView();
+            this._requestView.show();
+        }
+        this._requestView.setText(text);
+        return id;
+    }
+
+    /**
+     * 结束一个网络请求，没有进行中的请求时隐藏加载提示
+     * @param id beginRequest返回的请求标识，重复结束时忽略
+     */
+    endRequest(id: number) {
+        let index = this._requests.findIndex(request => request.id == id);
+        if (index == -1) {
+            return;
+        }
+        this._requests.splice(index, 1);
+        let view = this._requestView;
+        if (!view?.isValid) {
+            return;
+        }
+        if (this._requests.length == 0) {
+            this._requestView = null;
+            view.hide();
+        } else {
+            view.setText(this._requests[this._requests.length - 1].text);
+        }
+    }
+
+    /**
+     * 进行中的网络请求数量
+     */
+    get requestCount() {
+        return this._requests.length;
+    }
+
+    /**
+     * 创建网络请求的加载提示
+     * 设置了constant.default_requestLoadingPrefab时使用该预制体，否则使用默认样式
+     */
+    private createRequestView(): FWUIRequestLoading {
+        let prefab = constant.default_requestLoadingPrefab;
+        if (prefab) {
+            let node = instantiate(prefab);
+            return node.getComponent(FWUIRequestLoading) ?? node.addComponent(FWUIRequestLoading);
+        }
+        return FWUIRequestLoading.createDefault();
     }
 
     /**
@@ -4,13 +4,14 @@ import { func, uiFunc } from '../../common/FWFunction';
 import { FWUIDialog, IUIDialogHideData, FWUILoading, FWUIRoot } from '../../ui';
 import { FWUILoadingManager } from './FWUILoadingManager';
 import { FWUIDialogManager } from './FWUIDialogManager';
+import { FWUIToastManager } from './FWUIToastManager';
 import { IAssetConfig } from '../../declare/FWInterface';
 import { EDITOR } from 'cc/env';
 const { ccclass, property } = _decorator;
 
 /**
  * UI管理器类
- * 负责管理整个UI系统，包括对话框、加载界面和UI根节点
+ * 负责管理整个UI系统，包括对话框、加载界面、提示和UI根节点
  * 继承自FWBaseManager，实现单例模式
  */
 @ccclass('FWUIManager')
@@ -38,19 +39,14 @@ export class FWUIManager extends FWBaseManager {
     /** 加载界面管理器实例 */
     private _loadingManager: FWUILoadingManager = FWUILoadingManager.instance;
 
-    /**
-     * 组件启动时调用
-     * 监听管理器初始化完成事件
-     */
-    start() {
-        app.manager.event.on(app.manager.event.events.MANAGER_INIT_END, this.onMangerInitEnd, this);
-    }
+    /** 提示管理器实例 */
+    private _toastManager: FWUIToastManager = FWUIToastManager.instance;
 
     /**
-     * 管理器初始化完成回调
-     * 在编辑器预览模式或非编辑器环境下创建UI根节点
+     * 异步初始化
+     * 依赖的事件与资源管理器初始化完成后，在编辑器预览模式或非编辑器环境下创建UI根节点
      */
-    onMangerInitEnd() {
+    init() {
         if(EDITOR && globalThis.isPreviewProcess) {
             // 编辑器预览模式下创建UI根节点
             this.changeUIRoot(this.createUIRoot());
@@ -79,9 +75,10 @@ export class FWUIManager extends FWBaseManager {
         uiRoot.bindApp = true;
         this.uiRoot = uiRoot;
         
-        // 更新对话框和加载界面的根节点引用
+        // 更新对话框、加载界面和提示的根节点引用
         this._dialogManager.root = this.uiRoot.staticNode.dialog;
         this._loadingManager.root = this.uiRoot.staticNode.loading;
+        this._toastManager.root = this.uiRoot.staticNode.toast;
         
         // 将UI根节点设置为常驻节点，避免场景切换时被销毁
         director.addPersistRootNode(this.uiRoot.node);
@@ -169,6 +166,46 @@ export class FWUIManager extends FWBaseManager {
     get loading() {
         return this._loadingManager;
     }
+
+    /**
+     * 显示提示
+     * @param text 提示文本
+     * @param duration 显示时长（秒），默认使用提示管理器的duration
+     * @returns 提示实例
+     */
+    showToast(text: string, duration?: number) {
+        return this._toastManager.show(text, duration);
+    }
+
+    /**
+     * 关闭所有提示
+     */
+    closeAllToast() {
+        this._toastManager.closeAll();
+    }
+
+    /**
+     * 获取提示管理器
+     * @returns FWUIToastManager实例
+     */
+    get toast() {
+        return this._toastManager;
+    }
+
+    /**
+     * 销毁时移除并销毁UI根节点
+     */
+    onDestroy(): void {
+        super.onDestroy();
+        let uiRoot = this.uiRoot;
+        this.uiRoot = null;
+        if(uiRoot?.isValid) {
+            // 解除与框架的绑定，避免根节点销毁时再次销毁框架
+            uiRoot.bindApp = false;
+            director.removePersistRootNode(uiRoot.node);
+            uiRoot.node.destroy();
+        }
+    }
 }
 
 /**
@@ -0,0 +1,152 @@
+import { assert, instantiate, Node } from 'cc';
+import { FWBaseManager } from './base/FWBaseManager';
+import { FWUIToast } from '../../ui';
+import { constant } from '../../common/FWConstant';
+
+/**
+ * 提示管理器
+ * 负责轻提示（toast）的创建、排列与定时关闭
+ * 使用单例模式确保全局唯一实例
+ */
+export class FWUIToastManager extends FWBaseManager {
+    /** 静态实例，用于单例模式 */
+    protected static _instance: FWUIToastManager | null = null;
+
+    /**
+     * 获取单例实例
+     * @returns FWUIToastManager 实例
+     */
+    public static get instance(): FWUIToastManager {
+        if (!FWUIToastManager._instance) {
+            FWUIToastManager._instance = new FWUIToastManager();
+        }
+        return FWUIToastManager._instance;
+    }
+
+    /** 默认显示时长（秒） */
+    duration = 2;
+
+    /** 同时显示的最大数量，超出时关闭最早的提示 */
+    maxCount = 3;
+
+    /** 提示之间的间距 */
+    spacing = 10;
+
+    /** 显示中的提示及剩余显示时长，按显示顺序排列 */
+    private _queue:{ toast:FWUIToast, time:number }[] = [];
+
+    /** 队列是否已修改的标记，用于优化更新性能 */
+    private _queueDirty = false;
+
+    /** 根节点，所有提示的父节点 */
+    private _root:Node;
+
+    /**
+     * 设置根节点
+     */
+    set root(node:Node) {
+        this._root = node;
+    }
+
+    /**
+     * 显示提示
+     * 与最近一条提示文本相同时只重置其显示时长，避免同一错误连续弹出多条
+     * @param text 提示文本
+     * @param duration 显示时长（秒），默认使用duration
+     * @returns 提示实例
+     */
+    show(text: string, duration?: number): FWUIToast {
+        let last = this._queue[this._queue.length - 1];
+        if (last && last.toast.isValid && last.toast.text == text) {
+            last.time = duration ?? this.duration;
+            return last.toast;
+        }
+        let toast = this.createToast();
+        toast.show(text, duration);
+        return toast;
+    }
+
+    /**
+     * 添加提示到队列，由FWUIToast.show调用
+     * @param toast 要添加的提示
+     * @param duration 显示时长（秒），默认使用duration
+     */
+    add(toast: FWUIToast, duration?: number) {
+        assert(this._root != null, "toastRoot is null");
+        toast.node.parent = this._root;
+        this._queue.push({ toast, time: duration ?? this.duration });
+        while (this._queue.length > this.maxCount) {
+            this._queue[0].toast.hide();
+        }
+        this._queueDirty = true;
+    }
+
+    /**
+     * 从队列中移除提示
+     * @param toast 要移除的提示
+     */
+    remove(toast: FWUIToast) {
+        let index = this._queue.findIndex(item => item.toast == toast);
+        if (index != -1) {
+            this._queue.splice(index, 1);
+            this._queueDirty = true;
+        }
+    }
+
+    /**
+     * 关闭所有提示
+     */
+    closeAll() {
+        let oldQueue = this._queue;
+        this._queue = [];
+        oldQueue.forEach(item => {
+            item.toast.hide();
+        });
+    }
+
+    /**
+     * 更新方法，每帧调用
+     * 关闭到期的提示，队列有变化时重新排列
+     * @param deltaTime 帧间隔时间
+     */
+    update(deltaTime: number) {
+        this._queue.slice().forEach(item => {
+            item.time -= deltaTime;
+            if (item.time <= 0) {
+                item.toast.hide();
+            }
+        });
+        if (this._queueDirty) {
+            this._queueDirty = false;
+            this.updateQueue();
+        }
+    }
+
+    /**
+     * 排列提示，最新的在根节点中心，较早的依次向上排列
+     */
+    updateQueue() {
+        let y = 0;
+        for (let index = this._queue.length - 1; index >= 0; index--) {
+            const toast = this._queue[index].toast;
+            if (!toast.isValid) {
+                continue;
+            }
+            toast.node.setPosition(0, y);
+            y += toast.height + this.spacing;
+        }
+    }
+
+    /**
+     * 创建提示
+     * 设置了constant.default_toastPrefab时使用该预制体，否则使用默认样式
+     */
+    private createToast(): FWUIToast {
+        let prefab = constant.default_toastPrefab;
+        if (prefab) {
+            let node = instantiate(prefab);
+            return node.getComponent(FWUIToast) ?? node.addComponent(FWUIToast);
+        }
+        return FWUIToast.createDefault();
+    }
+}
@@ -1,5 +1,6 @@
 import { _decorator, Component, EventTarget, Node, assert, Eventify } from 'cc';
 import { managerObject } from '../../../common/FWConstant';
+import { unsubscribeEvents } from '../../../common/FWDecorator';
 const { ccclass, property } = _decorator;
 
 /**
@@ -8,18 +9,47 @@ const { ccclass, property } = _decorator;
 type FWBaseManagerCtor = () => FWBaseManager;
 
 /**
- * 管理器注册表，用于存储所有已注册的管理器构造函数
+ * 管理器注册选项
  */
-export const managerRegister: Map<string, FWBaseManagerCtor> = new Map();
+export interface IManagerRegisterOptions {
+    /** 依赖的管理器key列表，依赖项会先于自身创建，并在自身init之前完成初始化 */
+    dependencies?: string[];
+    /** 创建优先级(数字越大越先创建)，仅在满足依赖顺序的前提下生效，默认 0 */
+    priority?: number;
+    /** 更新顺序(数字越小越先更新)，不传则使用管理器自身的 updatePriority */
+    updateOrder?: number;
+    /** 所属子包名称，子包释放(ON_BUNDLE_RELEASE)时自动移除该管理器 */
+    bundle?: string;
+}
+
+/**
+ * 管理器注册信息
+ */
+export interface IManagerRegisterInfo extends IManagerRegisterOptions {
+    /** 管理器的构造函数 */
+    ctor: FWBaseManagerCtor;
+}
+
+/**
+ * 管理器注册表，用于存储所有已注册的管理器信息
+ */
+export const managerRegister: Map<string, IManagerRegisterInfo> = new Map();
 
 /**
  * 注册管理器
  * @param key 管理器的唯一标识键
  * @param ctor 管理器的构造函数
+ * @param options 注册选项 {@link IManagerRegisterOptions}
  */
-export function registerManager(key: string, ctor: FWBaseManagerCtor) {
+export function registerManager(key: string, ctor: FWBaseManagerCtor, options: IManagerRegisterOptions = {}) {
     assert(!managerRegister.has(key), `${key} is already registered`)
-    managerRegister.set(key, ctor);
+    managerRegister.set(key, {
+        ctor,
+        dependencies: options.dependencies ?? [],
+        priority: options.priority ?? 0,
+        updateOrder: options.updateOrder,
+        bundle: options.bundle,
+    });
 }
 
 /**
@@ -37,6 +67,14 @@ export function unregisterManager(key: string) {
  */
 @ccclass('FWBaseManager')
 export class FWBaseManager {
+    /** 更新优先级(数字越小越先更新)，同优先级按创建顺序更新 */
+    updatePriority: number = 0;
+
+    /** 是否参与固定步长更新(fixedUpdate) */
+    useFixedUpdate: boolean = false;
+
+    /** 是否已暂停更新 */
+    private _paused: boolean = false;
 
     /**
      * 构造函数
@@ -59,6 +97,14 @@ export class FWBaseManager {
     start(): void {
     }
 
+    /**
+     * 异步初始化回调
+     * 在start之后、所有依赖的管理器初始化完成后调用
+     * 所有管理器的init都结束后才会发送MANAGER_INIT_END事件
+     */
+    init(): Promise<void> | void {
+    }
+
     /**
      * 更新回调
      * 每帧调用，用于更新管理器状态
@@ -67,16 +113,72 @@ export class FWBaseManager {
     update(deltaTime: number): void {
     }
 
+    /**
+     * 固定步长更新回调
+     * 仅在 useFixedUpdate 为 true 时调用，每次调用的时间间隔恒定，适合需要确定性步进的逻辑
+     * @param fixedDeltaTime 固定步长（秒）
+     */
+    fixedUpdate(fixedDeltaTime: number): void {
+    }
+
+    /**
+     * 是否已暂停更新
+     */
+    get paused() {
+        return this._paused;
+    }
+
+    /**
+     * 暂停更新
+     * 暂停后不再调用 update 和 fixedUpdate
+     */
+    pause(): void {
+        this._paused = true;
+    }
+
+    /**
+     * 恢复更新
+     */
+    resume(): void {
+        this._paused = false;
+    }
+
+    /**
+     * 应用切到后台回调
+     */
+    onPause(): void {
+    }
+
+    /**
+     * 应用回到前台回调
+     * @param backgroundTime 本次在后台停留的时长（毫秒）
+     */
+    onResume(backgroundTime: number): void {
+    }
+
+    /**
+     * 系统内存不足回调
+     * 用于释放缓存等可再次获取的资源
+     */
+    onLowMemory(): void {
+    }
+
     /**
      * 销毁管理器
-     * 将自身从管理器对象列表中移除，并调用onDestroy回调
+     * 将自身从管理器对象列表中移除，调用onDestroy回调，并清理单例缓存
      */
     dectroy(): void {
         let index = managerObject.indexOf(this);
         if (index != -1) {
             managerObject.splice(index, 1);
         }
+        unsubscribeEvents(this);
         this.onDestroy();
+        // 清理单例缓存，下次访问 instance 时重新创建
+        let ctor = this.constructor as { _instance?: FWBaseManager };
+        if (ctor._instance === this) {
+            ctor._instance = null;
+        }
     }
 
     /**
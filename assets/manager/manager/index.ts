@@ -5,7 +5,9 @@ export * from './FWNativeManager';
 export * from './FWSceneManager';
 export * from './FWUIDialogManager';
 export * from './FWUILoadingManager';
+export * from './FWUIToastManager';
 export * from './FWUIManager';
 export * from './FWDataManager';
 export * from './FWHotupdateManager';
+export * from './FWNetManager';
 export * from './base/FWBaseManager';
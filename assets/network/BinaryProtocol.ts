@@ -0,0 +1,277 @@
+import { log } from "../common";
+import { IProtocolHelper, NetData } from "./NetInterface";
+import { NetCodecRegistry, toUint8Array } from "./NetCodec";
+
+/*
+*   二进制协议辅助对象
+*   1. 包头字段（长度、指令、序列号、标记）的顺序、字节数与字节序可配置
+*   2. 流式拆包，支持一帧多包与一包跨帧
+*   3. 通过编解码器注册表按指令编解码包体
+*   4. 支持NetNode中间件改写包体与标记位
+*/
+
+// 包头字段名
+export type BinaryHeaderFieldName = 'length' | 'cmd' | 'seq' | 'flags';
+
+// 包头字段定义
+export interface BinaryHeaderField {
+    name: BinaryHeaderFieldName,    // 字段名
+    bytes: 1 | 2 | 4,               // 字节数，按无符号整数读写
+}
+
+// 解析后的包头
+export interface BinaryPackageHeader {
+    length: number,                 // 整包长度（含包头）
+    cmd: number,                    // 指令
+    seq: number,                    // 序列号，推送消息为0
+    flags: number,                  // 标记位
+}
+
+// 二进制协议选项
+export interface BinaryProtocolOptions {
+    header?: BinaryHeaderField[],   // 包头字段，按顺序排列，必须包含length，默认 length(4) cmd(2) seq(4) flags(1)
+    littleEndian?: boolean,         // 是否小端字节序，默认大端（网络字节序）
+    lengthIncludesHeader?: boolean, // 长度字段是否包含包头长度，默认true
+    maxPackageSize?: number,        // 最大包长，超过时视为数据错乱并丢弃缓存，默认1MB
+    heartbeatCmd?: number,          // 心跳包指令，默认0
+    ackCmd?: number,                // 确认包指令，确认包的seq即ackId，不传时不支持MustAck
+    codecs?: NetCodecRegistry,      // 包体编解码器，不传时包体按原始字节处理
+}
+
+const DefaultHeader: BinaryHeaderField[] = [
+    { name: 'length', bytes: 4 },
+    { name: 'cmd', bytes: 2 },
+    { name: 'seq', bytes: 4 },
+    { name: 'flags', bytes: 1 },
+];
+
+/**
+ * 二进制协议辅助对象，实现了IProtocolHelper的全部可选接口
+ *
+ * @example
+ * ```typescript
+ * const codecs = new NetCodecRegistry(new JsonCodec());
+ * codecs.register(Cmd.Move, MoveCodec);
+ * const helper = new BinaryProtocolHelper({
+ *     header: [{ name: 'length', bytes: 2 }, { name: 'cmd', bytes: 2 }, { name: 'seq', bytes: 2 }],
+ *     littleEndian: true,
+ *     ackCmd: Cmd.Ack,
+ *     codecs,
+ * });
+ * node.init(new WebSock(), helper);
+ * const rsp = await node.request(Cmd.Login, { token });
+ * ```
+ */
+export class BinaryProtocolHelper implements IProtocolHelper {
+    protected _header: BinaryHeaderField[];
+    protected _offsets: Partial<Record<BinaryHeaderFieldName, number>> = {};
+    protected _headlen: number = 0;
+    protected _littleEndian: boolean;
+    protected _lengthIncludesHeader: boolean;
+    protected _maxPackageSize: number;
+    protected _heartbeatCmd: number;
+    protected _ackCmd: number;
+    protected _codecs: NetCodecRegistry;
+    protected _pending: Uint8Array = null;         // 未拼成完整包的数据
+
+    constructor(options: BinaryProtocolOptions = {}) {
+        this._header = options.header ?? DefaultHeader;
+        this._littleEndian = options.littleEndian ?? false;
+        this._lengthIncludesHeader = options.lengthIncludesHeader ?? true;
+        this._maxPackageSize = options.maxPackageSize ?? 1024 * 1024;
+        this._heartbeatCmd = options.heartbeatCmd ?? 0;
+        this._ackCmd = options.ackCmd ?? null;
+        this._codecs = options.codecs ?? null;
+
+        for (const field of this._header) {
+            if (this._offsets[field.name] !== undefined) {
+                throw new Error(`BinaryProtocolHelper duplicate header field: ${field.name}`);
+            }
+            if (field.bytes != 1 && field.bytes != 2 && field.bytes != 4) {
+                throw new Error(`BinaryProtocolHelper invalid bytes of header field ${field.name}: ${field.bytes}`);
+            }
+            this._offsets[field.name] = this._headlen;
+            this._headlen += field.bytes;
+        }
+        if (this._offsets.length === undefined) {
+            throw new Error("BinaryProtocolHelper header must contain a length field");
+        }
+    }
+
+    get codecs(): NetCodecRegistry {
+        return this._codecs;
+    }
+
+    getHeadlen(): number {
+        return this._headlen;
+    }
+
+    getHearbeat(): NetData {
+        return this.pack(this._heartbeatCmd, 0, new Uint8Array(0));
+    }
+
+    checkPackage(msg: NetData): boolean {
+        let bytes = this.toBytes(msg);
+        if (!bytes || bytes.length < this._headlen) {
+            return false;
+        }
+        return this.readHeader(bytes).length == bytes.length;
+    }
+
+    getPackageId(msg: NetData): number {
+        return this.readHeader(this.toBytes(msg)).cmd;
+    }
+
+    getPackageSeq(msg: NetData): number {
+        if (!this.hasPackageSeq()) {
+            return undefined;
+        }
+        return this.readHeader(this.toBytes(msg)).seq;
+    }
+
+    hasPackageSeq(): boolean {
+        return this._offsets.seq !== undefined;
+    }
+
+    getMaxSeq(): number {
+        let field = this._header.find(field => field.name == 'seq');
+        return field ? Math.min(Math.pow(2, field.bytes * 8) - 1, 0x7fffffff) : 0x7fffffff;
+    }
+
+    getFlags(msg: NetData): number {
+        return this.readHeader(this.toBytes(msg)).flags;
+    }
+
+    getAckId(msg: NetData): number {
+        if (this._ackCmd === null) {
+            return 0;
+        }
+        let header = this.readHeader(this.toBytes(msg));
+        return header.cmd == this._ackCmd ? header.seq : 0;
+    }
+
+    encodePackage(cmd: number, seq: number, data: any): NetData {
+        let body = this._codecs ? this._codecs.encode(cmd, data) : toUint8Array(data ?? new Uint8Array(0));
+        return this.pack(cmd, seq, body);
+    }
+
+    decodePackage(msg: NetData): any {
+        let bytes = this.toBytes(msg);
+        let header = this.readHeader(bytes);
+        let body = bytes.subarray(this._headlen, header.length);
+        return this._codecs ? this._codecs.decode(header.cmd, body) : body;
+    }
+
+    // 组包，返回带包头的完整数据
+    pack(cmd: number, seq: number, body: Uint8Array, flags: number = 0): ArrayBuffer {
+        let length = this._headlen + body.length;
+        if (length > this._maxPackageSize) {
+            throw new RangeError(`BinaryProtocolHelper package too large: ${length} > ${this._maxPackageSize}`);
+        }
+        let buffer = new ArrayBuffer(length);
+        let view = new DataView(buffer);
+        let values: BinaryPackageHeader = {
+            length: this._lengthIncludesHeader ? length : body.length,
+            cmd: cmd,
+            seq: seq,
+            flags: flags,
+        };
+        for (const field of this._header) {
+            this.writeField(view, this._offsets[field.name], field, values[field.name]);
+        }
+        new Uint8Array(buffer).set(body, this._headlen);
+        return buffer;
+    }
+
+    // 读取包头，length统一换算为整包长度
+    readHeader(bytes: Uint8Array): BinaryPackageHeader {
+        let view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        let header: BinaryPackageHeader = { length: 0, cmd: 0, seq: 0, flags: 0 };
+        for (const field of this._header) {
+            header[field.name] = this.readField(view, this._offsets[field.name], field);
+        }
+        if (!this._lengthIncludesHeader) {
+            header.length += this._headlen;
+        }
+        return header;
+    }
+
+    // 返回包体，不复制数据
+    getBody(msg: NetData): Uint8Array {
+        let bytes = this.toBytes(msg);
+        return bytes.subarray(this._headlen, this.readHeader(bytes).length);
+    }
+
+    repack(msg: NetData, body: Uint8Array, flags: number): NetData {
+        if (flags != 0 && this._offsets.flags === undefined) {
+            throw new Error("BinaryProtocolHelper header has no flags field");
+        }
+        let header = this.readHeader(this.toBytes(msg));
+        return this.pack(header.cmd, header.seq, body, flags);
+    }
+
+    unpack(data: NetData): NetData[] {
+        let bytes = this.toBytes(data);
+        if (!bytes) {
+            log.error("BinaryProtocolHelper unpack unsupported data type");
+            return [];
+        }
+        if (this._pending) {
+            let merged = new Uint8Array(this._pending.length + bytes.length);
+            merged.set(this._pending);
+            merged.set(bytes, this._pending.length);
+            bytes = merged;
+            this._pending = null;
+        }
+
+        let packages: NetData[] = [];
+        let offset = 0;
+        while (bytes.length - offset >= this._headlen) {
+            let length = this.readHeader(bytes.subarray(offset)).length;
+            if (length < this._headlen || length > this._maxPackageSize) {
+                // 长度错误说明数据已经错乱，后续数据无法再对齐，全部丢弃
+                log.error(`BinaryProtocolHelper invalid package length ${length}, drop ${bytes.length - offset} bytes`);
+                return packages;
+            }
+            if (bytes.length - offset < length) {
+                break;
+            }
+            packages.push(bytes.slice(offset, offset + length).buffer);
+            offset += length;
+        }
+        if (offset < bytes.length) {
+            this._pending = bytes.slice(offset);
+        }
+        return packages;
+    }
+
+    reset(): void {
+        this._pending = null;
+    }
+
+    protected toBytes(msg: NetData): Uint8Array {
+        if (msg instanceof ArrayBuffer || ArrayBuffer.isView(msg)) {
+            return toUint8Array(msg);
+        }
+        return null;
+    }
+
+    protected readField(view: DataView, offset: number, field: BinaryHeaderField): number {
+        switch (field.bytes) {
+            case 1: return view.getUint8(offset);
+            case 2: return view.getUint16(offset, this._littleEndian);
+            case 4: return view.getUint32(offset, this._littleEndian);
+        }
+    }
+
+    protected writeField(view: DataView, offset: number, field: BinaryHeaderField, value: number) {
+        if (value < 0 || value >= Math.pow(2, field.bytes * 8)) {
+            throw new RangeError(`BinaryProtocolHelper header field ${field.name} out of range: ${value}`);
+        }
+        switch (field.bytes) {
+            case 1: view.setUint8(offset, value); break;
+            case 2: view.setUint16(offset, value, this._littleEndian); break;
+            case 4: view.setUint32(offset, value, this._littleEndian); break;
+        }
+    }
+}
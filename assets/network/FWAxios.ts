@@ -1,5 +1,9 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'ccc-axios';
 import { FWFormData } from 'db://bl-framework/network';
+import { FWAxiosUIAdapter, IFWAxiosUIAdapter } from './FWAxiosUIAdapter';
+import { FWHttpDownloader, HttpDownloadOptions, HttpDownloadResult } from './FWHttpDownloader';
+import { FWHttpCache, HttpCacheEntry, HttpCacheMode, HttpCacheOptions, HttpCacheStatus, resolveCacheOptions } from './FWHttpCache';
+import { createIdempotencyKey, getIdempotencyHeader, getRetryAfterHeader, getRetryDelay, HttpAttempt, HttpFailureKind, HttpRetryPolicy, resolveRetryPolicy, waitRetryDelay } from './HttpRetry';
 
 
 /** HTTP 请求方法枚举 */
@@ -15,18 +19,22 @@ export enum AxiosHttpMethod {
 
 /** 扩展的请求配置接口 */
 export interface RequestConfig extends AxiosRequestConfig {
-    /** 是否显示加载提示 */
+    /** 是否显示加载提示，默认false */
     showLoading?: boolean;
-    /** 加载提示文本 */
+    /** 加载提示文本，不传时使用界面适配器的默认文本 */
     loadingText?: string;
-    /** 是否显示错误提示 */
+    /** 是否显示错误提示，默认true */
     showError?: boolean;
-    /** 错误提示文本 */
+    /** 错误提示文本，传入时替代根据错误生成的信息 */
     errorText?: string;
-    /** 重试次数 */
+    /** 重试策略，传数字时为重试次数，配置后retryCount与retryDelay不再生效 */
+    retry?: HttpRetryPolicy | number;
+    /** 重试次数（未配置retry时生效，按固定延迟重试所有未取消的失败请求） */
     retryCount?: number;
     /** 重试延迟（毫秒） */
     retryDelay?: number;
+    /** 缓存配置，传字符串时为缓存模式，不传不缓存，只对GET请求生效 */
+    cache?: HttpCacheOptions | HttpCacheMode;
     /** 请求拦截器 */
     requestInterceptor?: (config: InternalAxiosRequestConfig) => InternalAxiosRequestConfig | Promise<InternalAxiosRequestConfig>;
     /** 响应拦截器 */
@@ -39,9 +47,15 @@ export interface InternalRequestConfig extends InternalAxiosRequestConfig {
     loadingText?: string;
     showError?: boolean;
     errorText?: string;
+    retry?: HttpRetryPolicy | number;
     retryCount?: number;
     retryDelay?: number;
-    _retryCount?: number;
+    /** 每次尝试的记录 */
+    _attempts?: HttpAttempt[];
+    /** 本次尝试的开始时间 */
+    _attemptStart?: number;
+    /** 本次尝试的加载提示标识 */
+    _loadingId?: number;
 }
 
 /** 响应数据接口 */
@@ -60,16 +74,22 @@ export interface ResponseData<T = any> {
     success: boolean;
     /** 错误信息 */
     message?: string;
+    /** 每次尝试的记录 */
+    attempts?: HttpAttempt[];
+    /** 缓存状态，仅开启缓存时返回 */
+    cacheStatus?: HttpCacheStatus;
 }
 
 /** 请求错误接口 */
 export interface RequestError {
-    /** 错误码 */
+    /** 错误码，如 HTTP_404、NETWORK_ERROR，only-if-cached没有缓存时为 CACHE_MISS（与 FWHttp 一致） */
     code: string;
     /** 错误信息 */
     message: string;
     /** 原始错误 */
     originalError?: any;
+    /** 每次尝试的记录 */
+    attempts?: HttpAttempt[];
 }
 
 /**
@@ -77,6 +97,9 @@ export interface RequestError {
  * 提供统一的请求/响应拦截、错误处理、重试机制等功能
  */
 export class FWAxios {
+    /** 默认界面适配器，所有未单独设置界面适配器的实例共用 */
+    static defaultUIAdapter: IFWAxiosUIAdapter = FWAxiosUIAdapter.instance;
+
     /** axios 实例 */
     private instance: AxiosInstance;
     
@@ -92,6 +115,9 @@ export class FWAxios {
     /** 错误拦截器 */
     private errorInterceptors: Array<(error: AxiosError) => any> = [];
 
+    /** 界面适配器，不设置时使用FWAxios.defaultUIAdapter */
+    private uiAdapter: IFWAxiosUIAdapter | null = null;
+
     /**
      * 构造函数
      * @param baseURL 基础URL
@@ -129,22 +155,24 @@ export class FWAxios {
         this.instance.interceptors.request.use(
             (config) => {
                 const internalConfig = config as InternalRequestConfig;
-                
-                // 显示加载提示
-                if (internalConfig.showLoading) {
-                    this.showLoading(internalConfig.loadingText);
-                }
+                internalConfig._attemptStart = Date.now();
 
-                // 执行自定义请求拦截器
+                // 执行自定义请求拦截器，拦截器通过后再显示加载提示，避免拦截器失败时提示无法隐藏
                 for (const interceptor of this.requestInterceptors) {
                     const result = interceptor(internalConfig);
                     if (result instanceof Promise) {
-                        return result;
+                        return result.then(config => {
+                            this.showLoading(config);
+                            return config;
+                        });
                     } else {
                         Object.assign(internalConfig, result);
                     }
                 }
 
+                // 显示加载提示
+                this.showLoading(internalConfig);
+
                 return internalConfig;
             },
             (error) => {
@@ -158,9 +186,10 @@ export class FWAxios {
                 const internalConfig = response.config as InternalRequestConfig;
                 
                 // 隐藏加载提示
-                if (internalConfig.showLoading) {
-                    this.hideLoading();
-                }
+                this.hideLoading(internalConfig);
+
+                // 记录本次尝试
+                this.recordAttempt(internalConfig, response.status, undefined, 0);
 
                 // 执行自定义响应拦截器
                 for (const interceptor of this.responseInterceptors) {
@@ -177,24 +206,25 @@ export class FWAxios {
             (error: AxiosError) => {
                 const internalConfig = error.config as InternalRequestConfig;
                 
-                // 隐藏加载提示
-                if (internalConfig?.showLoading) {
-                    this.hideLoading();
-                }
+                // 隐藏加载提示，重试时重新显示
+                this.hideLoading(internalConfig);
 
                 // 处理重试逻辑
-                const retryCount = internalConfig?.retryCount || this.baseConfig.retryCount || 0;
-                const retryDelay = internalConfig?.retryDelay || this.baseConfig.retryDelay || 1000;
-                
-                if (retryCount > 0 && internalConfig) {
-                    const currentRetryCount = internalConfig._retryCount || 0;
-                    if (currentRetryCount < retryCount) {
-                        internalConfig._retryCount = currentRetryCount + 1;
-                        
-                        return new Promise(resolve => {
-                            setTimeout(() => {
-                                resolve(this.instance.request(internalConfig));
-                            }, retryDelay);
+                if (internalConfig) {
+                    const policy = this.getRetryPolicy(internalConfig);
+                    const method = (internalConfig.method || AxiosHttpMethod.GET).toUpperCase();
+                    const status = error.response?.status ?? 0;
+                    const attempt = (internalConfig._attempts?.length ?? 0) + 1;
+                    const delay = getRetryDelay(policy, { attempt, method, kind: this.getFailureKind(error), status },
+                        getRetryAfterHeader(error.response?.headers), this.hasIdempotencyKey(policy, internalConfig));
+                    this.recordAttempt(internalConfig, status, this.formatError(error).code, Math.max(delay, 0));
+
+                    if (delay >= 0) {
+                        return waitRetryDelay(delay, internalConfig.signal).then(waited => {
+                            if (!waited) {
+                                return Promise.reject(this.formatError(error));
+                            }
+                            return this.instance.request(internalConfig);
                         });
                     }
                 }
@@ -208,8 +238,8 @@ export class FWAxios {
                 }
 
                 // 显示错误提示
-                if (internalConfig?.showError !== false) {
-                    this.showError(this.getErrorMessage(error));
+                if ((internalConfig?.showError ?? this.baseConfig.showError) !== false) {
+                    this.showError(internalConfig, error);
                 }
 
                 return Promise.reject(this.formatError(error));
@@ -247,11 +277,69 @@ export class FWAxios {
      * @returns Promise<ResponseData>
      */
     public async request<T = any>(config: RequestConfig): Promise<ResponseData<T>> {
+        // 非幂等请求自动带上幂等键，重试时使用同一个键
+        const header = getIdempotencyHeader(this.getRetryPolicy(config), config.method || AxiosHttpMethod.GET);
+        if (header && !config.headers?.[header]) {
+            config = { ...config, headers: { ...config.headers, [header]: createIdempotencyKey() } };
+        }
+
+        // 缓存：未过期时直接返回，过期时带上验证请求头，可以使用过期缓存时由这里决定是否提示错误
+        const method = (config.method || AxiosHttpMethod.GET).toUpperCase();
+        const cacheOptions = method == AxiosHttpMethod.GET ? resolveCacheOptions(config.cache ?? this.baseConfig.cache) : null;
+        const httpCache = FWHttpCache.instance;
+        const showError = config.showError ?? this.baseConfig.showError;
+        let cacheKey: string = null;
+        let cacheEntry: HttpCacheEntry = null;
+        if (cacheOptions) {
+            cacheKey = cacheOptions.key ?? httpCache.getKey(method, this.instance.getUri(config));
+            cacheEntry = httpCache.get(cacheKey);
+            const mode = cacheOptions.mode;
+            if (cacheEntry && (mode == 'force-cache' || mode == 'only-if-cached' || mode == 'default' && httpCache.isFresh(cacheEntry))) {
+                return this.formatCachedResponse<T>(cacheEntry, 'HIT');
+            }
+            if (mode == 'only-if-cached') {
+                throw { code: 'CACHE_MISS', message: '没有缓存' } as RequestError;
+            }
+            if (cacheEntry) {
+                config = {
+                    ...config,
+                    headers: { ...config.headers, ...httpCache.getConditionalHeaders(cacheEntry) },
+                    validateStatus: (status: number) => status >= 200 && status < 300 || status === 304,
+                    showError: cacheOptions.staleIfError ? false : config.showError
+                };
+            }
+        }
+
         try {
             const response = await this.instance.request(config);
-            return this.formatResponse<T>(response);
+            if (cacheEntry && response.status === 304) {
+                const result = this.formatCachedResponse<T>(httpCache.revalidate(cacheEntry, response.headers, cacheOptions), 'REVALIDATED');
+                result.attempts = (response.config as InternalRequestConfig)._attempts;
+                return result;
+            }
+            const result = this.formatResponse<T>(response);
+            if (cacheOptions) {
+                httpCache.put(cacheKey, result, cacheOptions);
+                result.cacheStatus = 'MISS';
+            }
+            return result;
         } catch (error) {
-            throw this.formatError(error as AxiosError);
+            // 响应拦截器已经格式化过的错误直接抛出
+            const requestError = (error as RequestError)?.originalError ? error as RequestError : this.formatError(error as AxiosError);
+            if (cacheEntry && cacheOptions.staleIfError) {
+                const originalError = requestError.originalError as AxiosError;
+                const status = originalError?.response?.status ?? 0;
+                if (httpCache.canServeStale(cacheEntry, cacheOptions, this.getFailureKind(originalError), status)) {
+                    const result = this.formatCachedResponse<T>(cacheEntry, 'STALE');
+                    result.attempts = requestError.attempts;
+                    return result;
+                }
+                // 不能使用过期缓存时补上被跳过的错误提示
+                if (showError !== false) {
+                    this.showError(config, originalError);
+                }
+            }
+            throw requestError;
         }
     }
 
@@ -365,8 +453,9 @@ export class FWAxios {
 
     /**
      * 下载文件
+     * 整个文件会读入内存，大文件请使用 downloadToFile
      * @param url 请求URL
-     * @param config 请求配置
+     * @param config 请求配置，可通过 onDownloadProgress 获取进度
      * @returns Promise<Blob>
      */
     public async download(url: string, config: RequestConfig = {}): Promise<Blob> {
@@ -379,6 +468,28 @@ export class FWAxios {
         return response.data;
     }
 
+    /**
+     * 下载文件并保存到本地，分块下载，中断后再次调用可断点续传
+     * 使用实例的基础URL与默认请求头（如认证token），详见 FWHttpDownloader
+     * @param url 请求URL
+     * @param path 文件路径，与 FWFile.writeFile 一致
+     * @param options 下载选项
+     * @returns Promise<HttpDownloadResult>
+     */
+    public downloadToFile(url: string, path: string, options: HttpDownloadOptions = {}): Promise<HttpDownloadResult> {
+        const headers: Record<string, string> = {};
+        const common = this.instance.defaults.headers.common ?? {};
+        Object.keys(common).forEach(key => {
+            if (typeof common[key] === 'string') {
+                headers[key] = common[key] as string;
+            }
+        });
+        return FWHttpDownloader.download(this.instance.getUri({ url }), path, {
+            ...options,
+            headers: { ...headers, ...options.headers }
+        });
+    }
+
     /**
      * 格式化响应数据
      * @param response axios响应
@@ -391,7 +502,26 @@ export class FWAxios {
             statusText: response.statusText,
             headers: response.headers as Record<string, string>,
             url: response.config.url || '',
-            success: true
+            success: true,
+            attempts: (response.config as InternalRequestConfig)._attempts
+        };
+    }
+
+    /**
+     * 由缓存条目生成响应数据
+     * @param entry 缓存条目
+     * @param cacheStatus 缓存状态
+     * @returns ResponseData
+     */
+    private formatCachedResponse<T>(entry: HttpCacheEntry, cacheStatus: HttpCacheStatus): ResponseData<T> {
+        return {
+            data: entry.data,
+            status: entry.status,
+            statusText: entry.statusText,
+            headers: { ...entry.headers },
+            url: entry.url,
+            success: true,
+            cacheStatus
         };
     }
 
@@ -421,10 +551,87 @@ export class FWAxios {
         return {
             code,
             message,
-            originalError: error
+            originalError: error,
+            attempts: (error.config as InternalRequestConfig)?._attempts
         };
     }
 
+    /**
+     * 获取请求的重试策略
+     * 未配置retry时按retryCount与retryDelay生成固定延迟的策略
+     * @param config 请求配置
+     * @returns 已补全的重试策略，不重试时返回null
+     */
+    private getRetryPolicy(config: RequestConfig | InternalRequestConfig): HttpRetryPolicy | null {
+        const retry = config.retry ?? this.baseConfig.retry;
+        if (retry !== undefined) {
+            return resolveRetryPolicy(retry);
+        }
+        const retryCount = config.retryCount || this.baseConfig.retryCount || 0;
+        const retryDelay = config.retryDelay || this.baseConfig.retryDelay || 1000;
+        return resolveRetryPolicy({
+            retries: retryCount,
+            baseDelay: retryDelay,
+            maxDelay: retryDelay,
+            factor: 1,
+            jitter: 0,
+            respectRetryAfter: false,
+            methods: Object.values(AxiosHttpMethod),
+            idempotencyKey: false,
+            shouldRetry: () => true
+        });
+    }
+
+    /**
+     * 请求是否带有幂等键
+     */
+    private hasIdempotencyKey(policy: HttpRetryPolicy | null, config: InternalRequestConfig): boolean {
+        const header = getIdempotencyHeader(policy, config.method || AxiosHttpMethod.GET);
+        if (!header || !config.headers) {
+            return false;
+        }
+        return !!(typeof config.headers.get == 'function' ? config.headers.get(header) : config.headers[header]);
+    }
+
+    /**
+     * 获取失败类型
+     * @param error axios错误
+     */
+    private getFailureKind(error: AxiosError): HttpFailureKind {
+        if (axios.isCancel(error) || error.code === 'ERR_CANCELED') {
+            return 'ABORT';
+        }
+        if (error.response) {
+            return 'HTTP';
+        }
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return 'TIMEOUT';
+        }
+        return 'NETWORK';
+    }
+
+    /**
+     * 记录一次尝试
+     * @param config 本次尝试的请求配置
+     * @param status HTTP状态码
+     * @param error 失败时的错误码
+     * @param delay 发起下一次尝试前的延迟
+     */
+    private recordAttempt(config: InternalRequestConfig, status: number, error: string | undefined, delay: number): void {
+        const attempts = config._attempts ?? [];
+        const attempt: HttpAttempt = {
+            attempt: attempts.length + 1,
+            status,
+            duration: Date.now() - (config._attemptStart ?? Date.now()),
+            delay
+        };
+        if (error) {
+            attempt.error = error;
+        }
+        attempts.push(attempt);
+        config._attempts = attempts;
+    }
+
     /**
      * 获取错误信息
      * @param error axios错误
@@ -441,29 +648,52 @@ export class FWAxios {
     }
 
     /**
-     * 显示加载提示
-     * @param text 提示文本
+     * 设置界面适配器
+     * @param adapter 界面适配器，传null时恢复使用FWAxios.defaultUIAdapter
+     */
+    public setUIAdapter(adapter: IFWAxiosUIAdapter | null): void {
+        this.uiAdapter = adapter;
+    }
+
+    /**
+     * 获取当前使用的界面适配器
+     * @returns IFWAxiosUIAdapter
+     */
+    public getUIAdapter(): IFWAxiosUIAdapter {
+        return this.uiAdapter ?? FWAxios.defaultUIAdapter;
+    }
+
+    /**
+     * 按请求配置显示加载提示，每次尝试显示一次
+     * @param config 请求配置
      */
-    private showLoading(text?: string): void {
-        // 这里可以集成您的加载提示组件
-        console.log('显示加载提示:', text || '加载中...');
+    private showLoading(config: InternalRequestConfig): void {
+        if (!(config.showLoading ?? this.baseConfig.showLoading) || config._loadingId !== undefined) {
+            return;
+        }
+        config._loadingId = this.getUIAdapter().showLoading(config.loadingText ?? this.baseConfig.loadingText);
     }
 
     /**
-     * 隐藏加载提示
+     * 隐藏本次尝试的加载提示
+     * @param config 请求配置
      */
-    private hideLoading(): void {
-        // 这里可以集成您的加载提示组件
-        console.log('隐藏加载提示');
+    private hideLoading(config: InternalRequestConfig | undefined): void {
+        if (config?._loadingId === undefined) {
+            return;
+        }
+        const id = config._loadingId;
+        config._loadingId = undefined;
+        this.getUIAdapter().hideLoading(id);
     }
 
     /**
      * 显示错误提示
-     * @param message 错误信息
+     * @param config 请求配置，errorText优先于错误信息
+     * @param error axios错误
      */
-    private showError(message: string): void {
-        // 这里可以集成您的错误提示组件
-        console.error('显示错误提示:', message);
+    private showError(config: RequestConfig | InternalRequestConfig | undefined, error: AxiosError): void {
+        this.getUIAdapter().showError(config?.errorText ?? this.baseConfig.errorText ?? this.getErrorMessage(error));
     }
 
     /**
@@ -527,5 +757,6 @@ export const http = {
     delete: <T = any>(url: string, config?: RequestConfig) => defaultAxios.delete<T>(url, config),
     patch: <T = any>(url: string, data?: any, config?: RequestConfig) => defaultAxios.patch<T>(url, data, config),
     upload: <T = any>(url: string, formData: FWFormData | FormData, config?: RequestConfig) => defaultAxios.upload<T>(url, formData, config),
-    download: (url: string, config?: RequestConfig) => defaultAxios.download(url, config)
+    download: (url: string, config?: RequestConfig) => defaultAxios.download(url, config),
+    downloadToFile: (url: string, path: string, options?: HttpDownloadOptions) => defaultAxios.downloadToFile(url, path, options)
 }; 
\ No newline at end of file
@@ -0,0 +1,66 @@
+/*
+*   FWAxios的界面适配器，负责请求的加载提示与错误提示
+*   1. 默认适配器通过app.manager.ui.loading显示全局的请求加载提示，多个请求共用同一个提示，全部结束后隐藏
+*   2. 错误提示通过app.manager.ui.toast显示
+*   3. UI根节点未创建时（编辑器、框架未初始化）输出到控制台
+*   4. 需要自定义界面时实现IFWAxiosUIAdapter，通过FWAxios.defaultUIAdapter或FWAxios.setUIAdapter替换
+*/
+
+// 界面适配器
+export interface IFWAxiosUIAdapter {
+    showLoading(text?: string): number;     // 显示加载提示，返回的标识在请求结束时传给hideLoading
+    hideLoading(id: number): void;          // 隐藏加载提示，同一个标识只会传入一次
+    showError(message: string): void;       // 显示错误提示
+}
+
+/**
+ * 默认界面适配器
+ */
+export class FWAxiosUIAdapter implements IFWAxiosUIAdapter {
+    private static _instance: FWAxiosUIAdapter = null;
+    static get instance(): FWAxiosUIAdapter {
+        if (!FWAxiosUIAdapter._instance) {
+            FWAxiosUIAdapter._instance = new FWAxiosUIAdapter();
+        }
+        return FWAxiosUIAdapter._instance;
+    }
+
+    /** 未传入文本时的加载提示文本 */
+    loadingText = '加载中...';
+
+    /** 错误提示的显示时长（秒），不传时使用提示管理器的默认时长 */
+    errorDuration?: number;
+
+    showLoading(text?: string): number {
+        const ui = this.getUI();
+        if (!ui) {
+            console.log('显示加载提示:', text || this.loadingText);
+            return -1;
+        }
+        return ui.loading.beginRequest(text || this.loadingText);
+    }
+
+    hideLoading(id: number): void {
+        if (id < 0) {
+            return;
+        }
+        this.getUI()?.loading.endRequest(id);
+    }
+
+    showError(message: string): void {
+        const ui = this.getUI();
+        if (!ui) {
+            console.error('显示错误提示:', message);
+            return;
+        }
+        ui.showToast(message, this.errorDuration);
+    }
+
+    /**
+     * 获取UI管理器，UI根节点未创建时返回null
+     */
+    private getUI() {
+        const ui = globalThis.app?.manager?.ui;
+        return ui?.uiRoot ? ui : null;
+    }
+}
@@ -1,3 +1,7 @@
+import { Component, Node } from 'cc';
+import { FWHttpCache, HttpCacheEntry, HttpCacheMode, HttpCacheOptions, HttpCacheStatus, resolveCacheOptions } from './FWHttpCache';
+import { createIdempotencyKey, getIdempotencyHeader, getRetryAfterHeader, getRetryDelay, HttpAttempt, HttpFailureKind, HttpRetryPolicy, resolveRetryPolicy, waitRetryDelay } from './HttpRetry';
+
 /**
  * 自定义FormData类，用于构建multipart/form-data格式的请求体
  * 支持文本参数和文件上传
@@ -119,6 +123,14 @@ export enum HttpMethod {
     OPTIONS = 'OPTIONS'
 }
 
+/** 上传或下载进度 */
+export interface HttpProgress {
+    /** 已传输的字节数 */
+    loaded: number;
+    /** 总字节数，未知时为0 */
+    total: number;
+}
+
 /** HTTP请求配置接口 */
 export interface HttpRequestConfig {
     method?: HttpMethod;
@@ -126,6 +138,10 @@ export interface HttpRequestConfig {
     timeout?: number;
     withCredentials?: boolean;
     responseType?: XMLHttpRequestResponseType;
+    /** 上传进度回调 */
+    onUploadProgress?: (progress: HttpProgress) => void;
+    /** 下载进度回调 */
+    onDownloadProgress?: (progress: HttpProgress) => void;
 }
 
 /** HTTP响应接口 */
@@ -135,6 +151,150 @@ export interface HttpResponse<T = any> {
     statusText: string;
     headers: Record<string, string>;
     url: string;
+    /** 每次尝试的记录，仅FWHttp.request返回 */
+    attempts?: HttpAttempt[];
+    /** 缓存状态，仅开启缓存的FWHttp.request返回 */
+    cacheStatus?: HttpCacheStatus;
+}
+
+/** HTTP请求错误码 */
+export type HttpErrorCode =
+    'TIMEOUT' |                 // 请求超时
+    'ABORT' |                   // 请求被取消
+    'NETWORK' |                 // 网络错误，未收到响应
+    'HTTP' |                    // 收到响应但状态码不是2xx
+    'CACHE_MISS';               // only-if-cached模式下没有缓存，未发请求
+
+/**
+ * HTTP请求错误
+ * 通过code区分超时、取消、网络与HTTP状态错误，HTTP状态错误时带有响应
+ */
+export class HttpError<T = any> extends Error {
+    /** 每次尝试的记录，仅FWHttp.request抛出的错误带有 */
+    attempts: HttpAttempt[] = [];
+
+    constructor(
+        public code: HttpErrorCode,         // 错误码
+        public url: string,                 // 请求URL
+        message: string,
+        public status: number = 0,          // HTTP状态码，未收到响应时为0
+        public response: HttpResponse<T> = null,   // HTTP状态错误时的响应
+        public reason?: any,                // 取消原因，取消时传入的reason
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * 取消信号接口，与浏览器的AbortSignal兼容，也可直接传入AbortController.signal
+ */
+export interface HttpCancelSignal {
+    readonly aborted: boolean;
+    readonly reason?: any;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * 取消信号，由FWCancelController创建
+ */
+export class FWCancelSignal implements HttpCancelSignal {
+    /** 是否已取消 */
+    private _aborted: boolean = false;
+
+    /** 取消原因 */
+    private _reason: any = undefined;
+
+    /** 取消回调 */
+    private _listeners: (() => void)[] = [];
+
+    get aborted(): boolean {
+        return this._aborted;
+    }
+
+    get reason(): any {
+        return this._reason;
+    }
+
+    addEventListener(type: 'abort', listener: () => void): void {
+        if (this._listeners.indexOf(listener) == -1) {
+            this._listeners.push(listener);
+        }
+    }
+
+    removeEventListener(type: 'abort', listener: () => void): void {
+        let index = this._listeners.indexOf(listener);
+        if (index != -1) {
+            this._listeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * 已取消时抛出取消错误
+     */
+    throwIfAborted(): void {
+        if (this._aborted) {
+            throw this._reason;
+        }
+    }
+
+    /**
+     * 触发取消，只能由FWCancelController调用
+     * @param reason 取消原因
+     */
+    abort(reason: any): void {
+        if (this._aborted) {
+            return;
+        }
+        this._aborted = true;
+        this._reason = reason;
+        let listeners = this._listeners;
+        this._listeners = [];
+        listeners.forEach(listener => listener());
+    }
+}
+
+/**
+ * 取消控制器，API与浏览器的AbortController一致，原生平台没有AbortController时使用
+ * 同一个signal可传给多个请求，调用abort时一起取消
+ *
+ * @example
+ * ```typescript
+ * const controller = new FWCancelController();
+ * FWHttp.request<UserInfo>(url, { signal: controller.signal }).catch((err: HttpError) => {
+ *     if (err.code == 'ABORT') return;
+ * });
+ * controller.abort('leave page');
+ * ```
+ */
+export class FWCancelController {
+    /** 取消信号 */
+    readonly signal: FWCancelSignal = new FWCancelSignal();
+
+    /**
+     * 取消
+     * @param reason 取消原因，默认为Error('aborted')
+     */
+    abort(reason: any = new Error('aborted')): void {
+        this.signal.abort(reason);
+    }
+}
+
+/** Promise请求配置接口 */
+export interface HttpRequestOptions extends HttpRequestConfig {
+    /** URL参数 */
+    params?: AnyObjectType;
+    /** 请求体，普通对象会转为JSON */
+    body?: Document | XMLHttpRequestBodyInit | FWFormData | Record<string, any> | null;
+    /** 取消信号 */
+    signal?: HttpCancelSignal;
+    /** 所属对象，可通过FWHttp.cancelOwner一起取消；为节点或组件（如弹窗、场景）时，节点销毁后自动取消 */
+    owner?: object;
+    /** 重试策略，传数字时为重试次数，不传不重试 */
+    retry?: HttpRetryPolicy | number;
+    /** 缓存配置，传字符串时为缓存模式，不传不缓存，只对GET请求生效 */
+    cache?: HttpCacheOptions | HttpCacheMode;
 }
 
 /**
@@ -161,6 +321,15 @@ export class FWHttp {
     /** 请求完成回调 */
     private onComplete: (error: Error | null, response?: HttpResponse) => void;
 
+    /** 取消原因 */
+    private abortReason: any = undefined;
+
+    /** 所属对象的未完成请求 */
+    private static ownerRequests: WeakMap<object, Set<FWCancelController>> = new WeakMap();
+
+    /** 已监听节点销毁的所属对象 */
+    private static boundOwners: WeakSet<object> = new WeakSet();
+
     /**
      * 构造函数
      * @param url 请求URL
@@ -192,6 +361,19 @@ export class FWHttp {
         this.xhr.withCredentials = this.config.withCredentials!;
         this.xhr.responseType = this.config.responseType!;
         this.xhr.timeout = this.config.timeout!;
+
+        // 进度回调，部分原生平台没有xhr.upload
+        const { onUploadProgress, onDownloadProgress } = this.config;
+        if (onDownloadProgress) {
+            this.xhr.onprogress = (event: ProgressEvent) => {
+                onDownloadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+            };
+        }
+        if (onUploadProgress && this.xhr.upload) {
+            this.xhr.upload.onprogress = (event: ProgressEvent) => {
+                onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+            };
+        }
     }
 
     /**
@@ -238,10 +420,7 @@ export class FWHttp {
         if (!this.params) {
             return this.url;
         }
-        
-        const queryString = FWHttp.splicingParams(this.params);
-        const separator = this.url.includes('?') ? '&' : '?';
-        return `${this.url}${separator}${queryString}`;
+        return FWHttp.appendParams(this.url, this.params);
     }
 
     /**
@@ -269,17 +448,17 @@ export class FWHttp {
      * 请求成功回调
      */
     private onload(): void {
+        const response: HttpResponse = {
+            data: this.parseResponseData(),
+            status: this.xhr.status,
+            statusText: this.xhr.statusText,
+            headers: this.parseResponseHeaders(),
+            url: this.xhr.responseURL || this.url
+        };
         if (this.xhr.status >= 200 && this.xhr.status < 300 || this.xhr.status === 0) {
-            const response: HttpResponse = {
-                data: this.xhr.response,
-                status: this.xhr.status,
-                statusText: this.xhr.statusText,
-                headers: this.parseResponseHeaders(),
-                url: this.xhr.responseURL || this.url
-            };
             this.onComplete?.(null, response);
         } else {
-            this.onFail(`HTTP ${this.xhr.status}: ${this.xhr.statusText}`);
+            this.onFail('HTTP', `HTTP ${this.xhr.status}: ${this.xhr.statusText}`, response);
         }
     }
 
@@ -287,30 +466,47 @@ export class FWHttp {
      * 网络错误回调
      */
     private onerror(): void {
-        this.onFail('网络错误');
+        this.onFail('NETWORK', '网络错误');
     }
 
     /**
      * 超时回调
      */
     private ontimeout(): void {
-        this.onFail('请求超时');
+        this.onFail('TIMEOUT', '请求超时');
     }
 
     /**
      * 请求中断回调
      */
     private onabort(): void {
-        this.onFail('请求被中断');
+        this.onFail('ABORT', '请求被中断');
     }
 
     /**
      * 请求失败处理
+     * @param code 错误码
      * @param msg 错误信息
+     * @param response HTTP状态错误时的响应
      */
-    private onFail(msg: string): void {
-        const error = new Error(`${this.errInfo}${msg}`);
-        this.onComplete?.(error);
+    private onFail(code: HttpErrorCode, msg: string, response: HttpResponse = null): void {
+        const error = new HttpError(code, this.url, `${this.errInfo}${msg}`, response?.status ?? 0, response, this.abortReason);
+        this.onComplete?.(error, response);
+    }
+
+    /**
+     * 解析响应数据，部分原生平台不支持json响应类型，返回的是字符串
+     */
+    private parseResponseData(): any {
+        const data = this.xhr.response;
+        if (this.config.responseType === 'json' && typeof data === 'string') {
+            try {
+                return data ? JSON.parse(data) : null;
+            } catch (e) {
+                return data;
+            }
+        }
+        return data;
     }
 
     /**
@@ -408,8 +604,10 @@ export class FWHttp {
 
     /**
      * 中断请求
+     * @param reason 取消原因，会记录在HttpError.reason中
      */
-    public abort(): void {
+    public abort(reason?: any): void {
+        this.abortReason = reason;
         this.xhr.abort();
     }
 
@@ -428,13 +626,247 @@ export class FWHttp {
             .join('&');
     }
 
+    /**
+     * 在URL后拼接参数
+     * @param url 请求URL
+     * @param params 参数字典
+     * @returns 完整URL
+     */
+    static appendParams(url: string, params: AnyObjectType): string {
+        const separator = url.includes('?') ? '&' : '?';
+        return `${url}${separator}${FWHttp.splicingParams(params)}`;
+    }
+
+    /**
+     * 发送请求并返回Promise
+     * 失败时以HttpError reject，可通过code区分超时、取消、网络与HTTP状态错误
+     * 配置了重试策略时按策略重试，每次尝试记录在响应或错误的attempts中
+     * 配置了缓存时按缓存模式使用缓存，并在响应的cacheStatus中标明来源
+     *
+     * @param url 请求URL
+     * @param options 请求配置 {@link HttpRequestOptions}
+     * @returns 响应，responseType为json（默认）时data为解析后的对象
+     *
+     * @example
+     * ```typescript
+     * const rsp = await FWHttp.request<UserInfo>(url, { params: { id: 1 }, owner: this });
+     * const user = rsp.data;
+     *
+     * await FWHttp.request(url, { method: HttpMethod.POST, body: { name: 'a' }, timeout: 5000, retry: { retries: 2 } });
+     * ```
+     */
+    static request<T = any>(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
+        const { params, body, signal, owner, retry, cache, ...config } = options;
+        if (signal?.aborted) {
+            return Promise.reject(new HttpError('ABORT', url, `请求失败: ${url}, 状态: 请求被中断`, 0, null, signal.reason));
+        }
+
+        const method = config.method ?? HttpMethod.GET;
+        const cacheOptions = method == HttpMethod.GET ? resolveCacheOptions(cache) : null;
+        let cacheKey: string = null;
+        let cacheEntry: HttpCacheEntry = null;
+        if (cacheOptions) {
+            const httpCache = FWHttpCache.instance;
+            cacheKey = cacheOptions.key ?? httpCache.getKey(method, params ? FWHttp.appendParams(url, params) : url);
+            cacheEntry = httpCache.get(cacheKey);
+            const mode = cacheOptions.mode;
+            if (cacheEntry && (mode == 'force-cache' || mode == 'only-if-cached' || mode == 'default' && httpCache.isFresh(cacheEntry))) {
+                return Promise.resolve(FWHttp.fromCache<T>(cacheEntry, 'HIT'));
+            }
+            if (cacheOptions.mode == 'only-if-cached') {
+                return Promise.reject(new HttpError('CACHE_MISS', url, `请求失败: ${url}, 状态: 没有缓存`));
+            }
+            if (cacheEntry) {
+                config.headers = { ...config.headers, ...httpCache.getConditionalHeaders(cacheEntry) };
+            }
+        }
+
+        // 外部信号与所属对象都通过同一个控制器取消，重试等待期间也能取消
+        const controller = new FWCancelController();
+        const onAbort = () => controller.abort(signal.reason);
+        signal?.addEventListener('abort', onAbort);
+        if (owner) {
+            FWHttp.addOwnerRequest(owner, controller);
+        }
+        const cleanup = () => {
+            signal?.removeEventListener('abort', onAbort);
+            if (owner) {
+                FWHttp.ownerRequests.get(owner)?.delete(controller);
+            }
+        };
+
+        const policy = resolveRetryPolicy(retry);
+        const idempotencyHeader = getIdempotencyHeader(policy, method);
+        if (idempotencyHeader && !config.headers?.[idempotencyHeader]) {
+            config.headers = { ...config.headers, [idempotencyHeader]: createIdempotencyKey() };
+        }
+
+        const attempts: HttpAttempt[] = [];
+        const run = async (): Promise<HttpResponse<T>> => {
+            for (let attempt = 1; ; attempt++) {
+                const startTime = Date.now();
+                try {
+                    const response = await FWHttp.sendOnce<T>(url, config, params, body, controller.signal);
+                    attempts.push({ attempt, status: response.status, duration: Date.now() - startTime, delay: 0 });
+                    response.attempts = attempts;
+                    return response;
+                } catch (error) {
+                    const delay = getRetryDelay(policy, { attempt, method, kind: error.code, status: error.status },
+                        getRetryAfterHeader(error.response?.headers), idempotencyHeader !== null);
+                    attempts.push({ attempt, status: error.status, error: error.code, duration: Date.now() - startTime, delay: Math.max(delay, 0) });
+                    if (delay < 0) {
+                        error.attempts = attempts;
+                        throw error;
+                    }
+                    if (!await waitRetryDelay(delay, controller.signal)) {
+                        const abortError = new HttpError('ABORT', url, `请求失败: ${url}, 状态: 请求被中断`, 0, null, controller.signal.reason);
+                        abortError.attempts = attempts;
+                        throw abortError;
+                    }
+                }
+            }
+        };
+        let promise = run();
+        if (cacheOptions) {
+            promise = promise.then(response => {
+                FWHttpCache.instance.put(cacheKey, response, cacheOptions);
+                response.cacheStatus = 'MISS';
+                return response;
+            }, (error: HttpError) => {
+                const httpCache = FWHttpCache.instance;
+                if (cacheEntry && error.status == 304) {
+                    const response = FWHttp.fromCache<T>(httpCache.revalidate(cacheEntry, error.response?.headers, cacheOptions), 'REVALIDATED');
+                    response.attempts = error.attempts;
+                    return response;
+                }
+                // 发出的请求失败时不会是CACHE_MISS
+                if (cacheEntry && httpCache.canServeStale(cacheEntry, cacheOptions, error.code as HttpFailureKind, error.status)) {
+                    const response = FWHttp.fromCache<T>(cacheEntry, 'STALE');
+                    response.attempts = error.attempts;
+                    return response;
+                }
+                throw error;
+            });
+        }
+        return promise.then(response => {
+            cleanup();
+            return response;
+        }, error => {
+            cleanup();
+            throw error;
+        });
+    }
+
+    /**
+     * 由缓存条目生成响应
+     */
+    private static fromCache<T>(entry: HttpCacheEntry, cacheStatus: HttpCacheStatus): HttpResponse<T> {
+        return {
+            data: entry.data,
+            status: entry.status,
+            statusText: entry.statusText,
+            headers: { ...entry.headers },
+            url: entry.url,
+            cacheStatus
+        };
+    }
+
+    /**
+     * 发送一次请求，失败时以HttpError reject
+     */
+    private static sendOnce<T>(url: string, config: HttpRequestConfig, params: AnyObjectType | undefined, body: HttpRequestOptions['body'] | undefined, signal: FWCancelSignal): Promise<HttpResponse<T>> {
+        return new Promise((resolve, reject) => {
+            const http = new FWHttp(url, config);
+            if (params) {
+                http.setParams(params);
+            }
+            if (body !== undefined) {
+                http.setBody(body);
+            }
+            const onAbort = () => http.abort(signal.reason);
+            signal.addEventListener('abort', onAbort);
+            http.setCallback((error, response) => {
+                signal.removeEventListener('abort', onAbort);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(response as HttpResponse<T>);
+                }
+            });
+            try {
+                http.send();
+            } catch (e) {
+                // open或send同步抛出（如URL非法）时按网络错误处理
+                signal.removeEventListener('abort', onAbort);
+                reject(new HttpError('NETWORK', url, `请求失败: ${url}, 状态: ${e?.message ?? e}`));
+            }
+        });
+    }
+
+    /**
+     * 取消所属对象的所有未完成请求
+     * @param owner 所属对象
+     * @param reason 取消原因
+     * @returns 取消的请求数量
+     */
+    static cancelOwner(owner: object, reason?: any): number {
+        const requests = FWHttp.ownerRequests.get(owner);
+        if (!requests) {
+            return 0;
+        }
+        FWHttp.ownerRequests.delete(owner);
+        requests.forEach(controller => controller.abort(reason));
+        return requests.size;
+    }
+
+    /**
+     * 获取所属对象的未完成请求数量
+     * @param owner 所属对象
+     */
+    static getOwnerRequestCount(owner: object): number {
+        return FWHttp.ownerRequests.get(owner)?.size ?? 0;
+    }
+
+    /**
+     * 记录所属对象的请求，所属对象为节点或组件时在节点销毁后取消
+     */
+    private static addOwnerRequest(owner: object, controller: FWCancelController) {
+        let requests = FWHttp.ownerRequests.get(owner);
+        if (!requests) {
+            requests = new Set();
+            FWHttp.ownerRequests.set(owner, requests);
+        }
+        requests.add(controller);
+
+        let node: Node | null = null;
+        if (owner instanceof Node) {
+            node = owner;
+        } else if (owner instanceof Component) {
+            node = owner.node;
+        }
+        if (!node || !node.isValid || FWHttp.boundOwners.has(owner)) {
+            return;
+        }
+        FWHttp.boundOwners.add(owner);
+        node.once(Node.EventType.NODE_DESTROYED, () => {
+            FWHttp.boundOwners.delete(owner);
+            FWHttp.cancelOwner(owner, new Error('owner destroyed'));
+        });
+    }
+
     /**
      * 创建GET请求的便捷方法
      * @param url 请求URL
-     * @param params URL参数
+     * @param params URL参数，可省略
      * @param callback 回调函数
      */
-    static get(url: string, params?: AnyObjectType, callback?: (error: Error | null, response?: HttpResponse) => void): FWHttp {
+    static get(url: string, callback?: (error: Error | null, response?: HttpResponse) => void): FWHttp;
+    static get(url: string, params?: AnyObjectType, callback?: (error: Error | null, response?: HttpResponse) => void): FWHttp;
+    static get(url: string, params?: AnyObjectType | ((error: Error | null, response?: HttpResponse) => void), callback?: (error: Error | null, response?: HttpResponse) => void): FWHttp {
+        if (typeof params === 'function') {
+            callback = params as (error: Error | null, response?: HttpResponse) => void;
+            params = undefined;
+        }
         const http = new FWHttp(url);
         if (params) {
             http.setParams(params);
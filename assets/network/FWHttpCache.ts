@@ -0,0 +1,408 @@
+import { data_key } from '../common/FWConstant';
+import { FWDataBase } from '../manager/data/FWDataBase';
+import { HttpFailureKind } from './HttpRetry';
+
+/*
+*   HTTP响应缓存，FWHttp与FWAxios共用，只缓存GET请求的200响应
+*   1. 按Cache-Control的max-age/no-cache/no-store与Expires计算过期时间，都没有时使用请求配置的ttl
+*   2. 缓存过期后带上If-None-Match/If-Modified-Since重新验证，服务器返回304时继续使用缓存
+*   3. 网络错误、超时或5xx时按请求配置的staleIfError使用过期缓存
+*   4. 缓存通过FWDataBase持久化到本地存储，二进制响应不缓存
+*/
+
+// 缓存模式，与fetch的RequestCache含义一致
+export type HttpCacheMode =
+    'default' |                 // 未过期时直接使用缓存，过期后重新验证
+    'no-cache' |                // 每次都重新验证
+    'force-cache' |             // 有缓存就使用，不管是否过期
+    'only-if-cached' |          // 只使用缓存，没有缓存时失败，不发请求
+    'no-store';                 // 不读也不写缓存
+
+// 响应的缓存状态
+export type HttpCacheStatus =
+    'HIT' |                     // 直接使用缓存，未发请求
+    'REVALIDATED' |             // 服务器返回304，使用缓存
+    'STALE' |                   // 请求失败，使用过期缓存
+    'MISS';                     // 没有可用缓存，使用网络响应
+
+// 请求的缓存配置
+export interface HttpCacheOptions {
+    mode?: HttpCacheMode,               // 缓存模式，默认default
+    ttl?: number,                       // 响应没有Cache-Control与Expires时的缓存时间（毫秒），默认0，即每次都重新验证
+    staleIfError?: boolean | number,    // 网络错误、超时或5xx时是否使用过期缓存，传数字时为过期后最多还能使用多久（毫秒），默认true
+    key?: string,                       // 自定义缓存键，默认为请求方法与完整URL
+}
+
+// 缓存条目
+export interface HttpCacheEntry {
+    key: string,                        // 缓存键
+    url: string,                        // 请求URL
+    status: number,                     // HTTP状态码
+    statusText: string,                 // 状态文本
+    headers: Record<string, string>,    // 响应头
+    data: any,                          // 响应数据
+    etag?: string,                      // 响应头ETag
+    lastModified?: string,              // 响应头Last-Modified
+    storedAt: number,                   // 写入或最近一次验证的时间戳（毫秒）
+    expiresAt: number,                  // 过期时间戳（毫秒）
+    size: number,                       // 序列化后的长度
+}
+
+// 可写入缓存的响应
+export interface HttpCacheableResponse {
+    status: number,
+    statusText: string,
+    headers: Record<string, any>,
+    data: any,
+    url: string,
+}
+
+/**
+ * 补全缓存配置的默认值
+ * @param options 缓存配置，传字符串时为缓存模式
+ * @returns 缓存配置，不传或模式为no-store时返回null
+ */
+export function resolveCacheOptions(options?: HttpCacheOptions | HttpCacheMode | null): HttpCacheOptions | null {
+    if (options === undefined || options === null) {
+        return null;
+    }
+    if (typeof options == 'string') {
+        options = { mode: options };
+    }
+    let resolved: HttpCacheOptions = {
+        mode: 'default',
+        ttl: 0,
+        staleIfError: true,
+        ...options,
+    };
+    return resolved.mode == 'no-store' ? null : resolved;
+}
+
+/**
+ * 读取响应头，名称不区分大小写
+ */
+function getHeader(headers: Record<string, any> | null | undefined, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    name = name.toLowerCase();
+    for (let key in headers) {
+        if (key.toLowerCase() == name && headers[key] !== undefined && headers[key] !== null) {
+            return String(headers[key]);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 解析Cache-Control
+ * @returns 指令表，键为小写指令名，没有值的指令值为true
+ */
+function parseCacheControl(value: string | undefined): Record<string, string | true> {
+    let directives: Record<string, string | true> = {};
+    if (!value) {
+        return directives;
+    }
+    value.split(',').forEach(part => {
+        let [name, arg] = part.split('=');
+        name = name.trim().toLowerCase();
+        if (name) {
+            directives[name] = arg === undefined ? true : arg.trim().replace(/^"|"$/g, '');
+        }
+    });
+    return directives;
+}
+
+/**
+ * 响应数据是否可以序列化保存
+ */
+function isSerializable(data: any): boolean {
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        return false;
+    }
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+        return false;
+    }
+    if (typeof Document !== 'undefined' && data instanceof Document) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * HTTP响应缓存
+ * 通过app.manager.net.httpCache查看与清理
+ *
+ * @example
+ * ```typescript
+ * // 请求时开启缓存
+ * const rsp = await FWHttp.request<Notice[]>(url, { cache: { ttl: 60 * 1000, staleIfError: true } });
+ * rsp.cacheStatus;    // HIT | REVALIDATED | STALE | MISS
+ *
+ * // 查看与清理
+ * app.manager.net.httpCache.getEntries();
+ * app.manager.net.httpCache.purge(/\/notice/);
+ * app.manager.net.httpCache.clear();
+ * ```
+ */
+export class FWHttpCache {
+    /** 静态实例，用于单例模式 */
+    protected static _instance: FWHttpCache | null = null;
+
+    /**
+     * 获取缓存单例实例
+     */
+    public static get instance(): FWHttpCache {
+        if (!FWHttpCache._instance) {
+            FWHttpCache._instance = new FWHttpCache();
+        }
+        return FWHttpCache._instance;
+    }
+
+    /**
+     * @param _storage 持久化存储
+     * @param maxEntries 最多缓存多少条，超出时移除最早写入的条目
+     */
+    constructor(protected _storage: FWDataBase = new FWDataBase(data_key.httpCache), public maxEntries: number = 200) {
+    }
+
+    /**
+     * 生成缓存键
+     * @param method 请求方法
+     * @param url 完整URL（包含参数）
+     */
+    getKey(method: string, url: string): string {
+        return `${method.toUpperCase()} ${url}`;
+    }
+
+    /**
+     * 获取缓存条目
+     * @param key 缓存键
+     * @returns 缓存条目，不存在时返回null
+     */
+    get(key: string): HttpCacheEntry | null {
+        let entry = this._storage.getObject<HttpCacheEntry>(key);
+        return entry && typeof entry.expiresAt == 'number' ? entry : null;
+    }
+
+    /**
+     * 是否存在缓存条目
+     * @param key 缓存键
+     */
+    has(key: string): boolean {
+        return this._storage.hasKey(key);
+    }
+
+    /**
+     * 写入响应
+     * 只缓存200响应，Cache-Control为no-store或数据为二进制时不缓存
+     * @param key 缓存键
+     * @param response 响应
+     * @param options 缓存配置
+     * @returns 写入的缓存条目，未缓存时返回null
+     */
+    put(key: string, response: HttpCacheableResponse, options: HttpCacheOptions = {}): HttpCacheEntry | null {
+        let cacheControl = parseCacheControl(getHeader(response.headers, 'Cache-Control'));
+        if (response.status != 200 || cacheControl['no-store'] || !isSerializable(response.data)) {
+            return null;
+        }
+        let now = Date.now();
+        let headers: Record<string, string> = {};
+        for (let name in response.headers) {
+            let value = response.headers[name];
+            if (typeof value == 'string' || typeof value == 'number') {
+                headers[name] = String(value);
+            }
+        }
+        let entry: HttpCacheEntry = {
+            key,
+            url: response.url,
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+            data: response.data,
+            etag: getHeader(headers, 'ETag'),
+            lastModified: getHeader(headers, 'Last-Modified'),
+            storedAt: now,
+            expiresAt: now + this.getFreshness(headers, options),
+            size: 0,
+        };
+        entry.size = JSON.stringify(entry.data)?.length ?? 0;
+        this._storage.setObject(key, entry);
+        this.evict();
+        return entry;
+    }
+
+    /**
+     * 服务器返回304后更新缓存条目的过期时间与验证信息
+     * @param entry 缓存条目
+     * @param headers 304响应的响应头
+     * @param options 缓存配置
+     * @returns 更新后的缓存条目
+     */
+    revalidate(entry: HttpCacheEntry, headers: Record<string, any> | null | undefined, options: HttpCacheOptions = {}): HttpCacheEntry {
+        // 304响应只携带变化的响应头，未携带的沿用缓存中的值
+        let merged = { ...entry.headers };
+        for (let name in headers) {
+            let value = headers[name];
+            if (typeof value == 'string' || typeof value == 'number') {
+                merged[name] = String(value);
+            }
+        }
+        let now = Date.now();
+        entry.headers = merged;
+        entry.etag = getHeader(merged, 'ETag') ?? entry.etag;
+        entry.lastModified = getHeader(merged, 'Last-Modified') ?? entry.lastModified;
+        entry.storedAt = now;
+        entry.expiresAt = now + this.getFreshness(merged, options);
+        this._storage.setObject(entry.key, entry);
+        return entry;
+    }
+
+    /**
+     * 移除缓存条目
+     * @param key 缓存键
+     */
+    remove(key: string) {
+        this._storage.removeItem(key);
+    }
+
+    /**
+     * 移除匹配的缓存条目
+     * @param filter URL前缀、正则或判断函数，不传时移除已过期的条目
+     * @returns 移除的数量
+     */
+    purge(filter?: string | RegExp | ((entry: HttpCacheEntry) => boolean)): number {
+        let now = Date.now();
+        let match: (entry: HttpCacheEntry) => boolean;
+        if (filter === undefined) {
+            match = entry => !this.isFresh(entry, now);
+        } else if (typeof filter == 'string') {
+            match = entry => entry.url.startsWith(filter);
+        } else if (filter instanceof RegExp) {
+            match = entry => filter.test(entry.url);
+        } else {
+            match = filter;
+        }
+        let count = 0;
+        this._storage.getKeys().forEach(key => {
+            let entry = this.get(key);
+            if (!entry || match(entry)) {
+                this._storage.removeItem(key);
+                count++;
+            }
+        });
+        return count;
+    }
+
+    /**
+     * 清空缓存
+     */
+    clear() {
+        this._storage.clear();
+    }
+
+    /**
+     * 获取所有缓存条目，按写入时间从新到旧排列
+     */
+    getEntries(): HttpCacheEntry[] {
+        let entries: HttpCacheEntry[] = [];
+        this._storage.getKeys().forEach(key => {
+            let entry = this.get(key);
+            if (entry) {
+                entries.push(entry);
+            }
+        });
+        return entries.sort((a, b) => b.storedAt - a.storedAt);
+    }
+
+    /**
+     * 获取缓存统计
+     * @returns 条目数、已过期条目数与数据总长度
+     */
+    getStats(): { count: number, expired: number, size: number } {
+        let now = Date.now();
+        let stats = { count: 0, expired: 0, size: 0 };
+        this.getEntries().forEach(entry => {
+            stats.count++;
+            stats.size += entry.size;
+            if (!this.isFresh(entry, now)) {
+                stats.expired++;
+            }
+        });
+        return stats;
+    }
+
+    /**
+     * 缓存条目是否未过期
+     */
+    isFresh(entry: HttpCacheEntry, now: number = Date.now()): boolean {
+        return now < entry.expiresAt;
+    }
+
+    /**
+     * 请求失败时能否使用过期缓存
+     * @param entry 缓存条目
+     * @param options 缓存配置
+     * @param kind 失败类型
+     * @param status HTTP状态码
+     */
+    canServeStale(entry: HttpCacheEntry, options: HttpCacheOptions, kind: HttpFailureKind, status: number): boolean {
+        if (!options.staleIfError || kind == 'ABORT' || (kind == 'HTTP' && status < 500)) {
+            return false;
+        }
+        if (typeof options.staleIfError == 'number') {
+            return Date.now() - entry.expiresAt <= options.staleIfError;
+        }
+        return true;
+    }
+
+    /**
+     * 获取重新验证时需要带上的请求头
+     */
+    getConditionalHeaders(entry: HttpCacheEntry): Record<string, string> {
+        let headers: Record<string, string> = {};
+        if (entry.etag) {
+            headers['If-None-Match'] = entry.etag;
+        }
+        if (entry.lastModified) {
+            headers['If-Modified-Since'] = entry.lastModified;
+        }
+        return headers;
+    }
+
+    /**
+     * 根据响应头计算缓存时间（毫秒）
+     */
+    protected getFreshness(headers: Record<string, string>, options: HttpCacheOptions): number {
+        let cacheControl = parseCacheControl(getHeader(headers, 'Cache-Control'));
+        if (cacheControl['no-cache']) {
+            return 0;
+        }
+        let maxAge = cacheControl['max-age'];
+        if (typeof maxAge == 'string' && /^\d+$/.test(maxAge)) {
+            let age = parseInt(getHeader(headers, 'Age') ?? '0', 10) || 0;
+            return Math.max(0, parseInt(maxAge, 10) - age) * 1000;
+        }
+        let expires = getHeader(headers, 'Expires');
+        if (expires !== undefined) {
+            let time = Date.parse(expires);
+            return isNaN(time) ? 0 : Math.max(0, time - Date.now());
+        }
+        return options.ttl ?? 0;
+    }
+
+    /**
+     * 超出最大条目数时移除最早写入的条目
+     */
+    protected evict() {
+        let keys = this._storage.getKeys();
+        if (keys.length <= this.maxEntries) {
+            return;
+        }
+        let entries = this.getEntries();
+        for (let i = entries.length - 1; i >= this.maxEntries; i--) {
+            this._storage.removeItem(entries[i].key);
+        }
+    }
+}
@@ -0,0 +1,342 @@
+import { sys } from 'cc';
+import { data_key } from '../common/FWConstant';
+import { FWFile } from '../common/FWFile';
+import { FWDataBase } from '../manager/data/FWDataBase';
+import { FWHttp, HttpCancelSignal, HttpError, HttpMethod, HttpProgress, HttpResponse } from './FWHttp';
+import { HttpRetryPolicy } from './HttpRetry';
+
+/*
+*   下载文件到本地，用于不走热更新的大文件（用户生成内容、可选DLC等）
+*   1. 按chunkSize分块通过Range请求下载，每块写入一个分块文件，全部完成后合并为目标文件
+*   2. 下载状态通过FWDataBase保存，中断后再次下载同一路径时从已完成的分块继续
+*   3. 续传时带上If-Range，文件已变化或服务器不支持Range时返回完整文件，丢弃已下载的分块
+*   4. 文件通过FWFile.writeFile写入，原生平台位于可写目录，Web平台位于本地存储
+*   5. FWFile只能整体写入文件，合并时整个文件需要在内存中完整存在一次；内存放不下时传merge: false保留分块文件自行逐块读取
+*   6. Web平台的本地存储以base64保存且容量很小，超过WEB_MAX_SIZE的文件直接失败
+*/
+
+// 断点续传的下载状态
+export interface HttpDownloadState {
+    url: string,                // 下载地址
+    path: string,               // 文件路径
+    total: number,              // 文件总字节数，未知时为0
+    loaded: number,             // 已下载的字节数
+    parts: number,              // 已写入的分块文件数
+    validator?: string,         // ETag或Last-Modified，续传时通过If-Range确认文件未变化
+}
+
+// 下载选项
+export interface HttpDownloadOptions {
+    headers?: Record<string, string>,   // 请求头
+    timeout?: number,                   // 每个分块的超时（毫秒），默认30000
+    chunkSize?: number,                 // 分块大小（字节），默认1MB，0表示不分块
+    retry?: HttpRetryPolicy | number,   // 每个分块的重试策略，默认重试3次
+    resume?: boolean,                   // 是否从上次中断处继续，默认true
+    signal?: HttpCancelSignal,          // 取消信号，取消后保留已下载的分块
+    merge?: boolean,                    // 是否把分块合并为目标文件，默认true；为false时保留分块文件，路径见HttpDownloadResult.parts
+    owner?: object,                     // 所属对象，见HttpRequestOptions.owner
+    onProgress?: (progress: HttpProgress) => void,  // 下载进度回调
+}
+
+// 下载结果
+export interface HttpDownloadResult {
+    path: string,               // 文件路径，与FWFile.writeFile一致，读取时使用FWFile.getFullPath(path)，merge为false时不存在
+    size: number,               // 文件字节数
+    resumed: boolean,           // 是否从上次中断处继续
+    parts?: string[],           // merge为false时按顺序排列的分块文件路径，依次读取即为完整文件，使用后需自行通过FWFile.removeFile删除
+}
+
+/**
+ * 读取响应头，名称不区分大小写
+ */
+function getHeader(headers: Record<string, string> | null | undefined, name: string): string | undefined {
+    name = name.toLowerCase();
+    for (let key in headers) {
+        if (key.toLowerCase() == name) {
+            return headers[key];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * 解析Content-Range，格式为 bytes 0-1023/4096、bytes 0-1023/* 或 bytes *\/4096
+ * @returns 起止位置与总长度，总长度未知时为0，无法解析时返回null
+ */
+function parseContentRange(value: string | undefined): { start: number, end: number, total: number } | null {
+    let match = /^bytes\s+(?:(\d+)-(\d+)|\*)\/(\d+|\*)$/i.exec(value?.trim() ?? '');
+    if (!match) {
+        return null;
+    }
+    return {
+        start: match[1] !== undefined ? parseInt(match[1], 10) : -1,
+        end: match[2] !== undefined ? parseInt(match[2], 10) : -1,
+        total: match[3] == '*' ? 0 : parseInt(match[3], 10),
+    };
+}
+
+/**
+ * 获取用于If-Range的验证器，弱ETag不能用于If-Range，改用Last-Modified
+ */
+function getValidator(headers: Record<string, string>): string | undefined {
+    let etag = getHeader(headers, 'ETag');
+    if (etag && !etag.startsWith('W/')) {
+        return etag;
+    }
+    return getHeader(headers, 'Last-Modified');
+}
+
+/**
+ * 文件下载器
+ *
+ * @example
+ * ```typescript
+ * const controller = new FWCancelController();
+ * const result = await FWHttpDownloader.download('https://cdn.example.com/dlc/map01.bin', 'dlc/map01.bin', {
+ *     signal: controller.signal,
+ *     onProgress: (p) => progressBar.progress = p.total ? p.loaded / p.total : 0,
+ * });
+ * const data = FWFile.readFile(FWFile.getFullPath(result.path), true);
+ * ```
+ */
+export class FWHttpDownloader {
+    /** 默认分块大小 */
+    static readonly DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+    /** Web平台允许下载的最大文件字节数，分块与合并后的文件同时以base64存放在localStorage中 */
+    static WEB_MAX_SIZE = 1024 * 1024;
+
+    /** 下载状态存储 */
+    private static _storage: FWDataBase | null = null;
+
+    /** 正在下载的文件路径 */
+    private static _downloading: Set<string> = new Set();
+
+    private static get storage(): FWDataBase {
+        if (!FWHttpDownloader._storage) {
+            FWHttpDownloader._storage = new FWDataBase(data_key.httpDownload);
+        }
+        return FWHttpDownloader._storage;
+    }
+
+    /**
+     * 下载文件
+     * 失败或取消时保留已下载的分块，再次下载同一路径时继续
+     * @param url 下载地址
+     * @param path 文件路径，与FWFile.writeFile一致
+     * @param options 下载选项
+     * @returns 下载结果，失败时以HttpError或Error reject
+     */
+    static download(url: string, path: string, options: HttpDownloadOptions = {}): Promise<HttpDownloadResult> {
+        if (FWHttpDownloader._downloading.has(path)) {
+            return Promise.reject(new Error(`FWHttpDownloader ${path} is downloading`));
+        }
+        FWHttpDownloader._downloading.add(path);
+        return FWHttpDownloader.run(url, path, options).then(result => {
+            FWHttpDownloader._downloading.delete(path);
+            return result;
+        }, error => {
+            FWHttpDownloader._downloading.delete(path);
+            throw error;
+        });
+    }
+
+    /**
+     * 是否正在下载
+     * @param path 文件路径
+     */
+    static isDownloading(path: string): boolean {
+        return FWHttpDownloader._downloading.has(path);
+    }
+
+    /**
+     * 获取未完成的下载状态
+     * @param path 文件路径
+     * @returns 下载状态，没有未完成的下载时返回null
+     */
+    static getState(path: string): HttpDownloadState | null {
+        return FWHttpDownloader.storage.getObject<HttpDownloadState>(path);
+    }
+
+    /**
+     * 丢弃未完成的下载，删除已下载的分块
+     * @param path 文件路径
+     * @returns 是否丢弃成功，正在下载时返回false
+     */
+    static discard(path: string): boolean {
+        if (FWHttpDownloader._downloading.has(path)) {
+            return false;
+        }
+        FWHttpDownloader.reset(path);
+        return true;
+    }
+
+    private static async run(url: string, path: string, options: HttpDownloadOptions): Promise<HttpDownloadResult> {
+        const chunkSize = options.chunkSize ?? FWHttpDownloader.DEFAULT_CHUNK_SIZE;
+        let state = FWHttpDownloader.getState(path);
+        if (state && (options.resume === false || state.url != url)) {
+            state = FWHttpDownloader.reset(path);
+        }
+        state = state ?? { url, path, total: 0, loaded: 0, parts: 0 };
+        let resumed = state.loaded > 0;
+        // 续传失败（416或Content-Range不符）时只从头重新下载一次
+        let restarted = false;
+
+        while (state.total == 0 || state.loaded < state.total) {
+            const start = state.loaded;
+            const headers: Record<string, string> = { ...options.headers };
+            if (chunkSize > 0) {
+                headers['Range'] = `bytes=${start}-${start + chunkSize - 1}`;
+            } else if (start > 0) {
+                headers['Range'] = `bytes=${start}-`;
+            }
+            if (start > 0 && state.validator) {
+                headers['If-Range'] = state.validator;
+            }
+
+            let response: HttpResponse<ArrayBuffer>;
+            try {
+                response = await FWHttp.request<ArrayBuffer>(url, {
+                    method: HttpMethod.GET,
+                    headers,
+                    timeout: options.timeout ?? 30000,
+                    responseType: 'arraybuffer',
+                    retry: options.retry ?? 3,
+                    signal: options.signal,
+                    owner: options.owner,
+                    onDownloadProgress: progress => options.onProgress?.({
+                        loaded: start + progress.loaded,
+                        total: state.total || (progress.total ? start + progress.total : 0)
+                    }),
+                });
+            } catch (error) {
+                // 起始位置不在文件范围内：已下载完整，或文件已变小需要重新下载
+                if (error instanceof HttpError && error.status == 416 && start > 0) {
+                    const range = parseContentRange(getHeader(error.response?.headers, 'Content-Range'));
+                    if (range && range.total == start) {
+                        state.total = start;
+                        break;
+                    }
+                    if (!restarted) {
+                        restarted = true;
+                        state = FWHttpDownloader.reset(path, url);
+                        resumed = false;
+                        continue;
+                    }
+                }
+                throw error;
+            }
+
+            const data = response.data;
+            if (!(data instanceof ArrayBuffer)) {
+                throw new Error(`FWHttpDownloader ${url} invalid response data`);
+            }
+            const validator = getValidator(response.headers);
+            const partial = response.status == 206;
+            if (partial) {
+                const range = parseContentRange(getHeader(response.headers, 'Content-Range'));
+                const changed = state.validator && validator && state.validator != validator;
+                if (!range || range.start != start || changed) {
+                    if (restarted) {
+                        throw new Error(`FWHttpDownloader ${url} invalid Content-Range`);
+                    }
+                    restarted = true;
+                    state = FWHttpDownloader.reset(path, url);
+                    resumed = false;
+                    continue;
+                }
+                state.total = range.total;
+            } else {
+                // 服务器不支持Range或文件已变化，返回的是完整文件
+                if (state.parts > 0) {
+                    state = FWHttpDownloader.reset(path, url);
+                    resumed = false;
+                }
+                state.total = data.byteLength;
+            }
+
+            if (!sys.isNative && Math.max(state.total, state.loaded + data.byteLength) > FWHttpDownloader.WEB_MAX_SIZE) {
+                FWHttpDownloader.reset(path);
+                throw new Error(`FWHttpDownloader ${path} is too large for web storage: ${state.total || state.loaded + data.byteLength} > ${FWHttpDownloader.WEB_MAX_SIZE}`);
+            }
+
+            if (data.byteLength > 0) {
+                if (!FWFile.writeFile(FWHttpDownloader.getPartPath(path, state.parts), data)) {
+                    throw new Error(`FWHttpDownloader write ${path} failed`);
+                }
+                state.parts++;
+                state.loaded += data.byteLength;
+            }
+            state.validator = state.validator ?? validator;
+            FWHttpDownloader.storage.setObject(path, state);
+            options.onProgress?.({ loaded: state.loaded, total: state.total });
+
+            // 总长度未知时，收到的数据不足一个分块即为结束
+            if (!partial || data.byteLength == 0 || state.total == 0 && data.byteLength < chunkSize) {
+                break;
+            }
+        }
+
+        if (options.merge === false) {
+            const parts = Array.from({ length: state.parts }, (_, i) => FWHttpDownloader.getPartPath(path, i));
+            // 分块文件交给调用者，只删除下载状态
+            FWHttpDownloader.storage.removeItem(path);
+            return { path, size: state.loaded, resumed, parts };
+        }
+        const size = FWHttpDownloader.merge(path, state.parts, state.loaded);
+        FWHttpDownloader.reset(path);
+        return { path, size, resumed };
+    }
+
+    /**
+     * 合并分块文件为目标文件
+     * 按已下载的字节数一次分配目标缓冲区，逐块读取后立即复制，内存峰值为文件大小加一个分块
+     * @returns 文件字节数
+     */
+    private static merge(path: string, parts: number, size: number): number {
+        let merged: ArrayBuffer = null;
+        let offset = 0;
+        for (let i = 0; i < parts; i++) {
+            const buffer = FWFile.readFile(FWFile.getFullPath(FWHttpDownloader.getPartPath(path, i)), true) as ArrayBuffer;
+            if (!buffer || offset + buffer.byteLength > size) {
+                // 分块文件丢失或已损坏，只能重新下载
+                FWHttpDownloader.reset(path);
+                throw new Error(`FWHttpDownloader read ${path} part ${i} failed`);
+            }
+            if (parts == 1) {
+                // 只有一个分块时直接写入，不再复制
+                merged = buffer;
+            } else {
+                merged = merged ?? new ArrayBuffer(size);
+                new Uint8Array(merged).set(new Uint8Array(buffer), offset);
+            }
+            offset += buffer.byteLength;
+        }
+        if (offset != size) {
+            FWHttpDownloader.reset(path);
+            throw new Error(`FWHttpDownloader ${path} size mismatch: ${offset} != ${size}`);
+        }
+        if (!FWFile.writeFile(path, merged ?? new ArrayBuffer(0))) {
+            throw new Error(`FWHttpDownloader write ${path} failed`);
+        }
+        return size;
+    }
+
+    /**
+     * 删除分块文件与下载状态
+     * @param path 文件路径
+     * @param url 传入时返回该地址的初始下载状态
+     */
+    private static reset(path: string, url?: string): HttpDownloadState | null {
+        const state = FWHttpDownloader.getState(path);
+        for (let i = 0; i < (state?.parts ?? 0); i++) {
+            FWFile.removeFile(FWHttpDownloader.getPartPath(path, i));
+        }
+        FWHttpDownloader.storage.removeItem(path);
+        return url ? { url, path, total: 0, loaded: 0, parts: 0 } : null;
+    }
+
+    private static getPartPath(path: string, index: number): string {
+        return `${path}.part${index}`;
+    }
+}
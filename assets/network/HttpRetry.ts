@@ -0,0 +1,210 @@
+/*
+*   HTTP请求的重试策略，FWHttp与FWAxios共用
+*   1. 指数退避 + 随机抖动，延迟上限为maxDelay
+*   2. 默认只重试网络错误、超时与408/429/5xx等可恢复的状态码，取消的请求不重试
+*   3. 响应带Retry-After时按服务器要求等待，超过maxDelay则不再重试
+*   4. 非幂等方法（POST/PATCH）自动带上幂等键请求头，每次重试使用同一个键，服务器据此去重
+*/
+
+// 失败类型，与HttpErrorCode一致（CACHE_MISS不发请求，没有尝试记录）
+export type HttpFailureKind = 'TIMEOUT' | 'ABORT' | 'NETWORK' | 'HTTP';
+
+// 一次请求尝试的记录
+export interface HttpAttempt {
+    attempt: number,            // 第几次尝试，从1开始
+    status: number,             // HTTP状态码，未收到响应时为0
+    error?: string,             // 失败时的错误码，成功时不传
+    duration: number,           // 耗时（毫秒）
+    delay: number,              // 本次失败后等待多久发起下一次尝试（毫秒），不再重试时为0
+}
+
+// 判断是否重试时的上下文
+export interface HttpRetryContext {
+    attempt: number,            // 刚失败的是第几次尝试，从1开始
+    method: string,             // 请求方法，大写
+    kind: HttpFailureKind,      // 失败类型
+    status: number,             // HTTP状态码，未收到响应时为0
+}
+
+// 重试策略
+export interface HttpRetryPolicy {
+    retries?: number,                   // 最多重试几次，默认3
+    baseDelay?: number,                 // 第一次重试前的延迟（毫秒），默认500
+    maxDelay?: number,                  // 延迟上限（毫秒），默认10000，Retry-After超过此值时不再重试
+    factor?: number,                    // 每次重试延迟的倍数，默认2
+    jitter?: number,                    // 随机抖动比例，0~1，实际延迟在 [delay * (1 - jitter), delay] 之间，默认0.5
+    statuses?: number[],                // 需要重试的状态码，默认 408、429、500、502、503、504
+    retryNetworkError?: boolean,        // 是否重试网络错误，默认true
+    retryTimeout?: boolean,             // 是否重试超时，默认true
+    respectRetryAfter?: boolean,        // 是否遵守响应头Retry-After，默认true
+    methods?: string[],                 // 允许重试的方法，默认所有方法，POST/PATCH需要带幂等键才会重试
+    idempotencyKey?: boolean | string,  // POST/PATCH是否自动生成幂等键，传字符串时作为请求头名称，默认true（Idempotency-Key）
+    shouldRetry?: (ctx: HttpRetryContext) => boolean,   // 自定义判断，传入时替代状态码与失败类型的判断
+}
+
+// 默认幂等键请求头
+export const IdempotencyKeyHeader = 'Idempotency-Key';
+
+// 默认重试的状态码
+export const DefaultRetryStatuses = [408, 429, 500, 502, 503, 504];
+
+// 非幂等方法，重试时需要幂等键
+const NonIdempotentMethods = ['POST', 'PATCH'];
+
+/**
+ * 补全重试策略的默认值
+ * @param policy 重试策略，传数字时为重试次数，不传或重试次数为0时返回null
+ */
+export function resolveRetryPolicy(policy?: HttpRetryPolicy | number | null): HttpRetryPolicy | null {
+    if (policy === undefined || policy === null) {
+        return null;
+    }
+    if (typeof policy == 'number') {
+        policy = { retries: policy };
+    }
+    let resolved: HttpRetryPolicy = {
+        retries: 3,
+        baseDelay: 500,
+        maxDelay: 10000,
+        factor: 2,
+        jitter: 0.5,
+        statuses: DefaultRetryStatuses,
+        retryNetworkError: true,
+        retryTimeout: true,
+        respectRetryAfter: true,
+        idempotencyKey: true,
+        ...policy,
+    };
+    return resolved.retries > 0 ? resolved : null;
+}
+
+/**
+ * 获取幂等键请求头名称
+ * @param policy 已补全的重试策略
+ * @param method 请求方法
+ * @returns 请求头名称，不需要幂等键时返回null
+ */
+export function getIdempotencyHeader(policy: HttpRetryPolicy | null, method: string): string | null {
+    if (!policy || !policy.idempotencyKey || NonIdempotentMethods.indexOf(method.toUpperCase()) == -1) {
+        return null;
+    }
+    return typeof policy.idempotencyKey == 'string' ? policy.idempotencyKey : IdempotencyKeyHeader;
+}
+
+/**
+ * 生成幂等键（UUID v4格式）
+ */
+export function createIdempotencyKey(): string {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        let r = Math.random() * 16 | 0;
+        return (c == 'x' ? r : (r & 0x3 | 0x8)).toString(16);
+    });
+}
+
+/**
+ * 解析Retry-After响应头
+ * @param value 秒数或HTTP日期
+ * @param now 当前时间戳（毫秒）
+ * @returns 需要等待的毫秒数，无法解析时返回null
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    value = String(value).trim();
+    if (/^\d+$/.test(value)) {
+        return parseInt(value, 10) * 1000;
+    }
+    let date = Date.parse(value);
+    if (isNaN(date)) {
+        return null;
+    }
+    return Math.max(0, date - now);
+}
+
+/**
+ * 从响应头中读取Retry-After，响应头名称不区分大小写
+ */
+export function getRetryAfterHeader(headers: Record<string, any> | null | undefined): string | null {
+    if (!headers) {
+        return null;
+    }
+    for (let key in headers) {
+        if (key.toLowerCase() == 'retry-after') {
+            return headers[key];
+        }
+    }
+    return null;
+}
+
+/**
+ * 计算失败后是否重试以及重试前的延迟
+ * @param policy 已补全的重试策略
+ * @param ctx 失败的上下文
+ * @param retryAfter 响应头Retry-After的值
+ * @param hasIdempotencyKey 请求是否带有幂等键
+ * @returns 重试前的延迟（毫秒），不重试时返回-1
+ */
+export function getRetryDelay(policy: HttpRetryPolicy | null, ctx: HttpRetryContext, retryAfter?: string | null, hasIdempotencyKey: boolean = false): number {
+    if (!policy || ctx.kind == 'ABORT' || ctx.attempt > policy.retries) {
+        return -1;
+    }
+    let method = ctx.method.toUpperCase();
+    if (policy.methods && policy.methods.indexOf(method) == -1) {
+        return -1;
+    }
+    if (!policy.methods && NonIdempotentMethods.indexOf(method) != -1 && !hasIdempotencyKey) {
+        return -1;
+    }
+    let retry: boolean;
+    if (policy.shouldRetry) {
+        retry = policy.shouldRetry(ctx);
+    } else if (ctx.kind == 'HTTP') {
+        retry = policy.statuses.indexOf(ctx.status) != -1;
+    } else if (ctx.kind == 'TIMEOUT') {
+        retry = policy.retryTimeout;
+    } else {
+        retry = policy.retryNetworkError;
+    }
+    if (!retry) {
+        return -1;
+    }
+
+    if (policy.respectRetryAfter) {
+        let wait = parseRetryAfter(retryAfter);
+        if (wait !== null) {
+            return wait <= policy.maxDelay ? wait : -1;
+        }
+    }
+    let delay = Math.min(policy.baseDelay * Math.pow(policy.factor, ctx.attempt - 1), policy.maxDelay);
+    let jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/**
+ * 等待重试延迟，取消信号触发时立即结束
+ * @param delay 延迟（毫秒）
+ * @param signal 取消信号，与AbortSignal兼容
+ * @returns 是否等待完成，被取消时返回false
+ */
+export function waitRetryDelay(delay: number, signal?: {
+    readonly aborted: boolean;
+    addEventListener?(type: 'abort', listener: () => void): void;
+    removeEventListener?(type: 'abort', listener: () => void): void;
+} | null): Promise<boolean> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            resolve(false);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve(true);
+        }, delay);
+        signal?.addEventListener?.('abort', onAbort);
+    });
+}
@@ -0,0 +1,347 @@
+/*
+*   网络消息编解码
+*   1. 指令到编解码器的注册表
+*   2. JSON编解码器
+*   3. 按字段定义顺序读写的二进制编解码器（长度使用varint，类似protobuf）
+*/
+
+// 编解码器接口
+export interface INetCodec<T = any> {
+    encode(data: T): Uint8Array;            // 编码为包体
+    decode(bytes: Uint8Array): T;           // 从包体解码
+}
+
+// 二进制字段类型
+export type NetSchemaFieldType =
+    'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' |
+    'float32' | 'float64' | 'bool' | 'string' | 'bytes';
+
+// 二进制字段定义
+export interface NetSchemaField {
+    name: string,                               // 字段名
+    type: NetSchemaFieldType | NetSchema,       // 字段类型，数组为嵌套结构
+    repeated?: boolean,                         // 是否为数组
+}
+
+// 二进制结构定义，字段按顺序读写
+export type NetSchema = NetSchemaField[];
+
+// 字符串转UTF-8字节，不依赖TextEncoder，兼容原生平台
+export function encodeUtf8(text: string): Uint8Array {
+    let bytes: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        let code = text.charCodeAt(i);
+        // 代理对合并为一个码点
+        if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+            let low = text.charCodeAt(i + 1);
+            if (low >= 0xdc00 && low <= 0xdfff) {
+                code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+                i++;
+            }
+        }
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+// UTF-8字节转字符串
+export function decodeUtf8(bytes: Uint8Array): string {
+    let chars: string[] = [];
+    let i = 0;
+    while (i < bytes.length) {
+        let byte = bytes[i++];
+        let code: number;
+        if (byte < 0x80) {
+            code = byte;
+        } else if (byte < 0xe0) {
+            code = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+        } else if (byte < 0xf0) {
+            code = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        } else {
+            code = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        }
+        chars.push(String.fromCodePoint(code));
+    }
+    return chars.join('');
+}
+
+// 转为Uint8Array，不复制数据
+export function toUint8Array(data: ArrayBufferLike | ArrayBufferView | string): Uint8Array {
+    if (typeof data == 'string') {
+        return encodeUtf8(data);
+    }
+    if (ArrayBuffer.isView(data)) {
+        return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    return new Uint8Array(data);
+}
+
+// 可自动扩容的字节写入器
+class ByteWriter {
+    private _bytes: Uint8Array = new Uint8Array(64);
+    private _view: DataView = new DataView(this._bytes.buffer);
+    private _offset: number = 0;
+
+    constructor(private _littleEndian: boolean) {
+    }
+
+    private ensure(size: number) {
+        if (this._offset + size <= this._bytes.length) {
+            return;
+        }
+        let capacity = this._bytes.length * 2;
+        while (capacity < this._offset + size) {
+            capacity *= 2;
+        }
+        let bytes = new Uint8Array(capacity);
+        bytes.set(this._bytes);
+        this._bytes = bytes;
+        this._view = new DataView(bytes.buffer);
+    }
+
+    writeNumber(type: NetSchemaFieldType, value: number) {
+        let le = this._littleEndian;
+        switch (type) {
+            case 'int8': this.ensure(1); this._view.setInt8(this._offset, value); this._offset += 1; break;
+            case 'uint8': this.ensure(1); this._view.setUint8(this._offset, value); this._offset += 1; break;
+            case 'int16': this.ensure(2); this._view.setInt16(this._offset, value, le); this._offset += 2; break;
+            case 'uint16': this.ensure(2); this._view.setUint16(this._offset, value, le); this._offset += 2; break;
+            case 'int32': this.ensure(4); this._view.setInt32(this._offset, value, le); this._offset += 4; break;
+            case 'uint32': this.ensure(4); this._view.setUint32(this._offset, value, le); this._offset += 4; break;
+            case 'float32': this.ensure(4); this._view.setFloat32(this._offset, value, le); this._offset += 4; break;
+            case 'float64': this.ensure(8); this._view.setFloat64(this._offset, value, le); this._offset += 8; break;
+        }
+    }
+
+    // 无符号varint，每字节低7位为数据，最高位表示后面还有字节
+    writeVarint(value: number) {
+        this.ensure(5);
+        value = value >>> 0;
+        while (value >= 0x80) {
+            this._bytes[this._offset++] = (value & 0x7f) | 0x80;
+            value >>>= 7;
+        }
+        this._bytes[this._offset++] = value;
+    }
+
+    writeBytes(bytes: Uint8Array) {
+        this.writeVarint(bytes.length);
+        this.ensure(bytes.length);
+        this._bytes.set(bytes, this._offset);
+        this._offset += bytes.length;
+    }
+
+    finish() {
+        return this._bytes.slice(0, this._offset);
+    }
+}
+
+// 字节读取器
+class ByteReader {
+    private _view: DataView;
+    private _offset: number = 0;
+
+    constructor(private _bytes: Uint8Array, private _littleEndian: boolean) {
+        this._view = new DataView(_bytes.buffer, _bytes.byteOffset, _bytes.byteLength);
+    }
+
+    private check(size: number) {
+        if (this._offset + size > this._bytes.length) {
+            throw new RangeError(`NetCodec read out of range: offset ${this._offset}, size ${size}, length ${this._bytes.length}`);
+        }
+    }
+
+    readNumber(type: NetSchemaFieldType): number {
+        let le = this._littleEndian;
+        let value: number;
+        switch (type) {
+            case 'int8': this.check(1); value = this._view.getInt8(this._offset); this._offset += 1; break;
+            case 'uint8': this.check(1); value = this._view.getUint8(this._offset); this._offset += 1; break;
+            case 'int16': this.check(2); value = this._view.getInt16(this._offset, le); this._offset += 2; break;
+            case 'uint16': this.check(2); value = this._view.getUint16(this._offset, le); this._offset += 2; break;
+            case 'int32': this.check(4); value = this._view.getInt32(this._offset, le); this._offset += 4; break;
+            case 'uint32': this.check(4); value = this._view.getUint32(this._offset, le); this._offset += 4; break;
+            case 'float32': this.check(4); value = this._view.getFloat32(this._offset, le); this._offset += 4; break;
+            case 'float64': this.check(8); value = this._view.getFloat64(this._offset, le); this._offset += 8; break;
+        }
+        return value;
+    }
+
+    readVarint(): number {
+        let value = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            this.check(1);
+            byte = this._bytes[this._offset++];
+            value += (byte & 0x7f) * Math.pow(2, shift);
+            shift += 7;
+        } while (byte & 0x80);
+        return value;
+    }
+
+    readBytes(): Uint8Array {
+        let length = this.readVarint();
+        this.check(length);
+        let bytes = this._bytes.slice(this._offset, this._offset + length);
+        this._offset += length;
+        return bytes;
+    }
+}
+
+// JSON编解码器
+export class JsonCodec<T = any> implements INetCodec<T> {
+    encode(data: T): Uint8Array {
+        return encodeUtf8(JSON.stringify(data ?? null));
+    }
+    decode(bytes: Uint8Array): T {
+        return bytes.length > 0 ? JSON.parse(decodeUtf8(bytes)) : null;
+    }
+}
+
+/**
+ * 按结构定义读写的二进制编解码器
+ * 字段按定义顺序紧凑排列，数字使用固定长度，字符串、字节与数组以varint长度开头
+ * 双方需要使用相同的结构定义，新增字段只能追加在末尾并由双方同时升级
+ *
+ * @example
+ * ```typescript
+ * const MoveCodec = new SchemaCodec<{ x: number, y: number, path: { x: number, y: number }[] }>([
+ *     { name: 'x', type: 'float32' },
+ *     { name: 'y', type: 'float32' },
+ *     { name: 'path', type: [{ name: 'x', type: 'int16' }, { name: 'y', type: 'int16' }], repeated: true },
+ * ]);
+ * ```
+ */
+export class SchemaCodec<T = any> implements INetCodec<T> {
+    constructor(private _schema: NetSchema, private _littleEndian: boolean = false) {
+    }
+
+    encode(data: T): Uint8Array {
+        let writer = new ByteWriter(this._littleEndian);
+        this.writeStruct(writer, this._schema, data);
+        return writer.finish();
+    }
+
+    decode(bytes: Uint8Array): T {
+        let reader = new ByteReader(bytes, this._littleEndian);
+        return this.readStruct(reader, this._schema);
+    }
+
+    private writeStruct(writer: ByteWriter, schema: NetSchema, data: any) {
+        for (const field of schema) {
+            let value = data?.[field.name];
+            if (field.repeated) {
+                let list: any[] = value ?? [];
+                writer.writeVarint(list.length);
+                list.forEach(item => this.writeValue(writer, field.type, item));
+            } else {
+                this.writeValue(writer, field.type, value);
+            }
+        }
+    }
+
+    private writeValue(writer: ByteWriter, type: NetSchemaFieldType | NetSchema, value: any) {
+        if (Array.isArray(type)) {
+            this.writeStruct(writer, type, value);
+        } else if (type == 'bool') {
+            writer.writeNumber('uint8', value ? 1 : 0);
+        } else if (type == 'string') {
+            writer.writeBytes(encodeUtf8(value ?? ''));
+        } else if (type == 'bytes') {
+            writer.writeBytes(value ? toUint8Array(value) : new Uint8Array(0));
+        } else {
+            writer.writeNumber(type, value ?? 0);
+        }
+    }
+
+    private readStruct(reader: ByteReader, schema: NetSchema) {
+        let data: any = {};
+        for (const field of schema) {
+            if (field.repeated) {
+                let length = reader.readVarint();
+                let list = [];
+                for (let i = 0; i < length; i++) {
+                    list.push(this.readValue(reader, field.type));
+                }
+                data[field.name] = list;
+            } else {
+                data[field.name] = this.readValue(reader, field.type);
+            }
+        }
+        return data;
+    }
+
+    private readValue(reader: ByteReader, type: NetSchemaFieldType | NetSchema): any {
+        if (Array.isArray(type)) {
+            return this.readStruct(reader, type);
+        } else if (type == 'bool') {
+            return reader.readNumber('uint8') != 0;
+        } else if (type == 'string') {
+            return decodeUtf8(reader.readBytes());
+        } else if (type == 'bytes') {
+            return reader.readBytes();
+        }
+        return reader.readNumber(type);
+    }
+}
+
+/**
+ * 编解码器注册表
+ * 按指令查找编解码器，未注册的指令使用默认编解码器，没有默认编解码器时包体按原始字节处理
+ *
+ * @example
+ * ```typescript
+ * const codecs = new NetCodecRegistry();
+ * codecs.register(Cmd.Login, new JsonCodec<LoginReq>());
+ * codecs.register(Cmd.Move, MoveCodec);
+ * const helper = new BinaryProtocolHelper({ codecs });
+ * ```
+ */
+export class NetCodecRegistry {
+    protected _codecs: Map<number, INetCodec> = new Map();
+
+    constructor(public defaultCodec: INetCodec = null) {
+    }
+
+    // 注册指令的编解码器，已注册时覆盖
+    register(cmd: number, codec: INetCodec) {
+        this._codecs.set(cmd, codec);
+        return this;
+    }
+
+    unregister(cmd: number) {
+        this._codecs.delete(cmd);
+    }
+
+    get(cmd: number): INetCodec {
+        return this._codecs.get(cmd) ?? this.defaultCodec;
+    }
+
+    encode(cmd: number, data: any): Uint8Array {
+        let codec = this.get(cmd);
+        if (codec) {
+            return codec.encode(data);
+        }
+        if (data == null) {
+            return new Uint8Array(0);
+        }
+        if (typeof data == 'string' || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+            return toUint8Array(data);
+        }
+        throw new Error(`NetCodecRegistry no codec for cmd ${cmd}`);
+    }
+
+    decode(cmd: number, bytes: Uint8Array): any {
+        let codec = this.get(cmd);
+        return codec ? codec.decode(bytes) : bytes;
+    }
+}
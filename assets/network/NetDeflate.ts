@@ -0,0 +1,396 @@
+/*
+*   DEFLATE压缩（RFC 1951，不带zlib/gzip头）
+*   1. 压缩使用LZ77 + 固定哈夫曼编码，速度优先，适合网络消息
+*   2. 解压支持存储、固定哈夫曼与动态哈夫曼三种块，可解压zlib等标准实现的raw deflate数据
+*   3. 解压可限制输出长度，避免少量数据解压出超大结果耗尽内存
+*/
+
+const LengthBase = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DistBase = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DistExtra = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// 动态块中码长表的码长出现顺序
+const CodeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WindowSize = 32768;
+const MinMatch = 3;
+const MaxMatch = 258;
+const MaxChain = 32;                // 哈希链最多查找次数
+const HashBits = 15;
+
+// 可扩容的输出缓冲
+class OutputBuffer {
+    bytes: Uint8Array;
+    length: number = 0;
+
+    constructor(capacity: number, readonly limit: number = Infinity) {
+        this.bytes = new Uint8Array(Math.max(Math.min(capacity, limit), 64));
+    }
+
+    ensure(size: number) {
+        if (this.length + size > this.limit) {
+            throw new RangeError(`inflateRaw output exceeds ${this.limit} bytes`);
+        }
+        if (this.length + size <= this.bytes.length) {
+            return;
+        }
+        let capacity = this.bytes.length * 2;
+        while (capacity < this.length + size) {
+            capacity *= 2;
+        }
+        capacity = Math.min(capacity, this.limit);
+        let bytes = new Uint8Array(capacity);
+        bytes.set(this.bytes.subarray(0, this.length));
+        this.bytes = bytes;
+    }
+
+    push(byte: number) {
+        this.ensure(1);
+        this.bytes[this.length++] = byte;
+    }
+
+    finish() {
+        return this.bytes.slice(0, this.length);
+    }
+}
+
+// ==================== 压缩 ====================
+
+// 按低位在前写入比特流
+class BitWriter {
+    private _bitBuf: number = 0;
+    private _bitCount: number = 0;
+
+    constructor(private _out: OutputBuffer) {
+    }
+
+    writeBits(value: number, count: number) {
+        this._bitBuf |= value << this._bitCount;
+        this._bitCount += count;
+        while (this._bitCount >= 8) {
+            this._out.push(this._bitBuf & 0xff);
+            this._bitBuf >>>= 8;
+            this._bitCount -= 8;
+        }
+    }
+
+    // 哈夫曼编码按高位在前定义，需要反转后写入
+    writeCode(code: number, length: number) {
+        let reversed = 0;
+        for (let i = 0; i < length; i++) {
+            reversed = (reversed << 1) | ((code >> i) & 1);
+        }
+        this.writeBits(reversed, length);
+    }
+
+    flush() {
+        if (this._bitCount > 0) {
+            this._out.push(this._bitBuf & 0xff);
+        }
+        this._bitBuf = 0;
+        this._bitCount = 0;
+    }
+}
+
+// 写入固定哈夫曼编码的字面量或长度符号
+function writeLiteral(writer: BitWriter, symbol: number) {
+    if (symbol < 144) {
+        writer.writeCode(0x30 + symbol, 8);
+    } else if (symbol < 256) {
+        writer.writeCode(0x190 + symbol - 144, 9);
+    } else if (symbol < 280) {
+        writer.writeCode(symbol - 256, 7);
+    } else {
+        writer.writeCode(0xc0 + symbol - 280, 8);
+    }
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number) {
+    let code = 0;
+    while (code < 28 && LengthBase[code + 1] <= length) {
+        code++;
+    }
+    writeLiteral(writer, 257 + code);
+    writer.writeBits(length - LengthBase[code], LengthExtra[code]);
+
+    let dist = 0;
+    while (dist < 29 && DistBase[dist + 1] <= distance) {
+        dist++;
+    }
+    writer.writeCode(dist, 5);
+    writer.writeBits(distance - DistBase[dist], DistExtra[dist]);
+}
+
+function hash(data: Uint8Array, pos: number) {
+    return ((data[pos] << 10) ^ (data[pos + 1] << 5) ^ data[pos + 2]) & ((1 << HashBits) - 1);
+}
+
+// 压缩为raw deflate数据
+export function deflateRaw(data: Uint8Array): Uint8Array {
+    let out = new OutputBuffer(data.length / 2 + 16);
+    let writer = new BitWriter(out);
+    // 单个固定哈夫曼块：BFINAL=1，BTYPE=01
+    writer.writeBits(1, 1);
+    writer.writeBits(1, 2);
+
+    let head = new Int32Array(1 << HashBits).fill(-1);
+    let prev = new Int32Array(WindowSize);
+    let insert = (pos: number) => {
+        if (pos + MinMatch <= data.length) {
+            let h = hash(data, pos);
+            prev[pos & (WindowSize - 1)] = head[h];
+            head[h] = pos;
+        }
+    };
+
+    let pos = 0;
+    while (pos < data.length) {
+        let bestLength = 0;
+        let bestDistance = 0;
+        if (pos + MinMatch <= data.length) {
+            let maxLength = Math.min(MaxMatch, data.length - pos);
+            let candidate = head[hash(data, pos)];
+            let chain = MaxChain;
+            while (candidate >= 0 && pos - candidate <= WindowSize && chain-- > 0) {
+                let length = 0;
+                while (length < maxLength && data[candidate + length] == data[pos + length]) {
+                    length++;
+                }
+                if (length > bestLength) {
+                    bestLength = length;
+                    bestDistance = pos - candidate;
+                    if (length == maxLength) {
+                        break;
+                    }
+                }
+                let next = prev[candidate & (WindowSize - 1)];
+                // 链上的位置只会越来越早，出现更晚的位置说明已被窗口覆盖
+                if (next >= candidate) {
+                    break;
+                }
+                candidate = next;
+            }
+        }
+
+        if (bestLength >= MinMatch) {
+            writeMatch(writer, bestLength, bestDistance);
+            for (let i = 0; i < bestLength; i++) {
+                insert(pos + i);
+            }
+            pos += bestLength;
+        } else {
+            writeLiteral(writer, data[pos]);
+            insert(pos);
+            pos++;
+        }
+    }
+    writeLiteral(writer, 256);
+    writer.flush();
+    return out.finish();
+}
+
+// ==================== 解压 ====================
+
+// 哈夫曼解码表，counts[n]为码长为n的符号数，symbols按编码顺序排列
+interface Huffman {
+    counts: Uint16Array,
+    symbols: Uint16Array,
+}
+
+function buildHuffman(lengths: ArrayLike<number>, offset: number, count: number): Huffman {
+    let counts = new Uint16Array(16);
+    let symbols = new Uint16Array(count);
+    for (let i = 0; i < count; i++) {
+        counts[lengths[offset + i]]++;
+    }
+    let offsets = new Uint16Array(16);
+    for (let len = 1; len < 15; len++) {
+        offsets[len + 1] = offsets[len] + counts[len];
+    }
+    for (let i = 0; i < count; i++) {
+        let len = lengths[offset + i];
+        if (len != 0) {
+            symbols[offsets[len]++] = i;
+        }
+    }
+    counts[0] = 0;
+    return { counts, symbols };
+}
+
+let fixedLiteral: Huffman = null;
+let fixedDistance: Huffman = null;
+
+function getFixedTables() {
+    if (!fixedLiteral) {
+        let lengths = new Uint8Array(288);
+        lengths.fill(8, 0, 144);
+        lengths.fill(9, 144, 256);
+        lengths.fill(7, 256, 280);
+        lengths.fill(8, 280, 288);
+        fixedLiteral = buildHuffman(lengths, 0, 288);
+        fixedDistance = buildHuffman(new Uint8Array(30).fill(5), 0, 30);
+    }
+}
+
+class BitReader {
+    private _pos: number = 0;
+    private _bitBuf: number = 0;
+    private _bitCount: number = 0;
+
+    constructor(private _data: Uint8Array) {
+    }
+
+    readBits(count: number): number {
+        while (this._bitCount < count) {
+            if (this._pos >= this._data.length) {
+                throw new RangeError("inflateRaw unexpected end of data");
+            }
+            this._bitBuf |= this._data[this._pos++] << this._bitCount;
+            this._bitCount += 8;
+        }
+        let value = this._bitBuf & ((1 << count) - 1);
+        this._bitBuf >>>= count;
+        this._bitCount -= count;
+        return value;
+    }
+
+    decode(huffman: Huffman): number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let len = 1; len < 16; len++) {
+            code |= this.readBits(1);
+            let count = huffman.counts[len];
+            if (code - first < count) {
+                return huffman.symbols[index + code - first];
+            }
+            index += count;
+            first += count;
+            first <<= 1;
+            code <<= 1;
+        }
+        throw new Error("inflateRaw invalid huffman code");
+    }
+
+    // 存储块从字节边界开始
+    alignToByte() {
+        this._bitBuf = 0;
+        this._bitCount = 0;
+    }
+
+    readBytes(out: OutputBuffer, length: number) {
+        if (this._pos + length > this._data.length) {
+            throw new RangeError("inflateRaw unexpected end of data");
+        }
+        out.ensure(length);
+        out.bytes.set(this._data.subarray(this._pos, this._pos + length), out.length);
+        out.length += length;
+        this._pos += length;
+    }
+}
+
+function inflateCodes(reader: BitReader, out: OutputBuffer, literal: Huffman, distance: Huffman) {
+    while (true) {
+        let symbol = reader.decode(literal);
+        if (symbol < 256) {
+            out.push(symbol);
+        } else if (symbol == 256) {
+            return;
+        } else {
+            symbol -= 257;
+            if (symbol >= 29) {
+                throw new Error("inflateRaw invalid length symbol");
+            }
+            let length = LengthBase[symbol] + reader.readBits(LengthExtra[symbol]);
+            let dist = reader.decode(distance);
+            if (dist >= 30) {
+                throw new Error("inflateRaw invalid distance symbol");
+            }
+            let offset = DistBase[dist] + reader.readBits(DistExtra[dist]);
+            if (offset > out.length) {
+                throw new Error("inflateRaw distance too far back");
+            }
+            out.ensure(length);
+            // 长度可能大于距离，需要逐字节复制
+            for (let i = 0; i < length; i++) {
+                out.bytes[out.length] = out.bytes[out.length - offset];
+                out.length++;
+            }
+        }
+    }
+}
+
+function readDynamicTables(reader: BitReader): [Huffman, Huffman] {
+    let literalCount = reader.readBits(5) + 257;
+    let distanceCount = reader.readBits(5) + 1;
+    let codeLengthCount = reader.readBits(4) + 4;
+
+    let codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+        codeLengths[CodeLengthOrder[i]] = reader.readBits(3);
+    }
+    let codeLengthTable = buildHuffman(codeLengths, 0, 19);
+
+    let lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < lengths.length) {
+        let symbol = reader.decode(codeLengthTable);
+        if (symbol < 16) {
+            lengths[index++] = symbol;
+            continue;
+        }
+        let value = 0;
+        let repeat: number;
+        if (symbol == 16) {
+            if (index == 0) {
+                throw new Error("inflateRaw repeat with no previous length");
+            }
+            value = lengths[index - 1];
+            repeat = 3 + reader.readBits(2);
+        } else if (symbol == 17) {
+            repeat = 3 + reader.readBits(3);
+        } else {
+            repeat = 11 + reader.readBits(7);
+        }
+        if (index + repeat > lengths.length) {
+            throw new Error("inflateRaw too many code lengths");
+        }
+        lengths.fill(value, index, index + repeat);
+        index += repeat;
+    }
+    return [buildHuffman(lengths, 0, literalCount), buildHuffman(lengths, literalCount, distanceCount)];
+}
+
+/**
+ * 解压raw deflate数据
+ * @param data 压缩数据
+ * @param maxLength 解压后的最大字节数，超过时抛出RangeError，默认不限制
+ */
+export function inflateRaw(data: Uint8Array, maxLength: number = Infinity): Uint8Array {
+    let reader = new BitReader(data);
+    let out = new OutputBuffer(data.length * 4, maxLength);
+    let final = 0;
+    while (!final) {
+        final = reader.readBits(1);
+        let type = reader.readBits(2);
+        if (type == 0) {
+            reader.alignToByte();
+            let length = reader.readBits(16);
+            let nlength = reader.readBits(16);
+            if (length != (~nlength & 0xffff)) {
+                throw new Error("inflateRaw stored block length mismatch");
+            }
+            reader.alignToByte();
+            reader.readBytes(out, length);
+        } else if (type == 1) {
+            getFixedTables();
+            inflateCodes(reader, out, fixedLiteral, fixedDistance);
+        } else if (type == 2) {
+            let [literal, distance] = readDynamicTables(reader);
+            inflateCodes(reader, out, literal, distance);
+        } else {
+            throw new Error("inflateRaw invalid block type");
+        }
+    }
+    return out.finish();
+}
@@ -21,12 +21,74 @@ export interface RequestObject {
     rspObject: CallbackObject,  // 等待响应的回调对象
 }
 
+// 未连接时的发送策略
+export enum NetSendPolicy {
+    Drop,                       // 丢弃，send返回false
+    Queue,                      // 进入发送队列，连接成功后发送
+    MustAck,                    // 进入发送队列，发送后保留直到服务器确认，重连后重发（至少送达一次）
+}
+
+// 发送选项
+export interface NetSendOptions {
+    policy?: NetSendPolicy,     // 发送策略，不传使用NetNode的默认策略
+    ackId?: number,             // 确认id，MustAck策略必须传入，需与包内写入的id一致，服务器可据此去重
+    force?: boolean,            // 握手验证中也立即发送，供握手回调使用
+}
+
+// 请求选项
+export interface NetRequestOptions {
+    timeout?: number,           // 超时时间（毫秒），不传使用NetNode的默认值，0为不超时
+    rspCmd?: number,            // 响应指令，传入时只接受该指令的响应，协议没有序列号时必须传入
+    policy?: NetSendPolicy,     // 未连接时的发送策略，默认Drop（立即以SEND_FAILED失败）
+    force?: boolean,            // 握手验证中也立即发送，供握手回调使用
+}
+
+// 请求错误码
+export type NetRequestErrorCode =
+    'TIMEOUT' |                 // 等待响应超时
+    'CLOSED' |                  // 连接断开或节点关闭
+    'SEND_FAILED' |             // 发送失败
+    'DECODE' |                  // 响应解码失败
+    'UNSUPPORTED';              // 协议辅助对象不支持请求
+
+// 请求错误
+export class NetRequestError extends Error {
+    constructor(
+        public code: NetRequestErrorCode,   // 错误码
+        public cmd: number,                 // 请求指令
+        public seq: number,                 // 请求序列号
+        message?: string,
+    ) {
+        super(message ?? `NetNode request ${cmd} (seq ${seq}) failed: ${code}`);
+        this.name = 'NetRequestError';
+    }
+}
+
 // 协议辅助接口
 export interface IProtocolHelper {
     getHeadlen(): number;                   // 返回包头长度
     getHearbeat(): NetData;                 // 返回一个心跳包
     checkPackage(msg: NetData): boolean;    // 检查包数据是否合法
     getPackageId(msg: NetData): number;     // 返回包的id或协议类型
+
+    // 以下接口用于NetNode.request，未实现getPackageSeq或包头没有序列号时按rspCmd先到先得匹配响应
+    encodePackage?(cmd: number, seq: number, data: any): NetData;   // 编码请求包，写入指令与序列号
+    getPackageSeq?(msg: NetData): number;                           // 返回包的序列号，推送消息返回0，包头没有序列号时返回undefined
+    hasPackageSeq?(): boolean;                                      // 包头是否有序列号，未实现时以是否实现getPackageSeq为准
+    decodePackage?(msg: NetData): any;                              // 解码包体，未实现时返回原始数据
+    getMaxSeq?(): number;                                           // 序列号最大值，超过后从1开始，未实现时为0x7fffffff
+
+    // 以下接口用于MustAck发送策略
+    getAckId?(msg: NetData): number;                                // 返回服务器确认的ackId，不是确认包时返回0
+
+    // 以下接口用于一帧包含多个包或一个包跨越多帧的流式协议，未实现时每帧视为一个完整的包
+    unpack?(data: NetData): NetData[];                              // 拼接收到的数据，返回其中完整的包，剩余部分缓存到下次
+    reset?(): void;                                                 // 清空拼包缓存，连接建立时调用
+
+    // 以下接口用于NetNode中间件，包头需要有标记位字段
+    getFlags?(msg: NetData): number;                                // 返回包头的标记位
+    getBody?(msg: NetData): Uint8Array;                             // 返回包体
+    repack?(msg: NetData, body: Uint8Array, flags: number): NetData;// 替换包体与标记位，其余包头字段不变
 }
 
 // 默认字符串协议对象
@@ -1,6 +1,7 @@
 import { NetNode, NetConnectOptions } from "./NetNode";
-import { NetData, CallbackObject } from "./NetInterface";
+import { NetData, CallbackObject, NetRequestOptions, NetRequestError, NetSendOptions } from "./NetInterface";
 
+// 独立使用的网络管理器，按数字id管理频道；框架内请使用 app.manager.net（FWNetManager）
 export class NetManager {
     private static _instance: NetManager = null;
     protected _channels: { [key: number]: NetNode } = {};
@@ -35,14 +36,23 @@ export class NetManager {
     }
 
     // 调用Node发送
-    public send(buf: NetData, channelId: number = 0): boolean {
+    public send(buf: NetData, channelId: number = 0, options?: NetSendOptions): boolean {
         let node = this._channels[channelId];
         if (node) {
-            return node.send(buf);
+            return node.send(buf, options);
         }
         return false;
     }
 
+    // 调用Node发起请求并等待响应
+    public request<TReq = any, TRsp = any>(cmd: number, payload: TReq, options?: NetRequestOptions, channelId: number = 0): Promise<TRsp> {
+        let node = this._channels[channelId];
+        if (node) {
+            return node.request<TReq, TRsp>(cmd, payload, options);
+        }
+        return Promise.reject(new NetRequestError('CLOSED', cmd, 0, `NetManager channel ${channelId} not found`));
+    }
+
     // 调用Node关闭
     public close(channelId: number = 0,needReconnect=false) {
         if (this._channels[channelId]) {
@@ -0,0 +1,197 @@
+import CryptoES from 'crypto-es';
+import type { NetNode } from "./NetNode";
+import { deflateRaw, inflateRaw } from "./NetDeflate";
+
+/*
+*   NetNode收发数据的中间件
+*   1. 中间件只处理包体，处理过的包在包头flags中置上对应的标记位
+*   2. 发出的包按添加顺序处理，收到的包按标记位逆序还原
+*   3. 内置deflate压缩与AES加密，AES密钥可在握手中协商
+*/
+
+type WordArray = InstanceType<typeof CryptoES.lib.WordArray>;
+
+// 中间件接口
+export interface INetMiddleware {
+    readonly name: string;                                          // 名称，同一个NetNode中唯一
+    readonly flag: number;                                          // 包头flags中的标记位，每个中间件独占一位
+    outbound(body: Uint8Array, cmd: number): Uint8Array | null;     // 处理发出的包体，返回null表示跳过，不置标记位
+    inbound(body: Uint8Array, cmd: number): Uint8Array;             // 还原收到的包体，只在标记位被置上时调用
+}
+
+// 内置中间件的默认标记位
+export enum NetMiddlewareFlag {
+    Deflate = 0x01,
+    Aes = 0x02,
+}
+
+// 密钥协商选项
+export interface NetKeyExchangeOptions {
+    cmd: number,                // 协商指令，请求与响应的包体均为 { nonce: string }（十六进制）
+    secret: string,             // 双方预共享的密钥，用于从双方随机数派生会话密钥
+    timeout?: number,           // 协商请求超时（毫秒），不传使用NetNode的默认值
+}
+
+function wordArrayToBytes(words: WordArray): Uint8Array {
+    let bytes = new Uint8Array(words.sigBytes);
+    for (let i = 0; i < words.sigBytes; i++) {
+        bytes[i] = (words.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+    }
+    return bytes;
+}
+
+// 定长比较，避免按首个不同字节提前返回泄露耗时
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length != b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff == 0;
+}
+
+/**
+ * deflate压缩中间件，包体达到阈值且压缩后更小时才压缩
+ * 解压结果超过maxSize时抛出异常，该包被丢弃
+ */
+export class DeflateMiddleware implements INetMiddleware {
+    readonly name: string = 'deflate';
+
+    /**
+     * @param threshold 压缩阈值（字节）
+     * @param flag 标记位
+     * @param maxSize 解压后的最大字节数，应与协议的maxPackageSize保持一致，默认1MB
+     */
+    constructor(public threshold: number = 256, readonly flag: number = NetMiddlewareFlag.Deflate, public maxSize: number = 1024 * 1024) {
+    }
+
+    outbound(body: Uint8Array): Uint8Array | null {
+        if (body.length < this.threshold) {
+            return null;
+        }
+        let compressed = deflateRaw(body);
+        return compressed.length < body.length ? compressed : null;
+    }
+
+    inbound(body: Uint8Array): Uint8Array {
+        return inflateRaw(body, this.maxSize);
+    }
+}
+
+/**
+ * AES加密中间件，AES-CBC + PKCS7，每个包使用随机IV
+ * 密文格式为 IV(16字节) + 密文 + HMAC-SHA256(IV + 密文)(32字节)，服务器需使用相同格式
+ * MAC密钥 = HMAC-SHA256("mac", AES密钥)，收到的包先校验MAC再解密，校验失败则报错
+ * 未设置密钥时发出的包不加密，收到加密包则报错
+ *
+ * @example
+ * ```typescript
+ * const aes = new AesMiddleware();
+ * node.use(new DeflateMiddleware());
+ * node.use(aes);
+ * node.setHandshake(AesMiddleware.createKeyExchange(aes, { cmd: Cmd.KeyExchange, secret: 'shared-secret' }));
+ * ```
+ */
+export class AesMiddleware implements INetMiddleware {
+    readonly name: string = 'aes';
+    protected _key: WordArray = null;
+    protected _macKey: WordArray = null;
+
+    /**
+     * @param key 密钥，字符串按十六进制解析，长度为16、24或32字节，不传时需要在握手中协商
+     * @param flag 标记位
+     */
+    constructor(key?: string | WordArray, readonly flag: number = NetMiddlewareFlag.Aes) {
+        if (key) {
+            this.setKey(key);
+        }
+    }
+
+    get hasKey(): boolean {
+        return this._key !== null;
+    }
+
+    setKey(key: string | WordArray) {
+        let words = typeof key == 'string' ? CryptoES.enc.Hex.parse(key) : key;
+        if (words.sigBytes != 16 && words.sigBytes != 24 && words.sigBytes != 32) {
+            throw new Error(`AesMiddleware invalid key size: ${words.sigBytes}`);
+        }
+        this._key = words;
+        this._macKey = CryptoES.HmacSHA256('mac', words);
+    }
+
+    clearKey() {
+        this._key = null;
+        this._macKey = null;
+    }
+
+    protected mac(data: Uint8Array): Uint8Array {
+        return wordArrayToBytes(CryptoES.HmacSHA256(CryptoES.lib.WordArray.create(data), this._macKey));
+    }
+
+    outbound(body: Uint8Array): Uint8Array | null {
+        if (!this._key) {
+            return null;
+        }
+        let iv = CryptoES.lib.WordArray.random(16);
+        let encrypted = CryptoES.AES.encrypt(CryptoES.lib.WordArray.create(body), this._key, {
+            iv: iv,
+            mode: CryptoES.mode.CBC,
+            padding: CryptoES.pad.Pkcs7
+        });
+        let ciphertext = wordArrayToBytes(encrypted.ciphertext);
+        let result = new Uint8Array(16 + ciphertext.length + 32);
+        result.set(wordArrayToBytes(iv));
+        result.set(ciphertext, 16);
+        result.set(this.mac(result.subarray(0, 16 + ciphertext.length)), 16 + ciphertext.length);
+        return result;
+    }
+
+    inbound(body: Uint8Array): Uint8Array {
+        if (!this._key) {
+            throw new Error("AesMiddleware receive encrypted package before key is set");
+        }
+        if (body.length < 64 || body.length % 16 != 0) {
+            throw new Error(`AesMiddleware invalid encrypted body size: ${body.length}`);
+        }
+        let macOffset = body.length - 32;
+        if (!bytesEqual(this.mac(body.subarray(0, macOffset)), body.subarray(macOffset))) {
+            throw new Error("AesMiddleware HMAC mismatch");
+        }
+        let cipherParams = CryptoES.lib.CipherParams.create({
+            ciphertext: CryptoES.lib.WordArray.create(body.subarray(16, macOffset))
+        });
+        let decrypted = CryptoES.AES.decrypt(cipherParams, this._key, {
+            iv: CryptoES.lib.WordArray.create(body.subarray(0, 16)),
+            mode: CryptoES.mode.CBC,
+            padding: CryptoES.pad.Pkcs7
+        });
+        return wordArrayToBytes(decrypted);
+    }
+
+    // 会话密钥 = HMAC-SHA256(客户端随机数 + 服务器随机数, 预共享密钥)，服务器需使用相同算法
+    static deriveKey(secret: string, clientNonce: string, serverNonce: string): WordArray {
+        return CryptoES.HmacSHA256(clientNonce + serverNonce, secret);
+    }
+
+    /**
+     * 创建密钥协商的握手函数，用于NetNode.setHandshake
+     * 每次连接都会重新协商，协商请求与响应不加密，服务器应在响应之后才开始发送加密包
+     */
+    static createKeyExchange(aes: AesMiddleware, options: NetKeyExchangeOptions) {
+        return async (node: NetNode) => {
+            aes.clearKey();
+            let clientNonce = CryptoES.lib.WordArray.random(16).toString(CryptoES.enc.Hex);
+            let rsp = await node.request<{ nonce: string }, { nonce: string }>(options.cmd, { nonce: clientNonce }, {
+                timeout: options.timeout,
+                force: true,
+            });
+            if (typeof rsp?.nonce != 'string' || rsp.nonce.length == 0) {
+                throw new Error("AesMiddleware key exchange invalid response");
+            }
+            aes.setKey(AesMiddleware.deriveKey(options.secret, clientNonce, rsp.nonce));
+        };
+    }
+}
@@ -1,5 +1,7 @@
 import { log } from "../common";
-import { ISocket, INetworkTips, IProtocolHelper, RequestObject, CallbackObject, NetData, NetCallFunc } from "./NetInterface";
+import { FWEventName, IFWEvents } from "../events/FWEvents";
+import { INetMiddleware } from "./NetMiddleware";
+import { ISocket, INetworkTips, IProtocolHelper, RequestObject, CallbackObject, NetData, NetCallFunc, NetRequestOptions, NetRequestError, NetRequestErrorCode, NetSendOptions, NetSendPolicy } from "./NetInterface";
 
 /*
 *   CocosCreator网络节点基类，以及网络相关接口定义
@@ -7,6 +9,11 @@ import { ISocket, INetworkTips, IProtocolHelper, RequestObject, CallbackObject,
 *   2. 心跳机制
 *   3. 断线重连 + 请求重发
 *   4. 调用网络屏蔽层
+*   5. 请求/响应（按序列号匹配，超时与断线时reject）
+*   6. 离线发送队列与确认重发
+*   7. 连接后的握手验证
+*   8. 重连退避策略，后台暂停重连
+*   9. 收发数据的中间件（压缩、加密）
 *
 *   2018-5-7 by 宝爷
 */
@@ -15,6 +22,23 @@ type ExecuterFunc = (callback: CallbackObject, buffer: NetData) => void;
 type CheckFunc = (checkedFunc: VoidFunc) => void;
 type VoidFunc = () => void;
 type BoolFunc = () => boolean;
+type HandshakeFunc = (node: NetNode) => Promise<void> | void;
+
+// 发送队列中的消息
+interface QueuedMessage {
+    buffer: NetData,            // 消息数据
+    policy: NetSendPolicy,      // 发送策略
+    ackId: number,              // 确认id，MustAck策略使用
+    requestSeq: number,         // 所属请求的序列号，不是请求时为0，请求失败时从队列中移除
+}
+
+// 等待响应的请求
+interface PendingRequest extends RequestObject {
+    cmd: number,                // 请求指令
+    seq: number,                // 请求序列号
+    timer: any,                 // 超时定时器
+    reject: (reason: NetRequestError) => void,
+}
 
 export enum NetTipsType {
     Connecting,
@@ -28,12 +52,31 @@ export enum NetNodeState {
     Working,                    // 可传输数据
 }
 
+export enum NetCloseReason {
+    Normal,                     // 主动关闭
+    Abnormal,                   // 连接异常断开
+    Timeout,                    // 长时间未收到数据
+    HandshakeFailed,            // 握手失败或超时
+}
+
+export interface NetReconnectOptions {
+    strategy?: 'fixed' | 'exponential' | ((attempt: number) => number),  // 退避策略，默认fixed；函数返回第attempt次（从1开始）重连前的等待时间
+    delay?: number,             // 重连间隔，指数退避时为首次间隔，默认3000
+    maxDelay?: number,          // 最大重连间隔，默认30000
+    factor?: number,            // 指数退避倍数，默认2
+    jitter?: number,            // 随机抖动比例（0~1），实际间隔在 间隔*(1-jitter) 到 间隔 之间，默认0
+}
+
 export interface NetConnectOptions {
     host?: string,              // 地址
     port?: number,              // 端口
     protocol?: string,          // websocket ws wss
     url?: string,               // url，与地址+端口二选一
     autoReconnect?: number,     // -1 永久重连，0不自动重连，其他正整数为自动重试次数
+    reconnect?: NetReconnectOptions,    // 重连退避选项
+    heartTime?: number,         // 心跳间隔，默认3000
+    receiveTime?: number,       // 多久没收到数据断开，默认6000
+    pauseInBackground?: boolean,        // 应用切到后台时暂停重连，回到前台后立即重连
 }
 
 export class NetNode {
@@ -46,7 +89,7 @@ export class NetNode {
 
     protected _networkTips: INetworkTips = null;                            // 网络提示ui对象（请求提示、断线重连提示等）
     protected _protocolHelper: IProtocolHelper = null;                      // 包解析对象
-    protected _disconnectCallback: (event: CloseEvent) => void = null;                         // 断线回调
+    protected _disconnectCallback: (event: CloseEvent, reason: NetCloseReason) => void = null; // 断线回调
     protected _callbackExecuter: ExecuterFunc = null;                       // 回调执行
 
     protected _keepAliveTimer: any = null;                                  // 心跳定时器
@@ -56,6 +99,25 @@ export class NetNode {
     protected _receiveTime: number = 6000;                                  // 多久没收到数据断开
     protected _reconnetTimeOut: number = 3000;                              // 重连间隔
     protected _listener: { [key: number]: CallbackObject[] } = {}           // 监听者列表
+    protected _requestTimeout: number = 10000;                              // 请求默认超时时间
+    protected _requestSeq: number = 0;                                      // 最后一次请求的序列号
+    protected _requests: Map<number, PendingRequest> = new Map();           // 等待响应的请求，key为序列号
+    protected _isReconnecting: boolean = false;                             // 是否在等待自动重连
+    protected _handshake: HandshakeFunc = null;                             // 握手回调，连接成功后执行，成功后才进入Working
+    protected _handshakeTimeout: number = 10000;                            // 握手超时时间
+    protected _handshakeTimer: any = null;                                  // 握手超时定时器
+    protected _connectId: number = 0;                                       // 连接成功或断开时递增，用于忽略过期的握手结果
+    protected _closeReason: NetCloseReason = null;                          // 本次断开的原因
+    protected _reconnectAttempts: number = 0;                               // 本次断线后已尝试重连的次数
+    protected _reconnectPaused: boolean = false;                            // 是否暂停重连
+    protected _reconnectPending: boolean = false;                           // 暂停期间是否有待执行的重连
+
+    public name: string = 'default';                                        // 节点名称，用于区分重连事件的来源
+    protected _sendPolicy: NetSendPolicy = NetSendPolicy.Drop;              // 默认发送策略
+    protected _sendQueueLimit: number = 100;                                // 发送队列上限（包括等待确认的消息）
+    protected _sendQueue: QueuedMessage[] = [];                             // 未连接时缓存的消息
+    protected _unackedMessages: Map<number, QueuedMessage> = new Map();     // 已发送未确认的消息，key为ackId
+    protected _middlewares: INetMiddleware[] = [];                          // 收发数据的中间件
 
     /********************** 网络相关处理 *********************/
     public init(socket: ISocket, protocol: IProtocolHelper, networkTips: INetworkTips = null, execFunc: ExecuterFunc = null) {
@@ -74,6 +136,7 @@ export class NetNode {
                 this.initSocket();
             }
             this._state = NetNodeState.Connecting;
+            this._closeReason = null;
             if (!this._socket.connect(options)) {
                 this.updateNetTips(NetTipsType.Connecting, false);
                 return false;
@@ -81,8 +144,13 @@ export class NetNode {
             if(!isReconnect) {
                 this._connectOptions = options;
                 this._autoReconnect = options.autoReconnect ?? 0;
+                this._heartTime = options.heartTime ?? 3000;
+                this._receiveTime = options.receiveTime ?? 6000;
+                this._reconnectAttempts = 0;
+                this.bindAppLifecycle(!!options.pauseInBackground);
             }
             this.updateNetTips(NetTipsType.Connecting, true);
+            this.emitEvent('ON_NET_CONNECTING', this.name, isReconnect);
             return true;
         }
         return false;
@@ -90,7 +158,7 @@ export class NetNode {
 
     protected initSocket() {
         this._socket.onConnected = (event) => { this.onConnected(event) };
-        this._socket.onMessage = (msg) => { this.onMessage(msg) };
+        this._socket.onMessage = (msg) => { this.onReceive(msg) };
         this._socket.onError = (event) => { this.onError(event) };
         this._socket.onClosed = (event) => { this.onClosed(event) };
         this._isSocketInit = true;
@@ -110,10 +178,83 @@ export class NetNode {
     protected onConnected(event: Event) {
         log.debug("NetNode onConnected!")
         this._isSocketOpen = true;
+        this._isReconnecting = false;
+        this._connectId++;
+        // 丢弃上一个连接残留的半包
+        this._protocolHelper.reset?.();
+        if (this._handshake) {
+            this._state = NetNodeState.Checking;
+            this.runHandshake(this._connectId);
+        } else {
+            this.onWorking();
+        }
+    }
+
+    // 握手成功或无需握手，进入可传输数据状态
+    protected onWorking() {
         this._state = NetNodeState.Working;
         // 关闭连接或重连中的状态显示
         this.updateNetTips(NetTipsType.Connecting, false);
         this.updateNetTips(NetTipsType.ReConnecting, false);
+        this.emitEvent('ON_NET_WORKING', this.name);
+        if (this._reconnectAttempts > 0) {
+            this.emitEvent('ON_NET_RECONNECT_SUCCESS', this.name, this._reconnectAttempts);
+            this._reconnectAttempts = 0;
+        }
+        this.flushSendQueue();
+    }
+
+    protected runHandshake(connectId: number) {
+        let finished = false;
+        let finish = (error?: any) => {
+            // 已超时、已断开或已重新连接时忽略结果
+            if (finished || connectId != this._connectId || this._state != NetNodeState.Checking) {
+                return;
+            }
+            finished = true;
+            if (this._handshakeTimer !== null) {
+                clearTimeout(this._handshakeTimer);
+                this._handshakeTimer = null;
+            }
+            if (error === undefined) {
+                log.debug("NetNode handshake success!");
+                this.onWorking();
+            } else {
+                this.onHandshakeFailed(error);
+            }
+        };
+        if (this._handshakeTimeout > 0) {
+            this._handshakeTimer = setTimeout(() => {
+                finish(new Error(`NetNode handshake timeout after ${this._handshakeTimeout}ms`));
+            }, this._handshakeTimeout);
+        }
+        Promise.resolve()
+            .then(() => this._handshake(this))
+            .then(() => finish(), (error) => finish(error ?? new Error("NetNode handshake failed")));
+    }
+
+    // 握手失败时断开连接且不自动重连
+    protected onHandshakeFailed(error: any) {
+        log.error("NetNode handshake failed!", error);
+        this._closeReason = NetCloseReason.HandshakeFailed;
+        this.rejectReconnect();
+        this.rejectRequests('CLOSED');
+        this._socket.close();
+    }
+
+    // 接收到一帧数据，流式协议先拆分为完整的消息包
+    protected onReceive(data: NetData): void {
+        let packages = this._protocolHelper.unpack ? this._protocolHelper.unpack(data) : [data];
+        if (packages.length == 0) {
+            // 收到半包也说明连接正常
+            this.resetReceiveMsgTimer();
+        }
+        for (const msg of packages) {
+            let restored = this.applyInbound(msg);
+            if (restored !== null) {
+                this.onMessage(restored);
+            }
+        }
     }
 
     // 接收到一个完整的消息包
@@ -126,12 +267,25 @@ export class NetNode {
         }
         // 接受到数据，重新定时收数据计时器
         this.resetReceiveMsgTimer();
+        // 服务器确认的消息不再重发
+        let ackId = this._protocolHelper.getAckId ? this._protocolHelper.getAckId(msg) : 0;
+        if (ackId) {
+            this._unackedMessages.delete(ackId);
+        }
         // 重置心跳包发送器 不能重置 服务器收不到心跳包会踢出
         // this.resetHearbeatTimer();
         // 触发消息执行
         let rspCmd = this._protocolHelper.getPackageId(msg);
         // log.printDebug(`NetNode onMessage rspCmd = ` + rspCmd);
 
+        // 请求的响应交给请求处理，不再分发给监听者；确认包的seq是ackId而非请求序列号，不参与请求匹配
+        let request = ackId ? null : this.findRequest(rspCmd, msg);
+        if (request) {
+            this.finishRequest(request);
+            this._callbackExecuter(request.rspObject, msg);
+            return;
+        }
+
         let listeners = this._listener[rspCmd];
         if (null != listeners) {
             for (const rsp of listeners) {
@@ -147,28 +301,119 @@ export class NetNode {
 
     protected onClosed(event: CloseEvent) {
         log.debug(`onClosed!`);
+        this._closeReason = this._closeReason ?? NetCloseReason.Abnormal;
         this.clearTimer();
+        // 进行中的握手随连接断开失效，握手请求被拒绝后不再按握手失败处理
+        this._connectId++;
+        this.rejectRequests('CLOSED');
+        let code = event?.code ?? 0;
         // 自动重连
         if (this.isAutoReconnect()) {
+            this._isReconnecting = true;
             this.updateNetTips(NetTipsType.ReConnecting, true);
-            this._reconnectTimer = setTimeout(() => {
-                this._socket.close();
-                this._state = NetNodeState.Closed;
-                this.connect(this._connectOptions, true);
-                if (this._autoReconnect > 0) {
-                    this._autoReconnect -= 1;
-                }
-            }, this._reconnetTimeOut);
+            this.emitEvent('ON_NET_RECONNECTING', this.name, code, this._closeReason);
+            this.scheduleReconnect();
         } else {
+            this._isReconnecting = false;
             this.updateNetTips(NetTipsType.ReConnecting, false);
             this._state = NetNodeState.Closed;
-            this._disconnectCallback && this._disconnectCallback(event)
+            if (this._reconnectAttempts > 0) {
+                this.emitEvent('ON_NET_RECONNECT_FAILED', this.name, this._reconnectAttempts, this._closeReason);
+                this._reconnectAttempts = 0;
+            }
+            this.emitEvent('ON_NET_CLOSED', this.name, code, this._closeReason);
+            this._disconnectCallback && this._disconnectCallback(event, this.getCloseReason())
+        }
+    }
+
+    // 安排下一次重连，暂停期间等待恢复
+    protected scheduleReconnect(delay?: number) {
+        if (this._reconnectPaused) {
+            this._reconnectPending = true;
+            return;
+        }
+        let attempt = ++this._reconnectAttempts;
+        delay = delay ?? this.getReconnectDelay(attempt);
+        this.emitEvent('ON_NET_RECONNECT_ATTEMPT', this.name, attempt, delay);
+        this._reconnectTimer = setTimeout(() => {
+            this._reconnectTimer = null;
+            this._socket.close();
+            this._state = NetNodeState.Closed;
+            this.connect(this._connectOptions, true);
+            if (this._autoReconnect > 0) {
+                this._autoReconnect -= 1;
+            }
+        }, delay);
+    }
+
+    // 第attempt次重连前的等待时间
+    protected getReconnectDelay(attempt: number) {
+        let options = this._connectOptions?.reconnect ?? {};
+        let { strategy = 'fixed', delay = this._reconnetTimeOut, maxDelay = 30000, factor = 2, jitter = 0 } = options;
+        let time: number;
+        if (typeof strategy == 'function') {
+            time = strategy(attempt);
+        } else if (strategy == 'exponential') {
+            time = delay * Math.pow(factor, attempt - 1);
+        } else {
+            time = delay;
+        }
+        time = Math.min(time, maxDelay);
+        if (jitter > 0) {
+            time -= time * Math.min(jitter, 1) * Math.random();
+        }
+        return Math.max(0, Math.round(time));
+    }
+
+    // 暂停重连，已安排的重连会在恢复后立即执行
+    public pauseReconnect() {
+        this._reconnectPaused = true;
+        if (this._reconnectTimer !== null) {
+            clearTimeout(this._reconnectTimer);
+            this._reconnectTimer = null;
+            this._reconnectAttempts = Math.max(0, this._reconnectAttempts - 1);
+            this._reconnectPending = true;
+        }
+    }
+
+    // 恢复重连，暂停期间断线或有待执行的重连时立即重连
+    public resumeReconnect() {
+        this._reconnectPaused = false;
+        if (this._reconnectPending) {
+            this._reconnectPending = false;
+            if (this.isAutoReconnect()) {
+                this.scheduleReconnect(0);
+            }
+        }
+    }
+
+    // 通过框架事件管理器发送事件，框架未启动时忽略
+    protected emitEvent<K extends FWEventName>(event: K, ...args: IFWEvents[K]) {
+        globalThis.app?.manager?.event?.emit(event, ...args);
+    }
+
+    // 跟随应用前后台切换暂停与恢复重连
+    protected bindAppLifecycle(enabled: boolean) {
+        let event = globalThis.app?.manager?.event;
+        if (!event) {
+            return;
+        }
+        event.off(event.events.ON_APP_PAUSE, this.pauseReconnect, this);
+        event.off(event.events.ON_APP_RESUME, this.resumeReconnect, this);
+        if (enabled) {
+            event.on(event.events.ON_APP_PAUSE, this.pauseReconnect, this);
+            event.on(event.events.ON_APP_RESUME, this.resumeReconnect, this);
         }
     }
 
     public close() {
+        this._closeReason = NetCloseReason.Normal;
+        this._reconnectAttempts = 0;
+        this.bindAppLifecycle(false);
         this.clearTimer();
         this.rejectReconnect()
+        this.rejectRequests('CLOSED');
+        this.clearSendQueue();
         // 关闭连接或重连中的状态显示
         this.updateNetTips(NetTipsType.Connecting, false);
         this.updateNetTips(NetTipsType.ReConnecting, false);
@@ -189,13 +434,40 @@ export class NetNode {
         }
     }
 
-    // 发起请求，如果当前处于重连中，进入缓存列表等待重连完成后发送
-    public send(buf: NetData): boolean {
-        if (this._state == NetNodeState.Working) {
+    // 发起请求，如果当前处于连接或重连中，按发送策略进入缓存列表等待连接完成后发送
+    public send(buf: NetData, options: NetSendOptions = {}): boolean {
+        let policy = options.policy ?? this._sendPolicy;
+        return this.sendMessage({ buffer: buf, policy, ackId: options.ackId ?? 0, requestSeq: 0 }, options.force);
+    }
+
+    // 按消息的发送策略写入Socket或进入缓存列表，force为true时握手验证中也立即发送
+    protected sendMessage(message: QueuedMessage, force?: boolean): boolean {
+        let buf = message.buffer;
+        let policy = message.policy;
+        if (policy == NetSendPolicy.MustAck && !message.ackId) {
+            log.error("NetNode send error! MustAck policy requires ackId");
+            return false;
+        }
+        let writable = this._state == NetNodeState.Working
+            || (force && this._state == NetNodeState.Checking);
+        if (writable && !this._isReconnecting) {
             // 重置心跳包发送器
             this.resetHearbeatTimer();
-            return this._socket.send(buf);
-        } else if (this._state == NetNodeState.Connecting) {
+            if (policy == NetSendPolicy.MustAck) {
+                if (!this._unackedMessages.has(message.ackId) && !this.checkSendQueueLimit()) {
+                    return false;
+                }
+                this._unackedMessages.set(message.ackId, message);
+            }
+            if (this.writeSocket(buf)) {
+                return true;
+            }
+            // socket已不可写，等待断线重连后发送
+            return policy == NetSendPolicy.MustAck || (policy == NetSendPolicy.Queue && this.enqueueMessage(message));
+        } else if (this.isWaitingConnect()) {
+            if (policy != NetSendPolicy.Drop) {
+                return this.enqueueMessage(message);
+            }
             log.debug("NetNode socket is busy! current state is " + this._state);
             return false;
         } else {
@@ -203,6 +475,291 @@ export class NetNode {
             return false;
         }
     }
+
+    // 添加中间件，发出的包按添加顺序处理，收到的包按相反顺序还原，需在init之后调用
+    public use(middleware: INetMiddleware): boolean {
+        if (!this._protocolHelper?.repack) {
+            log.error("NetNode use middleware error! protocol helper does not support repack");
+            return false;
+        }
+        if (this._middlewares.some(item => item.name == middleware.name || (item.flag & middleware.flag))) {
+            log.error(`NetNode use middleware error! name or flag of ${middleware.name} is already used`);
+            return false;
+        }
+        this._middlewares.push(middleware);
+        return true;
+    }
+
+    public removeMiddleware(name: string) {
+        this._middlewares = this._middlewares.filter(item => item.name != name);
+    }
+
+    public getMiddleware<T extends INetMiddleware>(name: string): T {
+        return this._middlewares.find(item => item.name == name) as T ?? null;
+    }
+
+    // 经过中间件处理后写入socket，消息在发送时才处理，队列中保存的是原始数据
+    protected writeSocket(buf: NetData): boolean {
+        try {
+            buf = this.applyOutbound(buf);
+        } catch (error) {
+            log.error("NetNode middleware outbound error!", error);
+            return false;
+        }
+        return this._socket.send(buf);
+    }
+
+    protected applyOutbound(buf: NetData): NetData {
+        if (this._middlewares.length == 0) {
+            return buf;
+        }
+        let cmd = this._protocolHelper.getPackageId(buf);
+        let flags = this._protocolHelper.getFlags(buf);
+        let body = this._protocolHelper.getBody(buf);
+        let applied = 0;
+        for (const middleware of this._middlewares) {
+            let result = middleware.outbound(body, cmd);
+            if (result) {
+                body = result;
+                applied |= middleware.flag;
+            }
+        }
+        return applied ? this._protocolHelper.repack(buf, body, flags | applied) : buf;
+    }
+
+    // 按标记位逆序还原收到的包，失败时丢弃并返回null
+    protected applyInbound(msg: NetData): NetData {
+        if (this._middlewares.length == 0 || !this._protocolHelper.checkPackage(msg)) {
+            return msg;
+        }
+        try {
+            let flags = this._protocolHelper.getFlags(msg);
+            let applied = this._middlewares.filter(item => flags & item.flag);
+            if (applied.length == 0) {
+                return msg;
+            }
+            let cmd = this._protocolHelper.getPackageId(msg);
+            let body = this._protocolHelper.getBody(msg);
+            for (let i = applied.length - 1; i >= 0; i--) {
+                body = applied[i].inbound(body, cmd);
+                flags &= ~applied[i].flag;
+            }
+            return this._protocolHelper.repack(msg, body, flags);
+        } catch (error) {
+            log.error("NetNode middleware inbound error!", error);
+            return null;
+        }
+    }
+
+    // 设置默认发送策略
+    public setSendPolicy(policy: NetSendPolicy) {
+        this._sendPolicy = policy;
+    }
+
+    // 设置发送队列上限
+    public setSendQueueLimit(limit: number) {
+        this._sendQueueLimit = limit;
+    }
+
+    // 缓存中等待发送或确认的消息数量
+    public getQueuedMessageCount() {
+        return this._sendQueue.length + this._unackedMessages.size;
+    }
+
+    // 清空发送队列与等待确认的消息
+    public clearSendQueue() {
+        this._sendQueue = [];
+        this._unackedMessages.clear();
+    }
+
+    // 是否处于连接、验证或等待重连中
+    protected isWaitingConnect() {
+        return this._isReconnecting
+            || this._state == NetNodeState.Connecting
+            || this._state == NetNodeState.Checking;
+    }
+
+    protected checkSendQueueLimit() {
+        if (this.getQueuedMessageCount() >= this._sendQueueLimit) {
+            log.warn(`NetNode send queue is full! limit = ${this._sendQueueLimit}`);
+            return false;
+        }
+        return true;
+    }
+
+    protected enqueueMessage(message: QueuedMessage) {
+        if (message.policy == NetSendPolicy.MustAck && this._unackedMessages.has(message.ackId)) {
+            // 已在等待确认，重连后会重发
+            return true;
+        }
+        if (!this.checkSendQueueLimit()) {
+            return false;
+        }
+        this._sendQueue.push(message);
+        return true;
+    }
+
+    // 连接成功后先重发未确认的消息，再按顺序发送缓存的消息
+    protected flushSendQueue() {
+        let messages = Array.from(this._unackedMessages.values()).concat(this._sendQueue);
+        this._sendQueue = [];
+        for (let i = 0; i < messages.length; i++) {
+            let message = messages[i];
+            if (message.policy == NetSendPolicy.MustAck) {
+                this._unackedMessages.set(message.ackId, message);
+            }
+            if (!this.writeSocket(message.buffer)) {
+                // 连接再次断开，剩余的消息留到下次连接，MustAck消息已在等待确认列表中
+                this._sendQueue = messages.slice(i).filter(item => item.policy != NetSendPolicy.MustAck);
+                return;
+            }
+        }
+        if (messages.length > 0) {
+            this.resetHearbeatTimer();
+        }
+    }
+    /**
+     * 发起请求并等待响应
+     * 请求包由协议辅助对象的encodePackage编码，响应按getPackageSeq返回的序列号匹配，包头没有序列号时需要传入rspCmd
+     * 超时、发送失败、响应解码失败、连接断开或节点关闭时reject NetRequestError
+     * @param cmd 请求指令
+     * @param payload 请求数据
+     * @param options 请求选项
+     * @returns 响应数据，协议辅助对象实现了decodePackage时为解码后的数据
+     *
+     * @example
+     * ```typescript
+     * let rsp = await node.request<LoginReq, LoginRsp>(Cmd.Login, { token }, { timeout: 5000 });
+     * ```
+     */
+    public request<TReq = any, TRsp = any>(cmd: number, payload: TReq, options: NetRequestOptions = {}): Promise<TRsp> {
+        let seq = this.nextRequestSeq();
+        return new Promise<TRsp>((resolve, reject) => {
+            if (!this._protocolHelper?.encodePackage) {
+                reject(new NetRequestError('UNSUPPORTED', cmd, seq, `NetNode request ${cmd} failed: protocol helper does not implement encodePackage`));
+                return;
+            }
+            if (options.rspCmd == null && !this.hasPackageSeq()) {
+                reject(new NetRequestError('UNSUPPORTED', cmd, seq, `NetNode request ${cmd} failed: package has no seq, rspCmd is required`));
+                return;
+            }
+            let request: PendingRequest = {
+                cmd,
+                seq,
+                buffer: this._protocolHelper.encodePackage(cmd, seq, payload),
+                rspCmd: options.rspCmd,
+                rspObject: {
+                    target: null,
+                    callback: (msg: NetData) => {
+                        let rsp: TRsp;
+                        try {
+                            rsp = this._protocolHelper.decodePackage ? this._protocolHelper.decodePackage(msg) : msg;
+                        } catch (err) {
+                            log.error(`NetNode request ${cmd} (seq ${seq}) decode error`, err);
+                            reject(new NetRequestError('DECODE', cmd, seq, `NetNode request ${cmd} (seq ${seq}) decode failed: ${err?.message ?? err}`));
+                            return;
+                        }
+                        resolve(rsp);
+                    },
+                },
+                timer: null,
+                reject,
+            };
+            this._requests.set(seq, request);
+            let message: QueuedMessage = { buffer: request.buffer, policy: options.policy ?? NetSendPolicy.Drop, ackId: 0, requestSeq: seq };
+            if (!this.sendMessage(message, options.force)) {
+                this.finishRequest(request);
+                reject(new NetRequestError('SEND_FAILED', cmd, seq));
+                return;
+            }
+            let timeout = options.timeout ?? this._requestTimeout;
+            if (timeout > 0) {
+                request.timer = setTimeout(() => {
+                    this.finishRequest(request);
+                    this.removeQueuedRequest(seq);
+                    reject(new NetRequestError('TIMEOUT', cmd, seq, `NetNode request ${cmd} (seq ${seq}) timeout after ${timeout}ms`));
+                }, timeout);
+            }
+        });
+    }
+
+    // 设置请求默认超时时间（毫秒），0为不超时
+    public setRequestTimeout(timeout: number) {
+        this._requestTimeout = timeout;
+    }
+
+    // 等待响应的请求数量
+    public getPendingRequestCount() {
+        return this._requests.size;
+    }
+
+    protected nextRequestSeq() {
+        // 序列号从1开始，0留给推送消息
+        let maxSeq = this._protocolHelper.getMaxSeq ? this._protocolHelper.getMaxSeq() : 0x7fffffff;
+        this._requestSeq = this._requestSeq >= maxSeq ? 1 : this._requestSeq + 1;
+        return this._requestSeq;
+    }
+
+    // 协议是否能按序列号匹配响应
+    protected hasPackageSeq() {
+        if (!this._protocolHelper.getPackageSeq) {
+            return false;
+        }
+        return this._protocolHelper.hasPackageSeq ? this._protocolHelper.hasPackageSeq() : true;
+    }
+
+    // 查找消息对应的请求，协议未实现序列号或包头没有序列号时按rspCmd先到先得匹配
+    protected findRequest(rspCmd: number, msg: NetData): PendingRequest {
+        if (this._requests.size == 0) {
+            return null;
+        }
+        let seq = this._protocolHelper.getPackageSeq ? this._protocolHelper.getPackageSeq(msg) : undefined;
+        if (seq != null) {
+            let request = this._requests.get(seq);
+            if (request && (request.rspCmd == null || request.rspCmd == rspCmd)) {
+                return request;
+            }
+            return null;
+        }
+        for (const request of this._requests.values()) {
+            if (request.rspCmd != null && request.rspCmd == rspCmd) {
+                return request;
+            }
+        }
+        return null;
+    }
+
+    protected finishRequest(request: PendingRequest) {
+        if (request.timer !== null) {
+            clearTimeout(request.timer);
+            request.timer = null;
+        }
+        this._requests.delete(request.seq);
+    }
+
+    // 取消所有等待响应的请求
+    protected rejectRequests(code: NetRequestErrorCode) {
+        let requests = Array.from(this._requests.values());
+        this._requests.clear();
+        for (const request of requests) {
+            if (request.timer !== null) {
+                clearTimeout(request.timer);
+            }
+            this.removeQueuedRequest(request.seq);
+            request.reject(new NetRequestError(code, request.cmd, request.seq));
+        }
+    }
+
+    // 移除失败请求缓存中尚未发送或未确认的消息，避免重连后服务器仍收到已失败的请求
+    protected removeQueuedRequest(seq: number) {
+        this._sendQueue = this._sendQueue.filter(message => message.requestSeq != seq);
+        for (const [ackId, message] of this._unackedMessages) {
+            if (message.requestSeq == seq) {
+                this._unackedMessages.delete(ackId);
+            }
+        }
+    }
+
     /********************** 回调相关处理 *********************/
     public setResponeHandler(cmd: number, callback: NetCallFunc, target?: any): boolean {
         if (callback == null) {
@@ -266,6 +823,7 @@ export class NetNode {
         }
         this._receiveMsgTimer = setTimeout(() => {
             log.warn("NetNode recvieMsgTimer close socket!");
+            this._closeReason = NetCloseReason.Timeout;
             this._socket.close();
         }, this._receiveTime);
     }
@@ -278,7 +836,7 @@ export class NetNode {
             // !app.func.isTest() && log.printDebug("NetNode keepAliveTimer send Hearbeat");
             const data = this._protocolHelper.getHearbeat();
             if (data) {
-                this.send(data);
+                this.send(data, { policy: NetSendPolicy.Drop });
             }
         }, this._heartTime);
     }
@@ -293,6 +851,10 @@ export class NetNode {
         if (this._reconnectTimer !== null) {
             clearTimeout(this._reconnectTimer);
         }
+        if (this._handshakeTimer !== null) {
+            clearTimeout(this._handshakeTimer);
+            this._handshakeTimer = null;
+        }
     }
 
     public isAutoReconnect() {
@@ -301,9 +863,48 @@ export class NetNode {
 
     public rejectReconnect() {
         this._autoReconnect = 0;
+        this._isReconnecting = false;
+        this._reconnectPending = false;
         this.clearTimer();
     }
 
+    /**
+     * 设置握手回调
+     * 连接成功后进入Checking状态并执行握手（如登录、token验证、版本协商），成功后才进入Working
+     * Checking状态下普通消息按发送策略缓存，握手中的消息需要以force选项发送
+     * 握手失败或超时会断开连接且不自动重连，断开原因为HandshakeFailed
+     * @param handshake 握手回调，返回的Promise reject或抛出异常表示失败，传null取消握手
+     * @param timeout 握手超时时间（毫秒），0为不超时
+     *
+     * @example
+     * ```typescript
+     * node.setHandshake(async (node) => {
+     *     let rsp = await node.request<LoginReq, LoginRsp>(Cmd.Login, { token }, { force: true });
+     *     if (rsp.code != 0) {
+     *         throw new Error(rsp.msg);
+     *     }
+     * });
+     * ```
+     */
+    public setHandshake(handshake: HandshakeFunc, timeout: number = this._handshakeTimeout) {
+        this._handshake = handshake;
+        this._handshakeTimeout = timeout;
+    }
+
+    // 设置断线回调，自动重连结束或不重连时调用
+    public setDisconnectCallback(callback: (event: CloseEvent, reason: NetCloseReason) => void) {
+        this._disconnectCallback = callback;
+    }
+
+    // 最近一次断开的原因，连接后未断开过时返回null
+    public getCloseReason() {
+        return this._closeReason;
+    }
+
+    public getState() {
+        return this._state;
+    }
+
     public isWorking() {
         return this._state == NetNodeState.Working;
     }
@@ -1,6 +1,14 @@
 export * from './FWHttp';
+export * from './HttpRetry';
+export * from './FWHttpCache';
+export * from './FWHttpDownloader';
 export * from './NetNode';
 export * from './NetManager';
 export * from './NetInterface';
+export * from './NetCodec';
+export * from './BinaryProtocol';
+export * from './NetDeflate';
+export * from './NetMiddleware';
 export * from './WebSock';
-export * from './FWAxios';
\ No newline at end of file
+export * from './FWAxios';
+export * from './FWAxiosUIAdapter';
\ No newline at end of file
@@ -81,7 +81,8 @@ export class FWUIDialog extends Component {
     }
 
     onDestroy() {
-        app.manager.ui.dialog.removeDialog(this);
+        // 节点在帧末才真正销毁，框架可能已先一步销毁
+        app?.manager.ui.dialog.removeDialog(this);
     }
 }
 
@@ -1,4 +1,4 @@
-import { _decorator, Component, EventTouch, Node, tween, UIOpacity, Vec3 } from 'cc';
+import { _decorator, color, Component, EventTouch, Label, Node, tween, UIOpacity, UITransform, Vec3 } from 'cc';
 import { func } from '../common/FWFunction';
 const { ccclass, property } = _decorator;
 
@@ -78,7 +78,8 @@ export class FWUILoading extends Component {
     }
 
     onDestroy() {
-        app.manager.ui.loading.remove(this);
+        // 节点在帧末才真正销毁，框架可能已先一步销毁
+        app?.manager.ui.loading.remove(this);
     }
 }
 
@@ -91,6 +92,39 @@ export class FWUILoadingPoolNode extends FWUILoading {
         }
     }
 }
+/**
+ * 网络请求的加载提示，由{@link FWUILoadingManager.beginRequest}统一显示与隐藏
+ */
+@ccclass('FWUIRequestLoading')
+export class FWUIRequestLoading extends FWUILoading {
+    /** 文本，取自身或子节点上的Label */
+    label: Label;
+
+    protected __preload(): void {
+        super.__preload();
+        this.label = this.node.getComponentInChildren(Label);
+    }
+
+    setText(text: string) {
+        if (this.label) {
+            this.label.string = text;
+        }
+    }
+
+    /**
+     * 创建默认样式的请求加载提示：居中的白色文本
+     */
+    static createDefault(): FWUIRequestLoading {
+        let node = new Node('requestLoading');
+        node.addComponent(UITransform);
+        let label = node.addComponent(Label);
+        label.fontSize = 32;
+        label.lineHeight = 40;
+        label.color = color(255, 255, 255, 255);
+        return node.addComponent(FWUIRequestLoading);
+    }
+}
+
 // const scaleShow = new Vec3(1,1,1);
 // const scaleHide = new Vec3(0,0,0);
 
@@ -0,0 +1,109 @@
+import { _decorator, color, Component, Graphics, Label, Node, tween, UIOpacity, UITransform } from 'cc';
+const { ccclass, property } = _decorator;
+
+@ccclass('FWUIToast')
+export class FWUIToast extends Component {
+    /** 文本，取自身或子节点上的Label */
+    label: Label;
+    uiOpacity: UIOpacity;
+    /** 背景与文本的边距 */
+    padding = 20;
+
+    protected __preload(): void {
+        this.label = this.node.getComponentInChildren(Label);
+        this.uiOpacity = this.node.getComponent(UIOpacity) ?? this.node.addComponent(UIOpacity);
+    }
+
+    /**
+     * 显示
+     * @param text 提示文本
+     * @param duration 显示时长（秒），不传时使用管理器的默认时长
+     */
+    show(text: string, duration?: number) {
+        // 先挂到根节点上，节点激活后__preload才会执行
+        app.manager.ui.toast.add(this, duration);
+        this.setText(text);
+        this.playShowAnim();
+    }
+
+    /**
+     * 隐藏并销毁
+     */
+    hide() {
+        app.manager.ui.toast.remove(this);
+        this.playHideAnim();
+    }
+
+    get text() {
+        return this.label?.string ?? '';
+    }
+
+    setText(text: string) {
+        if (this.label) {
+            this.label.string = text;
+        }
+        this.layout();
+    }
+
+    get height() {
+        return this.node.getComponent(UITransform)?.height ?? 0;
+    }
+
+    /**
+     * 按文本尺寸调整节点尺寸，节点上有Graphics时重绘背景
+     */
+    layout() {
+        if (!this.label) {
+            return;
+        }
+        this.label.updateRenderData(true);
+        let labelTran = this.label.getComponent(UITransform);
+        let uiTran = this.node.getComponent(UITransform);
+        if (this.label.node != this.node && labelTran && uiTran) {
+            uiTran.setContentSize(labelTran.width + this.padding * 2, labelTran.height + this.padding);
+        }
+        let graphics = this.node.getComponent(Graphics);
+        if (graphics && uiTran) {
+            graphics.clear();
+            graphics.roundRect(-uiTran.width * uiTran.anchorX, -uiTran.height * uiTran.anchorY, uiTran.width, uiTran.height, 10);
+            graphics.fill();
+        }
+    }
+
+    playShowAnim() {
+        this.uiOpacity.opacity = 0;
+        tween(this.uiOpacity)
+            .to(0.2, { opacity: 255 })
+            .start();
+    }
+
+    playHideAnim() {
+        tween(this.uiOpacity)
+            .to(0.2, { opacity: 0 })
+            .call(() => this.node.destroy())
+            .start();
+    }
+
+    onDestroy() {
+        // 节点在帧末才真正销毁，框架可能已先一步销毁
+        app?.manager.ui.toast.remove(this);
+    }
+
+    /**
+     * 创建默认样式的提示：半透明圆角背景 + 白色文本
+     */
+    static createDefault(): FWUIToast {
+        let node = new Node('toast');
+        node.addComponent(UITransform);
+        let graphics = node.addComponent(Graphics);
+        graphics.fillColor = color(0, 0, 0, 200);
+        let labelNode = new Node('label');
+        labelNode.addComponent(UITransform);
+        let label = labelNode.addComponent(Label);
+        label.fontSize = 28;
+        label.lineHeight = 40;
+        label.color = color(255, 255, 255, 255);
+        labelNode.parent = node;
+        return node.addComponent(FWUIToast);
+    }
+}
@@ -2,4 +2,5 @@ export * from './FWUIRoot';
 export * from './FWUILoading';
 export * from './FWUIDialog';
 export * from './FWUIDialogLoading';
-export * from './FWUIMask';
\ No newline at end of file
+export * from './FWUIMask';
+export * from './FWUIToast';
\ No newline at end of file
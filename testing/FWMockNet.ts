@@ -0,0 +1,475 @@
+import { DefStringProtocol, IProtocolHelper, ISocket, NetData } from '../assets/network/NetInterface';
+
+/**
+ * 服务器对收到的消息的响应
+ * 返回的数据会发回给客户端，返回数组时依次发送，不返回时不响应
+ */
+export type FWMockResponder = (msg: NetData, conn: FWMockConnection) => NetData | NetData[] | void;
+
+/**
+ * 模拟服务器选项
+ */
+export interface IMockNetServerOptions {
+    /** 用于读取消息指令的协议辅助对象，默认 DefStringProtocol（所有消息指令为 0） */
+    protocol?: IProtocolHelper;
+    /** 单程延迟（毫秒），传入 [min, max] 时每条消息随机取值，默认 0 */
+    latency?: number | [number, number];
+    /** 丢包率(0~1)，双向生效，默认 0 */
+    lossRate?: number;
+    /** 随机数函数，默认 Math.random，传入固定序列可使延迟与丢包可复现 */
+    random?: () => number;
+}
+
+/**
+ * 连接的传输层，负责把服务器的数据与关闭通知交给客户端
+ */
+export interface IMockTransport {
+    /** 把数据交给客户端 */
+    deliver(data: NetData): void;
+    /** 通知客户端连接已关闭 */
+    close(code: number, reason: string): void;
+}
+
+/**
+ * 服务器收到的消息
+ */
+export interface IMockReceivedMessage {
+    /** 发送消息的连接 */
+    conn: FWMockConnection;
+    /** 消息数据 */
+    data: NetData;
+    /** 消息的指令 */
+    cmd: number;
+}
+
+/**
+ * 服务器上的一个客户端连接
+ * 同一连接上的消息按发送顺序到达，随机延迟不会打乱顺序
+ */
+export class FWMockConnection {
+    /** 是否已关闭 */
+    closed: boolean = false;
+
+    /** 服务器到客户端方向最后一条消息的到达时间 */
+    private _lastDownTime: number = 0;
+
+    /** 客户端到服务器方向最后一条消息的到达时间 */
+    private _lastUpTime: number = 0;
+
+    /** 已安排但未执行的定时器 */
+    private _timers: Set<any> = new Set();
+
+    constructor(
+        /** 连接id，从 1 开始 */
+        readonly id: number,
+        /** 客户端的连接参数 */
+        readonly options: any,
+        private _server: FWMockNetServer,
+        private _transport: IMockTransport,
+    ) {
+    }
+
+    /**
+     * 向客户端发送数据，受延迟与丢包影响，服务器静默时丢弃
+     * @param data 数据
+     */
+    send(data: NetData) {
+        if (this.closed || this._server.muted || this._server.shouldDrop()) {
+            return;
+        }
+        this.scheduleDown(() => this._transport.deliver(data));
+    }
+
+    /**
+     * 服务器主动关闭连接
+     * 已发出的数据会先到达客户端
+     * @param code 关闭码，默认 1006（非正常关闭）
+     * @param reason 关闭原因
+     */
+    close(code: number = 1006, reason: string = '') {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this._server.removeConnection(this);
+        this.scheduleDown(() => this._transport.close(code, reason));
+    }
+
+    /**
+     * 收到客户端的数据，受延迟与丢包影响
+     * @param data 数据
+     */
+    receive(data: NetData) {
+        if (this.closed || this._server.shouldDrop()) {
+            return;
+        }
+        this.schedule(this._server.nextLatency(), 'up', () => {
+            if (!this.closed) {
+                this._server.handleMessage(this, data);
+            }
+        });
+    }
+
+    /**
+     * 客户端关闭连接
+     * @param code 关闭码
+     * @param reason 关闭原因
+     */
+    clientClose(code: number, reason: string = '') {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this._server.removeConnection(this);
+        this.scheduleDown(() => this._transport.close(code, reason));
+    }
+
+    /**
+     * 取消所有未到达的消息，不通知客户端
+     */
+    abort() {
+        this.closed = true;
+        this._timers.forEach(timer => clearTimeout(timer));
+        this._timers.clear();
+    }
+
+    private scheduleDown(callback: () => void) {
+        this.schedule(this._server.nextLatency(), 'down', callback);
+    }
+
+    private schedule(latency: number, direction: 'up' | 'down', callback: () => void) {
+        let now = Date.now();
+        let last = direction == 'up' ? this._lastUpTime : this._lastDownTime;
+        let time = Math.max(now + latency, last);
+        if (direction == 'up') {
+            this._lastUpTime = time;
+        } else {
+            this._lastDownTime = time;
+        }
+        let timer = setTimeout(() => {
+            this._timers.delete(timer);
+            callback();
+        }, time - now);
+        this._timers.add(timer);
+    }
+}
+
+/**
+ * 模拟服务器
+ * 在内存中按脚本响应客户端，可注入延迟、丢包、静默、拒绝连接与指定关闭码的断线
+ * 配合 FWMockSocket 测试 NetNode，配合 FWMockWebSocketServer 测试 WebSock
+ *
+ * 使用示例:
+ * ```typescript
+ * let helper = new BinaryProtocolHelper({ codecs });
+ * let server = new FWMockNetServer({ protocol: helper, latency: [10, 50] });
+ * server.handle(Cmd.Heartbeat, (msg) => msg);
+ * server.handle(Cmd.Login, (msg) => helper.encodePackage(Cmd.Login, helper.getPackageSeq(msg), { ok: true }));
+ *
+ * let node = new NetNode();
+ * node.init(new FWMockSocket(server), helper);
+ * node.connect({ url: 'mock://game', autoReconnect: 3 });
+ *
+ * server.disconnect(4001);     // 以 4001 断开所有连接
+ * server.refuse(2);            // 之后的 2 次连接被拒绝
+ * server.mute();               // 不再发送任何数据，用于测试心跳超时
+ * ```
+ */
+export class FWMockNetServer {
+    /** 单程延迟（毫秒） */
+    latency: number | [number, number];
+
+    /** 丢包率(0~1) */
+    lossRate: number;
+
+    /** 随机数函数 */
+    random: () => number;
+
+    /** 是否静默，静默时不向客户端发送任何数据 */
+    muted: boolean = false;
+
+    /** 收到的消息，按到达顺序排列 */
+    readonly received: IMockReceivedMessage[] = [];
+
+    /** 协议辅助对象 */
+    private _protocol: IProtocolHelper;
+
+    /** 按指令注册的响应 */
+    private _handlers: Map<number, FWMockResponder> = new Map();
+
+    /** 未注册指令的响应 */
+    private _defaultHandler: FWMockResponder = null;
+
+    /** 当前打开的连接 */
+    private _connections: FWMockConnection[] = [];
+
+    /** 剩余拒绝连接的次数 */
+    private _refuseCount: number = 0;
+
+    /** 拒绝连接时的关闭码 */
+    private _refuseCode: number = 1006;
+
+    /** 下一个连接的id */
+    private _nextId: number = 1;
+
+    constructor(options: IMockNetServerOptions = {}) {
+        this._protocol = options.protocol ?? new DefStringProtocol();
+        this.latency = options.latency ?? 0;
+        this.lossRate = options.lossRate ?? 0;
+        this.random = options.random ?? Math.random;
+    }
+
+    /**
+     * 当前打开的连接
+     */
+    get connections(): readonly FWMockConnection[] {
+        return this._connections;
+    }
+
+    /**
+     * 注册指令的响应
+     * @param cmd 指令
+     * @param responder 响应函数，或固定的响应数据
+     * @returns 返回自身以支持链式调用
+     */
+    handle(cmd: number, responder: FWMockResponder | NetData): this {
+        this._handlers.set(cmd, typeof responder == 'function' ? responder as FWMockResponder : () => responder as NetData);
+        return this;
+    }
+
+    /**
+     * 注册未匹配指令的响应
+     * @param responder 响应函数，传 null 时不响应
+     * @returns 返回自身以支持链式调用
+     */
+    handleDefault(responder: FWMockResponder): this {
+        this._defaultHandler = responder;
+        return this;
+    }
+
+    /**
+     * 移除指令的响应
+     * @param cmd 指令
+     */
+    removeHandler(cmd: number) {
+        this._handlers.delete(cmd);
+    }
+
+    /**
+     * 回显所有消息
+     * @returns 返回自身以支持链式调用
+     */
+    echo(): this {
+        return this.handleDefault(msg => msg);
+    }
+
+    /**
+     * 拒绝之后的连接
+     * @param count 拒绝次数，默认一直拒绝，传 0 取消
+     * @param code 拒绝时客户端收到的关闭码，默认 1006
+     */
+    refuse(count: number = Infinity, code: number = 1006) {
+        this._refuseCount = count;
+        this._refuseCode = code;
+    }
+
+    /**
+     * 设置静默，静默时服务器不发送任何数据（包括响应与推送），但连接保持
+     * @param muted 是否静默
+     */
+    mute(muted: boolean = true) {
+        this.muted = muted;
+    }
+
+    /**
+     * 向连接推送数据
+     * @param data 数据
+     * @param conn 目标连接，不传时推送给所有连接
+     */
+    push(data: NetData, conn?: FWMockConnection) {
+        (conn ? [conn] : this._connections.slice()).forEach(item => item.send(data));
+    }
+
+    /**
+     * 断开所有连接
+     * @param code 关闭码，默认 1006（非正常关闭）
+     * @param reason 关闭原因
+     */
+    disconnect(code: number = 1006, reason: string = '') {
+        this._connections.slice().forEach(conn => conn.close(code, reason));
+    }
+
+    /**
+     * 收到的指定指令的消息
+     * @param cmd 指令
+     */
+    getReceived(cmd: number): NetData[] {
+        return this.received.filter(item => item.cmd == cmd).map(item => item.data);
+    }
+
+    /**
+     * 重置服务器
+     * 直接丢弃所有连接与未到达的消息（不通知客户端），清空响应、收到的消息与故障设置
+     */
+    reset() {
+        this._connections.forEach(conn => conn.abort());
+        this._connections.length = 0;
+        this._handlers.clear();
+        this._defaultHandler = null;
+        this.received.length = 0;
+        this.muted = false;
+        this._refuseCount = 0;
+    }
+
+    /**
+     * 接受客户端连接，由传输层调用
+     * @param transport 连接的传输层
+     * @param options 客户端的连接参数
+     * @param onOpen 连接成功回调
+     * @returns 连接，拒绝时返回 null，并通过 transport.close 通知客户端
+     */
+    accept(transport: IMockTransport, options: any, onOpen: () => void): FWMockConnection {
+        let latency = this.nextLatency();
+        if (this._refuseCount > 0) {
+            this._refuseCount--;
+            let code = this._refuseCode;
+            setTimeout(() => transport.close(code, 'refused'), latency);
+            return null;
+        }
+        let conn = new FWMockConnection(this._nextId++, options, this, transport);
+        this._connections.push(conn);
+        setTimeout(() => {
+            if (!conn.closed) {
+                onOpen();
+            }
+        }, latency);
+        return conn;
+    }
+
+    /**
+     * 处理收到的消息
+     */
+    handleMessage(conn: FWMockConnection, data: NetData) {
+        let cmd = this._protocol.checkPackage(data) ? this._protocol.getPackageId(data) : -1;
+        this.received.push({ conn, data, cmd });
+        let responder = this._handlers.get(cmd) ?? this._defaultHandler;
+        if (!responder) {
+            return;
+        }
+        let result = responder(data, conn);
+        if (result === undefined || result === null) {
+            return;
+        }
+        let list = (Array.isArray(result) ? result : [result]) as NetData[];
+        list.forEach(item => conn.send(item));
+    }
+
+    /**
+     * 移除已关闭的连接
+     */
+    removeConnection(conn: FWMockConnection) {
+        let index = this._connections.indexOf(conn);
+        if (index != -1) {
+            this._connections.splice(index, 1);
+        }
+    }
+
+    /**
+     * 本条消息是否丢弃
+     */
+    shouldDrop() {
+        return this.lossRate > 0 && this.random() < this.lossRate;
+    }
+
+    /**
+     * 本条消息的延迟
+     */
+    nextLatency() {
+        if (Array.isArray(this.latency)) {
+            let [min, max] = this.latency;
+            return min + (max - min) * this.random();
+        }
+        return this.latency;
+    }
+}
+
+/**
+ * 连接模拟服务器的 ISocket 实现，用于代替 WebSock 测试 NetNode
+ * 回调时机与 WebSocket 一致：连接、消息与关闭都是异步回调，被拒绝时先回调 onError 再回调 onClosed
+ */
+export class FWMockSocket implements ISocket {
+    onConnected: (event) => void = null;
+    onMessage: (msg: NetData) => void = null;
+    onError: (event) => void = null;
+    onClosed: (event) => void = null;
+
+    /** 当前连接 */
+    private _conn: FWMockConnection = null;
+
+    /** 是否已打开 */
+    private _open: boolean = false;
+
+    constructor(readonly server: FWMockNetServer) {
+    }
+
+    /**
+     * 是否已打开
+     */
+    get isOpen() {
+        return this._open;
+    }
+
+    /**
+     * 服务器上对应的连接
+     */
+    get connection() {
+        return this._conn;
+    }
+
+    connect(options: any) {
+        if (this._conn) {
+            return false;
+        }
+        let refused = false;
+        let conn = this.server.accept({
+            deliver: (data) => {
+                if (this._conn === conn) {
+                    this.onMessage?.(data);
+                }
+            },
+            close: (code, reason) => {
+                // 已经发起了新的连接
+                if (this._conn !== conn) {
+                    return;
+                }
+                if (refused) {
+                    this.onError?.({ type: 'error' });
+                }
+                this._conn = null;
+                this._open = false;
+                this.onClosed?.({ type: 'close', code, reason, wasClean: code != 1006 });
+            },
+        }, options, () => {
+            this._open = true;
+            this.onConnected?.({ type: 'open' });
+        });
+        refused = conn === null;
+        this._conn = conn;
+        return true;
+    }
+
+    send(buffer: NetData) {
+        if (!this._open) {
+            return false;
+        }
+        this._conn.receive(buffer);
+        return true;
+    }
+
+    /**
+     * 客户端关闭连接，与浏览器一致，未传关闭码时客户端收到 1005
+     */
+    close(code: number = 1005, reason: string = '') {
+        this._conn?.clientClose(code, reason);
+    }
+}
@@ -0,0 +1,307 @@
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { NetData } from '../assets/network/NetInterface';
+import { FWMockConnection, FWMockNetServer, IMockTransport } from './FWMockNet';
+
+/** 握手时用于计算 Sec-WebSocket-Accept 的固定 GUID（RFC 6455） */
+const WebSocketGuid = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OpContinuation = 0x0;
+const OpText = 0x1;
+const OpBinary = 0x2;
+const OpClose = 0x8;
+const OpPing = 0x9;
+const OpPong = 0xa;
+
+/** 不能出现在关闭帧中的关闭码，服务器以这些码断开时直接断开 TCP 连接 */
+const ReservedCloseCodes = [1005, 1006, 1015];
+
+/**
+ * 服务器与一个 WebSocket 客户端之间的连接
+ * 负责握手、解析客户端的帧并把服务器的数据写成帧
+ */
+class WebSocketPeer implements IMockTransport {
+    conn: FWMockConnection = null;
+
+    /** 是否已完成握手 */
+    private _opened: boolean = false;
+
+    /** 是否已收到客户端的关闭帧 */
+    private _closeReceived: boolean = false;
+
+    /** 未解析的数据 */
+    private _buffer: Buffer = Buffer.alloc(0);
+
+    /** 分片消息的类型与已收到的分片 */
+    private _fragmentOpcode: number = 0;
+    private _fragments: Buffer[] = [];
+
+    constructor(private _socket: Socket, private _key: string) {
+        _socket.on('data', (data: Buffer) => this.onData(data));
+        _socket.on('close', () => this.conn?.clientClose(1006));
+        _socket.on('error', () => _socket.destroy());
+    }
+
+    /**
+     * 完成握手
+     */
+    open() {
+        if (this._socket.destroyed) {
+            return;
+        }
+        let accept = createHash('sha1').update(this._key + WebSocketGuid).digest('base64');
+        this._socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '', '',
+        ].join('\r\n'));
+        this._opened = true;
+    }
+
+    deliver(data: NetData) {
+        if (typeof data == 'string') {
+            this.writeFrame(OpText, Buffer.from(data, 'utf8'));
+        } else if (data instanceof ArrayBuffer) {
+            this.writeFrame(OpBinary, Buffer.from(data));
+        } else if (ArrayBuffer.isView(data)) {
+            this.writeFrame(OpBinary, Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+        } else {
+            throw new Error('FWMockWebSocketServer unsupported data type');
+        }
+    }
+
+    close(code: number, reason: string) {
+        if (this._socket.destroyed) {
+            return;
+        }
+        if (!this._opened) {
+            // 握手前关闭即拒绝连接
+            this._socket.end('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n');
+            return;
+        }
+        if (ReservedCloseCodes.indexOf(code) != -1) {
+            if (this._closeReceived) {
+                // 客户端的关闭帧没有关闭码，回复空的关闭帧
+                this.writeFrame(OpClose, Buffer.alloc(0));
+                this._socket.end();
+            } else {
+                this._socket.destroy();
+            }
+            return;
+        }
+        let reasonBytes = Buffer.from(reason, 'utf8');
+        let payload = Buffer.alloc(2 + reasonBytes.length);
+        payload.writeUInt16BE(code, 0);
+        reasonBytes.copy(payload, 2);
+        this.writeFrame(OpClose, payload);
+        this._socket.end();
+    }
+
+    private writeFrame(opcode: number, payload: Buffer) {
+        if (this._socket.destroyed || !this._opened) {
+            return;
+        }
+        let header: Buffer;
+        if (payload.length < 126) {
+            header = Buffer.alloc(2);
+            header[1] = payload.length;
+        } else if (payload.length < 0x10000) {
+            header = Buffer.alloc(4);
+            header[1] = 126;
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[1] = 127;
+            header.writeUInt32BE(Math.floor(payload.length / 0x100000000), 2);
+            header.writeUInt32BE(payload.length >>> 0, 6);
+        }
+        header[0] = 0x80 | opcode;
+        this._socket.write(Buffer.concat([header, payload]));
+    }
+
+    private onData(data: Buffer) {
+        this._buffer = Buffer.concat([this._buffer, data]);
+        while (this._buffer.length >= 2) {
+            let buffer = this._buffer;
+            let fin = (buffer[0] & 0x80) != 0;
+            let opcode = buffer[0] & 0x0f;
+            let masked = (buffer[1] & 0x80) != 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+            if (length == 126) {
+                if (buffer.length < 4) {
+                    return;
+                }
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length == 127) {
+                if (buffer.length < 10) {
+                    return;
+                }
+                length = buffer.readUInt32BE(2) * 0x100000000 + buffer.readUInt32BE(6);
+                offset = 10;
+            }
+            let mask: Buffer = null;
+            if (masked) {
+                if (buffer.length < offset + 4) {
+                    return;
+                }
+                mask = buffer.subarray(offset, offset + 4);
+                offset += 4;
+            }
+            if (buffer.length < offset + length) {
+                return;
+            }
+            let payload = Buffer.from(buffer.subarray(offset, offset + length));
+            if (mask) {
+                for (let i = 0; i < payload.length; i++) {
+                    payload[i] ^= mask[i & 3];
+                }
+            }
+            this._buffer = buffer.subarray(offset + length);
+            this.onFrame(fin, opcode, payload);
+        }
+    }
+
+    private onFrame(fin: boolean, opcode: number, payload: Buffer) {
+        switch (opcode) {
+            case OpText:
+            case OpBinary:
+                this._fragmentOpcode = opcode;
+                this._fragments = [payload];
+                break;
+            case OpContinuation:
+                this._fragments.push(payload);
+                break;
+            case OpPing:
+                this.writeFrame(OpPong, payload);
+                return;
+            case OpPong:
+                return;
+            case OpClose:
+                if (!this._closeReceived) {
+                    this._closeReceived = true;
+                    let code = payload.length >= 2 ? payload.readUInt16BE(0) : 1005;
+                    let reason = payload.length > 2 ? payload.subarray(2).toString('utf8') : '';
+                    // 回复关闭帧时使用相同的关闭码，没有关闭码时回复空的关闭帧
+                    if (this.conn && !this.conn.closed) {
+                        this.conn.clientClose(code, reason);
+                    } else {
+                        this.close(code, reason);
+                    }
+                }
+                return;
+            default:
+                this._socket.destroy();
+                return;
+        }
+        if (!fin) {
+            return;
+        }
+        let message = this._fragments.length == 1 ? this._fragments[0] : Buffer.concat(this._fragments);
+        this._fragments = [];
+        let data: NetData = this._fragmentOpcode == OpText
+            ? message.toString('utf8')
+            : message.buffer.slice(message.byteOffset, message.byteOffset + message.length);
+        this.conn?.receive(data);
+    }
+}
+
+/**
+ * 模拟 WebSocket 服务器
+ * 在 Node.js 中监听本地端口，把 WebSocket 连接接入 FWMockNetServer，
+ * 用于在开发机上端到端测试 WebSock 与 NetNode，延迟、丢包、断线等脚本与 FWMockSocket 共用
+ *
+ * 客户端需要运行环境提供全局 WebSocket（浏览器或 Node.js 22+；Node.js 20 的 --experimental-websocket 在连接被拒绝时不会回调 onclose）
+ *
+ * 使用示例:
+ * ```typescript
+ * let server = new FWMockNetServer({ latency: 20 }).echo();
+ * let ws = new FWMockWebSocketServer(server);
+ * await ws.listen();
+ *
+ * let node = new NetNode();
+ * node.init(new WebSock(), new DefStringProtocol());
+ * node.connect({ url: ws.url, autoReconnect: 3 });
+ * // ...
+ * server.disconnect(4001);
+ * await ws.close();
+ * ```
+ */
+export class FWMockWebSocketServer {
+    /** HTTP 服务器 */
+    private _http: Server = null;
+
+    /** 所有 TCP 连接，关闭时强制断开 */
+    private _sockets: Set<Socket> = new Set();
+
+    constructor(readonly server: FWMockNetServer = new FWMockNetServer()) {
+    }
+
+    /**
+     * 监听的端口，未监听时返回 0
+     */
+    get port(): number {
+        let address = this._http?.address() as AddressInfo;
+        return address?.port ?? 0;
+    }
+
+    /**
+     * 连接地址
+     */
+    get url(): string {
+        return `ws://127.0.0.1:${this.port}`;
+    }
+
+    /**
+     * 开始监听
+     * @param port 端口，默认 0（随机可用端口）
+     * @param host 地址，默认 127.0.0.1
+     * @returns 实际监听的端口
+     */
+    listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+        if (this._http) {
+            return Promise.resolve(this.port);
+        }
+        this._http = createServer((req, res) => {
+            res.writeHead(426, { 'Content-Type': 'text/plain' });
+            res.end('Upgrade Required');
+        });
+        this._http.on('connection', (socket: Socket) => {
+            this._sockets.add(socket);
+            socket.on('close', () => this._sockets.delete(socket));
+        });
+        this._http.on('upgrade', (req: IncomingMessage, socket: Socket) => this.onUpgrade(req, socket));
+        return new Promise((resolve, reject) => {
+            this._http.once('error', reject);
+            this._http.listen(port, host, () => resolve(this.port));
+        });
+    }
+
+    /**
+     * 停止监听并断开所有连接
+     */
+    close(): Promise<void> {
+        if (!this._http) {
+            return Promise.resolve();
+        }
+        let http = this._http;
+        this._http = null;
+        this._sockets.forEach(socket => socket.destroy());
+        this._sockets.clear();
+        return new Promise(resolve => http.close(() => resolve()));
+    }
+
+    private onUpgrade(req: IncomingMessage, socket: Socket) {
+        let key = req.headers['sec-websocket-key'];
+        if (typeof key != 'string' || (req.headers.upgrade ?? '').toLowerCase() != 'websocket') {
+            socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+            return;
+        }
+        let peer = new WebSocketPeer(socket, key);
+        peer.conn = this.server.accept(peer, { url: req.url, headers: req.headers }, () => peer.open());
+    }
+}
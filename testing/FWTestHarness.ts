@@ -0,0 +1,155 @@
+import { Asset, assetManager, director, game, Game, sys } from './cc';
+import { FWApplication } from '../assets/FWApplication';
+import { IInitApplicationConfig, initApplication } from '../assets/FWDebug';
+import { managerRegister } from '../assets/manager';
+
+/**
+ * 关闭选项
+ */
+export interface IShutdownOptions {
+    /** 是否保留 localStorage 中的数据，默认 false，用于测试数据持久化 */
+    keepStorage?: boolean;
+}
+
+/**
+ * FWTestHarness - 无头测试工具
+ * 在 Node.js 中启动框架并手动推进帧，配合 testing/cc.ts 使用
+ *
+ * 使用示例:
+ * ```typescript
+ * beforeEach(async () => {
+ *     await FWTestHarness.boot();
+ * });
+ *
+ * afterEach(() => {
+ *     FWTestHarness.shutdown();
+ * });
+ *
+ * test('切换场景', async () => {
+ *     FWTestHarness.registerBundle('game', { 'Game': sceneAsset });
+ *     app.manager.scene.changeScene('game', 'Game');
+ *     await FWTestHarness.runFrames(5);
+ *     expect(director.getScene()).toBe(sceneAsset.scene);
+ * });
+ * ```
+ */
+export class FWTestHarness {
+    /** 默认帧间隔（秒） */
+    static frameTime: number = 1 / 60;
+
+    /** 单次 flush 等待的微任务轮数 */
+    static flushTicks: number = 20;
+
+    /**
+     * 启动框架
+     * 先关闭上一次启动的框架（保留 localStorage），再执行 initApplication，等待所有管理器初始化结束
+     * @param config 应用初始化配置
+     * @returns 应用实例
+     */
+    static async boot(config: IInitApplicationConfig = {}) {
+        this.shutdown({ keepStorage: true });
+        initApplication(config);
+        await FWApplication.instance.manager.init();
+        await this.flush();
+        return FWApplication.instance;
+    }
+
+    /**
+     * 关闭框架
+     * 销毁应用、清空管理器注册表，并把引擎替身恢复到初始状态
+     * @param options 关闭选项 {@link IShutdownOptions}
+     */
+    static shutdown(options: IShutdownOptions = {}) {
+        FWApplication.instance?.dectroy();
+        managerRegister.clear();
+        director.reset();
+        assetManager.reset();
+        game.totalTime = 0;
+        if (!options.keepStorage) {
+            sys.localStorage.clear();
+        }
+    }
+
+    /**
+     * 同步推进一帧
+     * @param deltaTime 帧间隔（秒）
+     */
+    static step(deltaTime: number = this.frameTime) {
+        game.totalTime += deltaTime * 1000;
+        director.tick(deltaTime);
+    }
+
+    /**
+     * 同步推进多帧
+     * @param count 帧数
+     * @param deltaTime 帧间隔（秒）
+     */
+    static stepFrames(count: number, deltaTime: number = this.frameTime) {
+        for (let i = 0; i < count; i++) {
+            this.step(deltaTime);
+        }
+    }
+
+    /**
+     * 推进多帧，每帧之后等待异步任务
+     * 资源加载等回调都是异步的，需要在帧之间让出执行权
+     * @param count 帧数
+     * @param deltaTime 帧间隔（秒）
+     */
+    static async runFrames(count: number, deltaTime: number = this.frameTime) {
+        for (let i = 0; i < count; i++) {
+            this.step(deltaTime);
+            await this.flush();
+        }
+    }
+
+    /**
+     * 按帧推进指定时长
+     * @param seconds 时长（秒）
+     * @param deltaTime 帧间隔（秒）
+     */
+    static async advance(seconds: number, deltaTime: number = this.frameTime) {
+        await this.runFrames(Math.ceil(seconds / deltaTime - 1e-9), deltaTime);
+    }
+
+    /**
+     * 等待已排队的微任务执行完毕
+     * 只使用 Promise 轮转，不依赖 setTimeout，可与测试框架的假定时器共存
+     * @param ticks 等待轮数
+     */
+    static async flush(ticks: number = this.flushTicks) {
+        for (let i = 0; i < ticks; i++) {
+            await Promise.resolve();
+        }
+    }
+
+    /**
+     * 注册可加载的子包
+     * @param name 子包名称
+     * @param assets 资源路径到资源的映射
+     */
+    static registerBundle(name: string, assets: Record<string, Asset> = {}) {
+        return assetManager.registerBundle(name, assets);
+    }
+
+    /**
+     * 模拟应用切到后台
+     */
+    static hide() {
+        game.emit(Game.EVENT_HIDE);
+    }
+
+    /**
+     * 模拟应用回到前台
+     */
+    static show() {
+        game.emit(Game.EVENT_SHOW);
+    }
+
+    /**
+     * 模拟系统内存不足
+     */
+    static lowMemory() {
+        game.emit(Game.EVENT_LOW_MEMORY);
+    }
+}
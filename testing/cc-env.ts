@@ -0,0 +1,15 @@
+/**
+ * cc/env 模块替身
+ * 按构建后的 Web 环境配置，框架不会在模块加载时自动执行 initApplication
+ */
+export const BUILD = true;
+export const EDITOR = false;
+export const PREVIEW = false;
+export const NATIVE = false;
+export const JSB = false;
+export const HTML5 = true;
+export const MINIGAME = false;
+export const RUNTIME_BASED = false;
+export const DEBUG = true;
+export const DEV = false;
+export const TEST = true;
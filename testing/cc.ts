@@ -0,0 +1,2099 @@
+/**
+ * cc 模块替身
+ * 在 Node.js 中运行框架时代替引擎的 'cc' 模块，只实现框架用到的接口
+ * 行为尽量与引擎保持一致：节点激活时调用组件的 __preload/onLoad/onEnable，
+ * 销毁延迟到帧末执行，定时器、缓动都由 director.tick 驱动
+ *
+ * 测试运行器需要把 'cc' 映射到本文件，见 testing/README.md
+ */
+
+// ---------------------------------------------------------------- 全局环境
+
+const globalObject = globalThis as any;
+
+/** FWHotupdateManager 在模块加载时读取 self["System"] 的类注册缓存 */
+if (typeof globalObject.self === 'undefined') {
+    globalObject.self = globalObject;
+}
+if (typeof globalObject.System === 'undefined') {
+    globalObject.System = { [Symbol('registry')]: {} };
+}
+
+// ---------------------------------------------------------------- 基础类型与工具
+
+export type Constructor<T = unknown> = new (...args: any[]) => T;
+
+export interface ISchedulable {
+    id?: string;
+    uuid?: string;
+}
+
+export const macro = {
+    REPEAT_FOREVER: Number.MAX_VALUE - 1,
+};
+
+let _uuid = 0;
+function createUuid(prefix: string) {
+    return `${prefix}-${++_uuid}`;
+}
+
+export function log(...args: any[]) {
+    console.log(...args);
+}
+
+export function warn(...args: any[]) {
+    console.warn(...args);
+}
+
+export function error(...args: any[]) {
+    console.error(...args);
+}
+
+/**
+ * 断言
+ * 引擎只输出错误日志，这里直接抛出异常，便于测试发现问题
+ */
+export function assert(value: any, message?: string) {
+    if (!value) {
+        throw new Error(message ?? 'Assertion failed');
+    }
+}
+
+const classByName: Map<string, Function> = new Map();
+const nameByClass: Map<Function, string> = new Map();
+
+function setClassName(name: string, ctor: Function) {
+    classByName.set(name, ctor);
+    nameByClass.set(ctor, name);
+}
+
+export const js = {
+    setClassName,
+    getClassName(objOrCtor: any) {
+        let ctor = typeof objOrCtor === 'function' ? objOrCtor : objOrCtor?.constructor;
+        return nameByClass.get(ctor) ?? ctor?.name ?? '';
+    },
+    getClassByName(name: string) {
+        return classByName.get(name);
+    },
+    unregisterClass(...ctors: Function[]) {
+        ctors.forEach(ctor => {
+            let name = nameByClass.get(ctor);
+            nameByClass.delete(ctor);
+            if (name && classByName.get(name) === ctor) {
+                classByName.delete(name);
+            }
+        });
+    },
+    isChildClassOf(subclass: Function, superclass: Function) {
+        return !!subclass && !!superclass && (subclass === superclass || subclass.prototype instanceof superclass);
+    },
+};
+
+function ccclass(nameOrCtor?: string | Function): any {
+    if (typeof nameOrCtor === 'function') {
+        setClassName(nameOrCtor.name, nameOrCtor);
+        return nameOrCtor;
+    }
+    return (ctor: Function) => {
+        setClassName(nameOrCtor ?? ctor.name, ctor);
+        return ctor;
+    };
+}
+
+/** 属性/类装饰器，支持 @xxx 与 @xxx(...) 两种写法，不做任何处理 */
+function noopDecorator(...args: any[]): any {
+    if (typeof args[0] === 'function' && args.length == 1) {
+        return args[0];
+    }
+    if (args.length >= 2 && typeof args[0] === 'object') {
+        return;
+    }
+    return () => { };
+}
+
+export const _decorator = {
+    ccclass,
+    property: noopDecorator,
+    type: noopDecorator,
+    integer: noopDecorator,
+    float: noopDecorator,
+    executeInEditMode: noopDecorator,
+    requireComponent: noopDecorator,
+    disallowMultiple: noopDecorator,
+    executionOrder: noopDecorator,
+    menu: noopDecorator,
+    playOnFocus: noopDecorator,
+    help: noopDecorator,
+    icon: noopDecorator,
+    inspector: noopDecorator,
+};
+
+/** 仅用于类型引用，运行时为空 */
+export const __private = {};
+
+// ---------------------------------------------------------------- 数学
+
+export class Vec2 {
+    constructor(public x = 0, public y = 0) { }
+    set(x: number | Vec2 = 0, y = 0) {
+        if (typeof x === 'object') {
+            this.x = x.x; this.y = x.y;
+        } else {
+            this.x = x; this.y = y;
+        }
+        return this;
+    }
+    clone() {
+        return new Vec2(this.x, this.y);
+    }
+    equals(other: Vec2) {
+        return this.x == other.x && this.y == other.y;
+    }
+}
+
+export class Vec3 {
+    static ZERO = Object.freeze(new Vec3(0, 0, 0));
+    static ONE = Object.freeze(new Vec3(1, 1, 1));
+    constructor(public x = 0, public y = 0, public z = 0) { }
+    set(x: number | Vec3 = 0, y = 0, z = 0) {
+        if (typeof x === 'object') {
+            this.x = x.x; this.y = x.y; this.z = x.z;
+        } else {
+            this.x = x; this.y = y; this.z = z;
+        }
+        return this;
+    }
+    clone() {
+        return new Vec3(this.x, this.y, this.z);
+    }
+    equals(other: Vec3) {
+        return this.x == other.x && this.y == other.y && this.z == other.z;
+    }
+}
+
+export class Vec4 {
+    constructor(public x = 0, public y = 0, public z = 0, public w = 0) { }
+    set(x: number | Vec4 = 0, y = 0, z = 0, w = 0) {
+        if (typeof x === 'object') {
+            this.x = x.x; this.y = x.y; this.z = x.z; this.w = x.w;
+        } else {
+            this.x = x; this.y = y; this.z = z; this.w = w;
+        }
+        return this;
+    }
+    clone() {
+        return new Vec4(this.x, this.y, this.z, this.w);
+    }
+    equals(other: Vec4) {
+        return this.x == other.x && this.y == other.y && this.z == other.z && this.w == other.w;
+    }
+}
+
+export class Color {
+    static WHITE = Object.freeze(new Color(255, 255, 255, 255));
+    static BLACK = Object.freeze(new Color(0, 0, 0, 255));
+    static TRANSPARENT = Object.freeze(new Color(0, 0, 0, 0));
+    constructor(public r = 0, public g = 0, public b = 0, public a = 255) { }
+    set(r: number | Color = 0, g = 0, b = 0, a = 255) {
+        if (typeof r === 'object') {
+            this.r = r.r; this.g = r.g; this.b = r.b; this.a = r.a;
+        } else {
+            this.r = r; this.g = g; this.b = b; this.a = a;
+        }
+        return this;
+    }
+    clone() {
+        return new Color(this.r, this.g, this.b, this.a);
+    }
+    equals(other: Color) {
+        return this.r == other.r && this.g == other.g && this.b == other.b && this.a == other.a;
+    }
+}
+
+export function v2(x = 0, y = 0) {
+    return new Vec2(x, y);
+}
+
+export function v3(x = 0, y = 0, z = 0) {
+    return new Vec3(x, y, z);
+}
+
+export function v4(x = 0, y = 0, z = 0, w = 0) {
+    return new Vec4(x, y, z, w);
+}
+
+export function color(r = 0, g = 0, b = 0, a = 255) {
+    return new Color(r, g, b, a);
+}
+
+export const math = {
+    Vec2, Vec3, Vec4, Color, v2, v3, v4, color,
+    clamp(value: number, min: number, max: number) {
+        return Math.min(Math.max(value, min), max);
+    },
+    clamp01(value: number) {
+        return Math.min(Math.max(value, 0), 1);
+    },
+    lerp(from: number, to: number, ratio: number) {
+        return from + (to - from) * ratio;
+    },
+};
+
+// ---------------------------------------------------------------- 事件
+
+interface ICallbackInfo {
+    callback: Function;
+    target: any;
+    once: boolean;
+}
+
+const callbackTables: WeakMap<object, Map<string, ICallbackInfo[]>> = new WeakMap();
+
+function getCallbackTable(owner: object) {
+    let table = callbackTables.get(owner);
+    if (!table) {
+        table = new Map();
+        callbackTables.set(owner, table);
+    }
+    return table;
+}
+
+export class EventTarget {
+    on<T extends Function>(type: string, callback: T, target?: any, once = false): T {
+        let table = getCallbackTable(this);
+        let list = table.get(type);
+        if (!list) {
+            list = [];
+            table.set(type, list);
+        }
+        if (!list.some(info => info.callback === callback && info.target === target)) {
+            list.push({ callback, target, once });
+        }
+        return callback;
+    }
+
+    once<T extends Function>(type: string, callback: T, target?: any): T {
+        return this.on(type, callback, target, true);
+    }
+
+    off(type: string, callback?: Function, target?: any) {
+        let table = getCallbackTable(this);
+        if (!callback) {
+            table.delete(type);
+            return;
+        }
+        let list = table.get(type);
+        if (list) {
+            table.set(type, list.filter(info => !(info.callback === callback && (target === undefined || info.target === target))));
+        }
+    }
+
+    targetOff(target: any) {
+        let table = getCallbackTable(this);
+        table.forEach((list, type) => {
+            table.set(type, list.filter(info => info.target !== target));
+        });
+    }
+
+    removeAll(typeOrTarget: any) {
+        if (typeof typeOrTarget === 'string') {
+            getCallbackTable(this).delete(typeOrTarget);
+        } else {
+            this.targetOff(typeOrTarget);
+        }
+    }
+
+    hasEventListener(type: string, callback?: Function, target?: any) {
+        let list = getCallbackTable(this).get(type) ?? [];
+        return list.some(info => (!callback || info.callback === callback) && (target === undefined || info.target === target));
+    }
+
+    emit(type: string, ...args: any[]) {
+        let table = getCallbackTable(this);
+        let list = table.get(type);
+        if (!list || list.length == 0) {
+            return;
+        }
+        list.slice().forEach(info => {
+            if (info.once) {
+                this.off(type, info.callback, info.target);
+            }
+            info.callback.apply(info.target, args);
+        });
+    }
+}
+
+/**
+ * 为类混入事件能力
+ * @param base 基类
+ */
+export function Eventify<TBase extends Constructor<any>>(base: TBase): TBase & Constructor<EventTarget> {
+    class Eventified extends base { }
+    Object.getOwnPropertyNames(EventTarget.prototype).forEach(name => {
+        if (name != 'constructor') {
+            Object.defineProperty(Eventified.prototype, name, Object.getOwnPropertyDescriptor(EventTarget.prototype, name));
+        }
+    });
+    return Eventified as any;
+}
+
+export class Event {
+    propagationStopped = false;
+    propagationImmediateStopped = false;
+    constructor(public type: string = '', public bubbles = false) { }
+    propagationStop() {
+        this.propagationStopped = true;
+    }
+    propagationImmediateStop() {
+        this.propagationImmediateStopped = true;
+    }
+}
+
+export class EventTouch extends Event {
+    preventSwallow = false;
+    touch: any = null;
+    constructor(public touches: any[] = [], bubbles = false, eventType = 'touch-start') {
+        super(eventType, bubbles);
+    }
+}
+
+export class EventHandler {
+    target: Node | null = null;
+    component = '';
+    handler = '';
+    customEventData = '';
+    static emitEvents(events: EventHandler[], ...args: any[]) {
+        events.forEach(event => event.emit(args));
+    }
+    emit(params: any[]) {
+        let comp = this.target?.getComponent(this.component);
+        comp?.[this.handler]?.(...params, this.customEventData);
+    }
+}
+
+// ---------------------------------------------------------------- 定时器
+
+class CallbackTimer {
+    /** 首次 update 只做初始化，与引擎一致 */
+    private _elapsed = -1;
+    private _timesExecuted = 0;
+    private _useDelay: boolean;
+    private _runForever: boolean;
+    cancelled = false;
+
+    constructor(
+        readonly callback: Function,
+        readonly target: any,
+        public interval: number,
+        private _repeat: number,
+        private _delay: number,
+        public paused: boolean,
+        private _onCancel: (timer: CallbackTimer) => void,
+    ) {
+        this._useDelay = _delay > 0;
+        this._runForever = _repeat === macro.REPEAT_FOREVER;
+    }
+
+    update(dt: number) {
+        if (this._elapsed === -1) {
+            this._elapsed = 0;
+            this._timesExecuted = 0;
+            return;
+        }
+        this._elapsed += dt;
+        if (this._runForever && !this._useDelay) {
+            if (this._elapsed >= this.interval) {
+                this.trigger();
+                this._elapsed = 0;
+            }
+            return;
+        }
+        if (this._useDelay) {
+            if (this._elapsed >= this._delay) {
+                this.trigger();
+                this._elapsed -= this._delay;
+                this._timesExecuted += 1;
+                this._useDelay = false;
+            }
+        } else if (this._elapsed >= this.interval) {
+            this.trigger();
+            this._elapsed = 0;
+            this._timesExecuted += 1;
+        }
+        if (!this.cancelled && !this._runForever && this._timesExecuted > this._repeat) {
+            this._onCancel(this);
+        }
+    }
+
+    private trigger() {
+        if (!this.cancelled) {
+            this.callback.call(this.target, this._elapsed);
+        }
+    }
+}
+
+interface IUpdateEntry {
+    target: any;
+    priority: number;
+    paused: boolean;
+    removed: boolean;
+}
+
+export class Scheduler {
+    static PRIORITY_SYSTEM = -2147483648;
+    static PRIORITY_NON_SYSTEM = Scheduler.PRIORITY_SYSTEM + 1;
+
+    static enableForTarget(target: any) { }
+
+    private _timers: CallbackTimer[] = [];
+    private _updates: IUpdateEntry[] = [];
+    private _pausedTargets: Set<any> = new Set();
+    private _timeScale = 1;
+
+    setTimeScale(timeScale: number) {
+        this._timeScale = timeScale;
+    }
+
+    getTimeScale() {
+        return this._timeScale;
+    }
+
+    schedule(callback: Function, target: any, interval: number, repeat?: number | boolean, delay?: number, paused?: boolean) {
+        if (typeof repeat === 'boolean') {
+            paused = repeat;
+            repeat = macro.REPEAT_FOREVER;
+            delay = 0;
+        }
+        repeat = Number.isNaN(repeat) || repeat === undefined ? macro.REPEAT_FOREVER : repeat;
+        let exist = this.findTimer(callback, target);
+        if (exist) {
+            exist.interval = interval;
+            return;
+        }
+        let timer = new CallbackTimer(callback, target, interval, repeat, delay ?? 0, !!paused || this._pausedTargets.has(target), (timer) => this.removeTimer(timer));
+        this._timers.push(timer);
+    }
+
+    unschedule(callback: Function, target: any) {
+        let timer = this.findTimer(callback, target);
+        if (timer) {
+            this.removeTimer(timer);
+        }
+    }
+
+    isScheduled(callback: Function, target: any) {
+        return !!this.findTimer(callback, target);
+    }
+
+    scheduleUpdate(target: any, priority: number, paused: boolean) {
+        this.unscheduleUpdate(target);
+        let entry: IUpdateEntry = { target, priority, paused, removed: false };
+        let index = this._updates.findIndex(element => element.priority > priority);
+        if (index == -1) {
+            this._updates.push(entry);
+        } else {
+            this._updates.splice(index, 0, entry);
+        }
+    }
+
+    unscheduleUpdate(target: any) {
+        let index = this._updates.findIndex(element => element.target === target);
+        if (index != -1) {
+            this._updates[index].removed = true;
+            this._updates.splice(index, 1);
+        }
+    }
+
+    unscheduleAllForTarget(target: any) {
+        this._timers.filter(timer => timer.target === target).forEach(timer => this.removeTimer(timer));
+        this.unscheduleUpdate(target);
+    }
+
+    unscheduleAll() {
+        this._timers.forEach(timer => timer.cancelled = true);
+        this._timers = [];
+        this._updates.forEach(entry => entry.removed = true);
+        this._updates = [];
+        this._pausedTargets.clear();
+    }
+
+    pauseTarget(target: any) {
+        this._pausedTargets.add(target);
+        this.setTargetPaused(target, true);
+    }
+
+    resumeTarget(target: any) {
+        this._pausedTargets.delete(target);
+        this.setTargetPaused(target, false);
+    }
+
+    isTargetPaused(target: any) {
+        return this._pausedTargets.has(target);
+    }
+
+    update(dt: number) {
+        dt *= this._timeScale;
+        this._updates.slice().forEach(entry => {
+            if (!entry.paused && !entry.removed) {
+                entry.target.update(dt);
+            }
+        });
+        this._timers.slice().forEach(timer => {
+            if (!timer.paused && !timer.cancelled) {
+                timer.update(dt);
+            }
+        });
+    }
+
+    private setTargetPaused(target: any, paused: boolean) {
+        this._timers.forEach(timer => {
+            if (timer.target === target) {
+                timer.paused = paused;
+            }
+        });
+        this._updates.forEach(entry => {
+            if (entry.target === target) {
+                entry.paused = paused;
+            }
+        });
+    }
+
+    private findTimer(callback: Function, target: any) {
+        return this._timers.find(timer => timer.callback === callback && timer.target === target);
+    }
+
+    private removeTimer(timer: CallbackTimer) {
+        timer.cancelled = true;
+        let index = this._timers.indexOf(timer);
+        if (index != -1) {
+            this._timers.splice(index, 1);
+        }
+    }
+}
+
+export class System {
+    static Priority = {
+        LOW: 0,
+        MEDIUM: 100,
+        HIGH: 200,
+        SCHEDULER: (1 << 31) >>> 0,
+    };
+}
+
+// ---------------------------------------------------------------- 节点与组件
+
+/** 等待帧末销毁的对象 */
+const objectsToDestroy: (Node | Component)[] = [];
+
+/**
+ * 执行延迟销毁
+ * 引擎在每帧末尾统一销毁调用过 destroy 的对象
+ */
+function deferredDestroy() {
+    while (objectsToDestroy.length > 0) {
+        let list = objectsToDestroy.splice(0);
+        list.forEach(obj => obj._destroyImmediate());
+    }
+}
+
+export class Component {
+    node: Node = null;
+    _uuid = createUuid('component');
+    _enabled = true;
+    _isOnLoadCalled = false;
+    _isStarted = false;
+    _enabledInHierarchy = false;
+    _isValid = true;
+    _toDestroy = false;
+
+    get uuid() {
+        return this._uuid;
+    }
+
+    get name() {
+        return this.node?.name ?? '';
+    }
+
+    get isValid() {
+        return this._isValid;
+    }
+
+    get enabled() {
+        return this._enabled;
+    }
+
+    set enabled(value: boolean) {
+        if (this._enabled == value) {
+            return;
+        }
+        this._enabled = value;
+        if (this.node?.activeInHierarchy) {
+            value ? this._enable() : this._disable();
+        }
+    }
+
+    get enabledInHierarchy() {
+        return this._enabledInHierarchy;
+    }
+
+    destroy() {
+        if (!this._isValid || this._toDestroy) {
+            return false;
+        }
+        this._toDestroy = true;
+        objectsToDestroy.push(this);
+        return true;
+    }
+
+    getComponent<T>(type: Constructor<T> | string): T | null {
+        return this.node.getComponent(type);
+    }
+
+    addComponent<T>(type: Constructor<T> | string): T | null {
+        return this.node.addComponent(type);
+    }
+
+    schedule(callback: Function, interval = 0, repeat = macro.REPEAT_FOREVER, delay = 0) {
+        director.getScheduler().schedule(callback, this, interval, repeat, delay, !this._enabledInHierarchy);
+    }
+
+    scheduleOnce(callback: Function, delay = 0) {
+        this.schedule(callback, 0, 0, delay);
+    }
+
+    unschedule(callback: Function) {
+        director.getScheduler().unschedule(callback, this);
+    }
+
+    unscheduleAllCallbacks() {
+        director.getScheduler().unscheduleAllForTarget(this);
+    }
+
+    /**
+     * 节点激活时调用：首次激活执行 __preload/onLoad，启用时执行 onEnable
+     */
+    _activate() {
+        if (!this._isOnLoadCalled) {
+            this._isOnLoadCalled = true;
+            this.invoke('__preload');
+            this.invoke('onLoad');
+            if (!this._isValid || !this.node?.activeInHierarchy) {
+                return;
+            }
+        }
+        if (this._enabled) {
+            this._enable();
+        }
+    }
+
+    _deactivate() {
+        if (this._enabledInHierarchy) {
+            this._disable();
+        }
+    }
+
+    _enable() {
+        if (this._enabledInHierarchy) {
+            return;
+        }
+        this._enabledInHierarchy = true;
+        director.getScheduler().resumeTarget(this);
+        this.invoke('onEnable');
+    }
+
+    _disable() {
+        if (!this._enabledInHierarchy) {
+            return;
+        }
+        this._enabledInHierarchy = false;
+        director.getScheduler().pauseTarget(this);
+        this.invoke('onDisable');
+    }
+
+    _destroyImmediate() {
+        if (!this._isValid) {
+            return;
+        }
+        this._deactivate();
+        if (this._isOnLoadCalled) {
+            this.invoke('onDestroy');
+        }
+        this.unscheduleAllCallbacks();
+        this.node?._removeComponent(this);
+        this._isValid = false;
+    }
+
+    invoke(method: string, ...args: any[]) {
+        let func = (this as any)[method];
+        if (typeof func === 'function') {
+            func.apply(this, args);
+        }
+    }
+}
+
+export class Node extends EventTarget {
+    static EventType = {
+        TOUCH_START: 'touch-start',
+        TOUCH_MOVE: 'touch-move',
+        TOUCH_END: 'touch-end',
+        TOUCH_CANCEL: 'touch-cancel',
+        MOUSE_DOWN: 'mouse-down',
+        MOUSE_MOVE: 'mouse-move',
+        MOUSE_UP: 'mouse-up',
+        MOUSE_WHEEL: 'mouse-wheel',
+        TRANSFORM_CHANGED: 'transform-changed',
+        SIZE_CHANGED: 'size-changed',
+        CHILD_ADDED: 'child-added',
+        CHILD_REMOVED: 'child-removed',
+        SIBLING_ORDER_CHANGED: 'sibling-order-changed',
+        ACTIVE_IN_HIERARCHY_CHANGED: 'active-in-hierarchy-changed',
+        NODE_DESTROYED: 'node-destroyed',
+    };
+
+    static isNode(obj: any): obj is Node {
+        return obj instanceof Node;
+    }
+
+    name: string;
+    layer = 1;
+    _uuid = createUuid('node');
+    _parent: Node | null = null;
+    _children: Node[] = [];
+    _components: Component[] = [];
+    _active = true;
+    _activeInHierarchy = false;
+    _isValid = true;
+    _toDestroy = false;
+    _persistNode = false;
+    private _position = new Vec3();
+    private _scale = new Vec3(1, 1, 1);
+    private _eulerAngles = new Vec3();
+
+    constructor(name = 'New Node') {
+        super();
+        this.name = name;
+    }
+
+    get uuid() {
+        return this._uuid;
+    }
+
+    get isValid() {
+        return this._isValid;
+    }
+
+    get position(): Readonly<Vec3> {
+        return this._position;
+    }
+
+    set position(value: Readonly<Vec3>) {
+        this._position.set(value as Vec3);
+    }
+
+    setPosition(x: number | Vec3, y?: number, z?: number) {
+        this._position.set(x as any, y, z);
+    }
+
+    get scale(): Readonly<Vec3> {
+        return this._scale;
+    }
+
+    set scale(value: Readonly<Vec3>) {
+        this._scale.set(value as Vec3);
+    }
+
+    setScale(x: number | Vec3, y?: number, z?: number) {
+        this._scale.set(x as any, y, z);
+    }
+
+    get eulerAngles(): Readonly<Vec3> {
+        return this._eulerAngles;
+    }
+
+    set eulerAngles(value: Readonly<Vec3>) {
+        this._eulerAngles.set(value as Vec3);
+    }
+
+    get parent() {
+        return this._parent;
+    }
+
+    set parent(value: Node | null) {
+        this.setParent(value);
+    }
+
+    get children() {
+        return this._children;
+    }
+
+    get components() {
+        return this._components;
+    }
+
+    get active() {
+        return this._active;
+    }
+
+    set active(value: boolean) {
+        value = !!value;
+        if (this._active == value) {
+            return;
+        }
+        this._active = value;
+        this._updateActiveInHierarchy();
+    }
+
+    get activeInHierarchy() {
+        return this._activeInHierarchy;
+    }
+
+    get scene(): Scene | null {
+        let node: Node = this;
+        while (node && !(node instanceof Scene)) {
+            node = node._parent;
+        }
+        return node as Scene;
+    }
+
+    setParent(value: Node | null, keepWorldTransform = false) {
+        if (this._parent === value) {
+            return;
+        }
+        let oldParent = this._parent;
+        if (oldParent) {
+            oldParent._children.splice(oldParent._children.indexOf(this), 1);
+        }
+        this._parent = value ?? null;
+        if (value) {
+            value._children.push(this);
+        }
+        this._updateActiveInHierarchy();
+        oldParent?.emit(Node.EventType.CHILD_REMOVED, this);
+        value?.emit(Node.EventType.CHILD_ADDED, this);
+    }
+
+    addChild(child: Node) {
+        child.setParent(this);
+    }
+
+    removeChild(child: Node) {
+        if (child._parent === this) {
+            child.setParent(null);
+        }
+    }
+
+    removeFromParent() {
+        this.setParent(null);
+    }
+
+    removeAllChildren() {
+        this._children.slice().forEach(child => child.setParent(null));
+    }
+
+    getChildByName(name: string) {
+        return this._children.find(child => child.name == name) ?? null;
+    }
+
+    getChildByPath(path: string) {
+        let node: Node = this;
+        for (let name of path.split('/')) {
+            if (!name) continue;
+            node = node.getChildByName(name);
+            if (!node) return null;
+        }
+        return node;
+    }
+
+    getSiblingIndex() {
+        return this._parent ? this._parent._children.indexOf(this) : 0;
+    }
+
+    setSiblingIndex(index: number) {
+        if (!this._parent) {
+            return;
+        }
+        let siblings = this._parent._children;
+        index = index < 0 ? siblings.length + index : index;
+        index = Math.min(Math.max(index, 0), siblings.length - 1);
+        let oldIndex = siblings.indexOf(this);
+        if (oldIndex != index) {
+            siblings.splice(oldIndex, 1);
+            siblings.splice(index, 0, this);
+            this._parent.emit(Node.EventType.SIBLING_ORDER_CHANGED);
+        }
+    }
+
+    addComponent<T>(typeOrName: Constructor<T> | string): T {
+        let ctor = (typeof typeOrName === 'string' ? js.getClassByName(typeOrName) : typeOrName) as Constructor<T>;
+        assert(ctor, `addComponent: class ${String(typeOrName)} not found`);
+        let comp = new ctor() as T & Component;
+        comp.node = this;
+        this._components.push(comp);
+        if (this._activeInHierarchy) {
+            comp._activate();
+        }
+        return comp;
+    }
+
+    getComponent<T>(typeOrName: Constructor<T> | string): T | null {
+        return (this._components.find(comp => matchComponent(comp, typeOrName)) as unknown as T) ?? null;
+    }
+
+    getComponents<T>(typeOrName: Constructor<T> | string): T[] {
+        return this._components.filter(comp => matchComponent(comp, typeOrName)) as unknown as T[];
+    }
+
+    getComponentInChildren<T>(typeOrName: Constructor<T> | string): T | null {
+        for (let child of this._children) {
+            let comp = child.getComponent(typeOrName) ?? child.getComponentInChildren(typeOrName);
+            if (comp) return comp;
+        }
+        return null;
+    }
+
+    getComponentsInChildren<T>(typeOrName: Constructor<T> | string): T[] {
+        let result = this.getComponents(typeOrName);
+        this._children.forEach(child => result.push(...child.getComponentsInChildren(typeOrName)));
+        return result;
+    }
+
+    removeComponent(compOrType: Component | Constructor<Component> | string) {
+        let comp = compOrType instanceof Component ? compOrType : this.getComponent(compOrType);
+        comp?.destroy();
+    }
+
+    destroy() {
+        if (!this._isValid || this._toDestroy) {
+            return false;
+        }
+        this._toDestroy = true;
+        objectsToDestroy.push(this);
+        return true;
+    }
+
+    destroyAllChildren() {
+        this._children.forEach(child => child.destroy());
+    }
+
+    /**
+     * 立即销毁节点：先失活，再销毁子节点与组件，最后从父节点移除
+     */
+    _destroyImmediate() {
+        if (!this._isValid) {
+            return;
+        }
+        if (this._activeInHierarchy) {
+            this._deactivateRecursively();
+        }
+        this._children.slice().forEach(child => child._destroyImmediate());
+        this._components.slice().forEach(comp => comp._destroyImmediate());
+        if (this._parent) {
+            this._parent._children.splice(this._parent._children.indexOf(this), 1);
+            this._parent = null;
+        }
+        director.removePersistRootNode(this);
+        this._isValid = false;
+        this.emit(Node.EventType.NODE_DESTROYED, this);
+        callbackTables.delete(this);
+    }
+
+    _removeComponent(comp: Component) {
+        let index = this._components.indexOf(comp);
+        if (index != -1) {
+            this._components.splice(index, 1);
+        }
+    }
+
+    /**
+     * 直接移动到新的父节点，不改变激活状态，用于切换场景时转移常驻节点
+     */
+    _moveTo(parent: Node) {
+        if (this._parent) {
+            this._parent._children.splice(this._parent._children.indexOf(this), 1);
+        }
+        this._parent = parent;
+        parent._children.push(this);
+    }
+
+    _computeActiveInHierarchy() {
+        return this._active && !!this._parent && this._parent._activeInHierarchy;
+    }
+
+    _updateActiveInHierarchy() {
+        let active = this._computeActiveInHierarchy();
+        if (active == this._activeInHierarchy) {
+            return;
+        }
+        if (active) {
+            this._activeInHierarchy = true;
+            this._components.slice().forEach(comp => comp._activate());
+            this._children.slice().forEach(child => child._updateActiveInHierarchy());
+        } else {
+            this._deactivateRecursively();
+        }
+        this.emit(Node.EventType.ACTIVE_IN_HIERARCHY_CHANGED, this);
+    }
+
+    private _deactivateRecursively() {
+        this._activeInHierarchy = false;
+        this._components.slice().forEach(comp => comp._deactivate());
+        this._children.slice().forEach(child => {
+            if (child._activeInHierarchy) {
+                child._deactivateRecursively();
+            }
+        });
+    }
+}
+
+function matchComponent(comp: Component, typeOrName: Constructor<any> | string) {
+    if (typeof typeOrName === 'string') {
+        return js.getClassName(comp) == typeOrName;
+    }
+    return comp instanceof typeOrName;
+}
+
+/** 当前运行的场景，director 构造期间即需要使用，所以不直接读取 director */
+let runningScene: Scene | null = null;
+
+export class Scene extends Node {
+    autoReleaseAssets = false;
+
+    _computeActiveInHierarchy() {
+        return this._active && runningScene === this;
+    }
+}
+
+// ---------------------------------------------------------------- 常用组件
+
+export class UITransform extends Component {
+    width = 100;
+    height = 100;
+    anchorX = 0.5;
+    anchorY = 0.5;
+    setContentSize(width: number | { width: number, height: number }, height?: number) {
+        if (typeof width === 'object') {
+            this.width = width.width;
+            this.height = width.height;
+        } else {
+            this.width = width;
+            this.height = height;
+        }
+    }
+}
+
+export class Widget extends Component {
+    static AlignMode = {
+        ONCE: 0,
+        ALWAYS: 1,
+        ON_WINDOW_RESIZE: 2,
+    };
+    alignMode = Widget.AlignMode.ON_WINDOW_RESIZE;
+    top = 0;
+    bottom = 0;
+    left = 0;
+    right = 0;
+    isAlignTop = false;
+    isAlignBottom = false;
+    isAlignLeft = false;
+    isAlignRight = false;
+    updateAlignment() { }
+}
+
+export class RenderRoot2D extends Component { }
+
+export class BlockInputEvents extends Component { }
+
+export class Sprite extends Component {
+    static SizeMode = {
+        CUSTOM: 0,
+        TRIMMED: 1,
+        RAW: 2,
+    };
+    static Type = {
+        SIMPLE: 0,
+        SLICED: 1,
+        TILED: 2,
+        FILLED: 3,
+    };
+    color = new Color(255, 255, 255, 255);
+    sizeMode = Sprite.SizeMode.TRIMMED;
+    type = Sprite.Type.SIMPLE;
+    spriteFrame: SpriteFrame | null = null;
+}
+
+export class UIOpacity extends Component {
+    opacity = 255;
+}
+
+export class Button extends Component {
+    static EventType = {
+        CLICK: 'click',
+    };
+    interactable = true;
+    clickEvents: EventHandler[] = [];
+}
+
+export class AudioSource extends Component {
+    clip: AudioClip | null = null;
+    loop = false;
+    volume = 1;
+    playOnAwake = false;
+    playing = false;
+    currentTime = 0;
+    play() {
+        this.playing = true;
+    }
+    pause() {
+        this.playing = false;
+    }
+    stop() {
+        this.playing = false;
+        this.currentTime = 0;
+    }
+    playOneShot(clip: AudioClip, volumeScale = 1) { }
+}
+
+// ---------------------------------------------------------------- 对象池
+
+export class Pool<T> {
+    private _freePool: T[] = [];
+
+    constructor(private _ctor: () => T, private _elementsPerBatch: number, private _dtor?: (obj: T) => void) {
+        this._elementsPerBatch = Math.max(_elementsPerBatch, 1);
+        this.allocBatch();
+    }
+
+    alloc() {
+        if (this._freePool.length == 0) {
+            this.allocBatch();
+        }
+        return this._freePool.pop();
+    }
+
+    free(obj: T) {
+        this._freePool.push(obj);
+    }
+
+    freeArray(objs: T[]) {
+        this._freePool.push(...objs);
+    }
+
+    destroy() {
+        if (this._dtor) {
+            this._freePool.forEach(obj => this._dtor(obj));
+        }
+        this._freePool.length = 0;
+    }
+
+    private allocBatch() {
+        for (let i = 0; i < this._elementsPerBatch; i++) {
+            this._freePool.push(this._ctor());
+        }
+    }
+}
+
+// ---------------------------------------------------------------- 资源
+
+export class Asset extends EventTarget {
+    name = '';
+    _uuid = createUuid('asset');
+    _ref = 0;
+    _isValid = true;
+
+    get uuid() {
+        return this._uuid;
+    }
+
+    get refCount() {
+        return this._ref;
+    }
+
+    get isValid() {
+        return this._isValid;
+    }
+
+    addRef() {
+        this._ref++;
+        return this;
+    }
+
+    decRef(autoRelease = true) {
+        if (this._ref > 0) {
+            this._ref--;
+        }
+        if (autoRelease && this._ref == 0) {
+            assetManager.releaseAsset(this);
+        }
+        return this;
+    }
+
+    destroy() {
+        this._isValid = false;
+        return true;
+    }
+}
+
+export class Prefab extends Asset {
+    /** 预制体的根节点，instantiate 时会被复制 */
+    data: Node | null = null;
+}
+
+export class SceneAsset extends Asset {
+    scene: Scene | null = null;
+}
+
+export class JsonAsset extends Asset {
+    json: Record<string, any> | null = null;
+}
+
+export class TextAsset extends Asset {
+    text = '';
+}
+
+export class SpriteFrame extends Asset { }
+
+export class AudioClip extends Asset {
+    duration = 0;
+}
+
+/** Component 中由替身维护的内部字段，复制时跳过 */
+const componentInternalKeys = new Set(Object.keys(new Component()));
+
+/**
+ * 复制预制体或节点
+ * 组件上引用同一棵节点树内节点/组件的字段会被映射到副本
+ * @param original 预制体或节点
+ */
+export function instantiate<T>(original: T): T {
+    if (original instanceof Prefab) {
+        assert(original.data, `prefab ${original.name} has no data`);
+        return instantiate(original.data) as any;
+    }
+    if (!(original instanceof Node)) {
+        return Object.assign(Object.create(Object.getPrototypeOf(original)), original);
+    }
+    let mapping: Map<any, any> = new Map();
+    let pairs: [Component, Component][] = [];
+    let clone = (node: Node) => {
+        let copy = new Node(node.name);
+        mapping.set(node, copy);
+        copy.layer = node.layer;
+        copy.active = node.active;
+        copy.position = node.position;
+        copy.scale = node.scale;
+        copy.eulerAngles = node.eulerAngles;
+        node.components.forEach(comp => {
+            let compCopy = copy.addComponent(comp.constructor as Constructor<Component>);
+            compCopy._enabled = comp._enabled;
+            mapping.set(comp, compCopy);
+            pairs.push([comp, compCopy]);
+        });
+        node.children.forEach(child => clone(child).setParent(copy));
+        return copy;
+    };
+    let root = clone(original);
+    pairs.forEach(([comp, compCopy]) => {
+        Object.keys(comp).forEach(key => {
+            if (!componentInternalKeys.has(key)) {
+                let value = comp[key];
+                compCopy[key] = mapping.has(value) ? mapping.get(value) : value;
+            }
+        });
+    });
+    return root as any;
+}
+
+interface IAddressableInfo {
+    uuid: string;
+    path: string;
+    ctor: Constructor<Asset>;
+    extension?: string;
+}
+
+type CompleteCallback = (err: Error | null, data?: any) => void;
+type ProgressCallback = (finished: number, total: number, item: any) => void;
+
+/**
+ * 解析引擎加载接口的可选参数：(type?, onProgress?, onComplete?)
+ */
+function parseLoadArgs(args: any[]) {
+    let type: Constructor<Asset> | null = null;
+    if (typeof args[0] === 'function' && js.isChildClassOf(args[0], Asset)) {
+        type = args.shift();
+    } else if (args[0] === null || args[0] === undefined) {
+        if (args.length > 1) args.shift();
+    }
+    let callbacks = args.filter(arg => typeof arg === 'function');
+    let onComplete: CompleteCallback = callbacks.pop() ?? null;
+    let onProgress: ProgressCallback = callbacks.pop() ?? null;
+    return { type, onProgress, onComplete };
+}
+
+function isTypeMatch(ctor: Function, type?: Function | null) {
+    return !type || js.isChildClassOf(ctor, type);
+}
+
+/**
+ * 子包替身
+ * 资源通过 add 预先放入，加载时异步返回，与引擎的回调时序一致
+ */
+class Bundle {
+    readonly config: { name: string, paths: Map<string, IAddressableInfo[]> };
+    private _assets: Map<string, Asset> = new Map();
+    private _loaded: Map<string, Asset> = new Map();
+
+    constructor(readonly name: string) {
+        this.config = { name, paths: new Map() };
+    }
+
+    /**
+     * 放入资源（测试专用）
+     * @param path 资源路径
+     * @param asset 资源
+     */
+    add(path: string, asset: Asset) {
+        if (!asset.name) {
+            asset.name = path.split('/').pop();
+        }
+        let infos = this.config.paths.get(path) ?? [];
+        infos.push({ uuid: asset._uuid, path, ctor: asset.constructor as Constructor<Asset> });
+        this.config.paths.set(path, infos);
+        this._assets.set(asset._uuid, asset);
+        return this;
+    }
+
+    getInfoWithPath(path: string, type?: Constructor<Asset> | null) {
+        return this.config.paths.get(path)?.find(info => isTypeMatch(info.ctor, type)) ?? null;
+    }
+
+    getDirWithPath(path: string, type?: Constructor<Asset> | null, out: IAddressableInfo[] = []) {
+        let prefix = path ? path.replace(/\/$/, '') + '/' : '';
+        this.config.paths.forEach((infos, assetPath) => {
+            if (assetPath == path || assetPath.startsWith(prefix)) {
+                infos.forEach(info => {
+                    if (isTypeMatch(info.ctor, type)) {
+                        out.push(info);
+                    }
+                });
+            }
+        });
+        return out;
+    }
+
+    getAssetInfo(uuid: string) {
+        for (let infos of this.config.paths.values()) {
+            let info = infos.find(element => element.uuid == uuid);
+            if (info) return info;
+        }
+        return null;
+    }
+
+    getAsset(uuid: string) {
+        return this._assets.get(uuid) ?? null;
+    }
+
+    get(path: string, type?: Constructor<Asset> | null) {
+        let info = this.getInfoWithPath(path, type);
+        return info ? this._loaded.get(info.uuid) ?? null : null;
+    }
+
+    load(paths: string | string[], ...args: any[]) {
+        let { type, onProgress, onComplete } = parseLoadArgs(args);
+        let list = Array.isArray(paths) ? paths : [paths];
+        this.loadInfos(list.map(path => {
+            let info = this.getInfoWithPath(path, type);
+            return info ?? new Error(`Bundle ${this.name} doesn't contain ${path}`);
+        }), onProgress, (err, assets) => {
+            onComplete?.(err, err ? null : (Array.isArray(paths) ? assets : assets[0]));
+        });
+    }
+
+    loadDir(dir: string, ...args: any[]) {
+        let { type, onProgress, onComplete } = parseLoadArgs(args);
+        this.loadInfos(this.getDirWithPath(dir, type), onProgress, onComplete);
+    }
+
+    loadScene(sceneName: string, ...args: any[]) {
+        let { onProgress, onComplete } = parseLoadArgs(args.filter(arg => typeof arg === 'function'));
+        let info = this.getInfoWithPath(sceneName, SceneAsset);
+        this.loadInfos([info ?? new Error(`Bundle ${this.name} doesn't contain scene ${sceneName}`)], onProgress, (err, assets) => {
+            onComplete?.(err, err ? null : assets[0]);
+        });
+    }
+
+    preload(paths: string | string[], ...args: any[]) {
+        let { onComplete } = parseLoadArgs(args);
+        Promise.resolve().then(() => onComplete?.(null, []));
+    }
+
+    preloadDir(dir: string, ...args: any[]) {
+        let { onComplete } = parseLoadArgs(args);
+        Promise.resolve().then(() => onComplete?.(null, []));
+    }
+
+    preloadScene(sceneName: string, ...args: any[]) {
+        let { onComplete } = parseLoadArgs(args.filter(arg => typeof arg === 'function'));
+        Promise.resolve().then(() => onComplete?.(null));
+    }
+
+    release(path: string, type?: Constructor<Asset> | null) {
+        let info = this.getInfoWithPath(path, type);
+        if (info) {
+            this._loaded.delete(info.uuid);
+        }
+    }
+
+    releaseAsset(asset: Asset) {
+        this._loaded.delete(asset._uuid);
+    }
+
+    releaseUnusedAssets() {
+        this._loaded.forEach((asset, uuid) => {
+            if (asset.refCount == 0) {
+                this._loaded.delete(uuid);
+            }
+        });
+    }
+
+    releaseAll() {
+        this._loaded.clear();
+    }
+
+    /**
+     * 异步加载资源，逐个回调进度，失败时返回第一个错误
+     */
+    private loadInfos(infos: (IAddressableInfo | Error)[], onProgress: ProgressCallback, onComplete: CompleteCallback) {
+        Promise.resolve().then(() => {
+            let err = infos.find(info => info instanceof Error) as Error;
+            if (err) {
+                onComplete?.(err, null);
+                return;
+            }
+            let assets = (infos as IAddressableInfo[]).map((info, index) => {
+                let asset = this._assets.get(info.uuid);
+                this._loaded.set(info.uuid, asset);
+                onProgress?.(index + 1, infos.length, null);
+                return asset;
+            });
+            onComplete?.(null, assets);
+        });
+    }
+}
+
+/**
+ * 资源管理器替身
+ * 只有通过 registerBundle 注册的子包才能被 loadBundle 加载
+ */
+export class AssetManager {
+    static Bundle = Bundle;
+
+    readonly bundles: Map<string, Bundle> = new Map();
+    readonly downloader = {
+        removeDownloadScriptCache(url: string) { },
+    };
+    private _registered: Map<string, Bundle> = new Map();
+
+    constructor() {
+        this.reset();
+    }
+
+    get main() {
+        return this.bundles.get('main') ?? null;
+    }
+
+    get resources() {
+        return this.bundles.get('resources') ?? null;
+    }
+
+    /**
+     * 注册可加载的子包（测试专用）
+     * @param name 子包名称
+     * @param assets 资源路径到资源的映射
+     * @returns 子包，内置子包 main、resources 会直接返回已加载的实例
+     */
+    registerBundle(name: string, assets: Record<string, Asset> = {}) {
+        let bundle = this._registered.get(name) ?? new Bundle(name);
+        this._registered.set(name, bundle);
+        Object.keys(assets).forEach(path => bundle.add(path, assets[path]));
+        return bundle;
+    }
+
+    /**
+     * 重置为只包含内置子包的初始状态（测试专用）
+     */
+    reset() {
+        this.bundles.clear();
+        this._registered.clear();
+        ['main', 'resources'].forEach(name => {
+            this.bundles.set(name, this.registerBundle(name));
+        });
+    }
+
+    getBundle(name: string) {
+        return this.bundles.get(name) ?? null;
+    }
+
+    removeBundle(bundle: Bundle) {
+        bundle.releaseAll();
+        this.bundles.delete(bundle.name);
+    }
+
+    loadBundle(nameOrUrl: string, options?: any, onComplete?: CompleteCallback) {
+        if (typeof options === 'function') {
+            onComplete = options;
+        }
+        let name = nameOrUrl.split('/').pop();
+        Promise.resolve().then(() => {
+            let bundle = this.bundles.get(name) ?? this._registered.get(name);
+            if (!bundle) {
+                onComplete?.(new Error(`Bundle ${name} not found`), null);
+                return;
+            }
+            this.bundles.set(name, bundle);
+            onComplete?.(null, bundle);
+        });
+    }
+
+    loadAny(requests: any, ...args: any[]) {
+        let callbacks = args.filter(arg => typeof arg === 'function');
+        let onComplete: CompleteCallback = callbacks.pop();
+        let onProgress: ProgressCallback = callbacks.pop();
+        let list: any[] = Array.isArray(requests) ? requests : [requests];
+        Promise.resolve().then(() => {
+            let assets: Asset[] = [];
+            for (let index = 0; index < list.length; index++) {
+                let uuid = typeof list[index] === 'string' ? list[index] : list[index].uuid;
+                let asset = this.findAsset(uuid);
+                if (!asset) {
+                    onComplete?.(new Error(`Asset ${uuid} not found`), null);
+                    return;
+                }
+                assets.push(asset);
+                onProgress?.(index + 1, list.length, null);
+            }
+            onComplete?.(null, Array.isArray(requests) ? assets : assets[0]);
+        });
+    }
+
+    loadRemote(url: string, ...args: any[]) {
+        let onComplete: CompleteCallback = args.filter(arg => typeof arg === 'function').pop();
+        Promise.resolve().then(() => onComplete?.(new Error(`loadRemote is not supported: ${url}`), null));
+    }
+
+    releaseAsset(asset: Asset) {
+        this.bundles.forEach(bundle => bundle.releaseAsset(asset));
+    }
+
+    releaseUnusedAssets() {
+        this.bundles.forEach(bundle => bundle.releaseUnusedAssets());
+    }
+
+    private findAsset(uuid: string) {
+        for (let bundle of this._registered.values()) {
+            let asset = bundle.getAsset(uuid);
+            if (asset) return asset;
+        }
+        return null;
+    }
+}
+
+export const assetManager = new AssetManager();
+
+// ---------------------------------------------------------------- 缓动
+
+interface ITweenAction {
+    type: 'to' | 'by' | 'set' | 'call' | 'delay';
+    duration?: number;
+    props?: Record<string, any>;
+    callback?: Function;
+}
+
+function lerpValue(from: any, to: any, ratio: number) {
+    if (typeof from === 'number') {
+        return from + (to - from) * ratio;
+    }
+    if (from && typeof from === 'object') {
+        let out = typeof from.clone === 'function' ? from.clone() : { ...from };
+        Object.keys(to).forEach(key => {
+            if (typeof from[key] === 'number') {
+                out[key] = from[key] + (to[key] - from[key]) * ratio;
+            }
+        });
+        return out;
+    }
+    return ratio >= 1 ? to : from;
+}
+
+function addValue(from: any, delta: any) {
+    if (typeof from === 'number') {
+        return from + delta;
+    }
+    let out = typeof from.clone === 'function' ? from.clone() : { ...from };
+    Object.keys(delta).forEach(key => out[key] = from[key] + delta[key]);
+    return out;
+}
+
+function cloneValue(value: any) {
+    if (value && typeof value === 'object') {
+        return typeof value.clone === 'function' ? value.clone() : { ...value };
+    }
+    return value;
+}
+
+const runningTweens: Set<Tween<any>> = new Set();
+
+/**
+ * 缓动替身
+ * 支持 to/by/set/call/delay，按线性插值由 director.tick 推进
+ */
+export class Tween<T extends object = any> {
+    static stopAll() {
+        runningTweens.clear();
+    }
+
+    static stopAllByTarget(target: any) {
+        runningTweens.forEach(tween => {
+            if (tween._target === target) {
+                runningTweens.delete(tween);
+            }
+        });
+    }
+
+    static stopAllByTag(tag: number, target?: any) {
+        runningTweens.forEach(tween => {
+            if (tween._tag === tag && (target === undefined || tween._target === target)) {
+                runningTweens.delete(tween);
+            }
+        });
+    }
+
+    /** 推进所有运行中的缓动 */
+    static update(dt: number) {
+        Array.from(runningTweens).forEach(tween => {
+            if (runningTweens.has(tween)) {
+                tween._step(dt);
+            }
+        });
+    }
+
+    _tag = -1;
+    private _actions: ITweenAction[] = [];
+    private _index = 0;
+    private _elapsed = 0;
+    private _from: Record<string, any> | null = null;
+
+    constructor(public _target: T | null = null) { }
+
+    target(target: T) {
+        this._target = target;
+        return this;
+    }
+
+    tag(tag: number) {
+        this._tag = tag;
+        return this;
+    }
+
+    to(duration: number, props: Partial<T> | Record<string, any>, opts?: any) {
+        this._actions.push({ type: 'to', duration, props });
+        return this;
+    }
+
+    by(duration: number, props: Partial<T> | Record<string, any>, opts?: any) {
+        this._actions.push({ type: 'by', duration, props });
+        return this;
+    }
+
+    set(props: Partial<T> | Record<string, any>) {
+        this._actions.push({ type: 'set', props });
+        return this;
+    }
+
+    call(callback: Function) {
+        this._actions.push({ type: 'call', callback });
+        return this;
+    }
+
+    delay(duration: number) {
+        this._actions.push({ type: 'delay', duration });
+        return this;
+    }
+
+    start() {
+        this._index = 0;
+        this._elapsed = 0;
+        this._from = null;
+        runningTweens.add(this);
+        return this;
+    }
+
+    stop() {
+        runningTweens.delete(this);
+        return this;
+    }
+
+    _step(dt: number) {
+        let target = this._target as any;
+        while (this._index < this._actions.length) {
+            if (target && target.isValid === false) {
+                this.stop();
+                return;
+            }
+            let action = this._actions[this._index];
+            if (action.type == 'call') {
+                this._index++;
+                action.callback(target);
+                continue;
+            }
+            if (action.type == 'set') {
+                this._index++;
+                Object.assign(target, action.props);
+                continue;
+            }
+            if (!this._from && action.type != 'delay') {
+                this._from = {};
+                Object.keys(action.props).forEach(key => this._from[key] = cloneValue(target[key]));
+            }
+            this._elapsed += dt;
+            let ratio = action.duration > 0 ? Math.min(this._elapsed / action.duration, 1) : 1;
+            if (action.type != 'delay') {
+                Object.keys(action.props).forEach(key => {
+                    let to = action.type == 'to' ? action.props[key] : addValue(this._from[key], action.props[key]);
+                    target[key] = lerpValue(this._from[key], to, ratio);
+                });
+            }
+            if (ratio < 1) {
+                return;
+            }
+            dt = this._elapsed - action.duration;
+            this._elapsed = 0;
+            this._from = null;
+            this._index++;
+        }
+        this.stop();
+    }
+}
+
+export function tween<T extends object>(target?: T) {
+    return new Tween<T>(target);
+}
+
+// ---------------------------------------------------------------- 导演与游戏
+
+export class Director extends EventTarget {
+    static EVENT_INIT = 'director_init';
+    static EVENT_RESET = 'director_reset';
+    static EVENT_BEFORE_SCENE_LOADING = 'director_before_scene_loading';
+    static EVENT_BEFORE_SCENE_LAUNCH = 'director_before_scene_launch';
+    static EVENT_AFTER_SCENE_LAUNCH = 'director_after_scene_launch';
+    static EVENT_BEFORE_UPDATE = 'director_before_update';
+    static EVENT_AFTER_UPDATE = 'director_after_update';
+    static EVENT_BEFORE_DRAW = 'director_before_draw';
+    static EVENT_AFTER_DRAW = 'director_after_draw';
+    static EVENT_BEFORE_COMMIT = 'director_before_commit';
+    static EVENT_BEGIN_FRAME = 'director_begin_frame';
+    static EVENT_END_FRAME = 'director_end_frame';
+
+    private _scheduler = new Scheduler();
+    private _scene: Scene | null = null;
+    private _persistRootNodes: Map<string, Node> = new Map();
+    private _totalFrames = 0;
+    private _paused = false;
+
+    constructor() {
+        super();
+        this.runSceneImmediate(new Scene('TestScene'));
+    }
+
+    getScheduler() {
+        return this._scheduler;
+    }
+
+    getScene() {
+        return this._scene;
+    }
+
+    getTotalFrames() {
+        return this._totalFrames;
+    }
+
+    isPaused() {
+        return this._paused;
+    }
+
+    pause() {
+        this._paused = true;
+    }
+
+    resume() {
+        this._paused = false;
+    }
+
+    /**
+     * 立即切换场景，常驻节点会转移到新场景，旧场景被销毁
+     * @param scene 场景或场景资源
+     */
+    runSceneImmediate(scene: Scene | SceneAsset, onBeforeLoadScene?: () => void, onLaunched?: (err: Error | null, scene?: Scene) => void) {
+        let newScene = scene instanceof SceneAsset ? scene.scene : scene;
+        assert(newScene, 'runScene: scene is null');
+        onBeforeLoadScene?.();
+        this.emit(Director.EVENT_BEFORE_SCENE_LAUNCH, newScene);
+        let oldScene = this._scene;
+        this._persistRootNodes.forEach(node => node._moveTo(newScene));
+        this._scene = runningScene = newScene;
+        oldScene?._destroyImmediate();
+        newScene._updateActiveInHierarchy();
+        onLaunched?.(null, newScene);
+        this.emit(Director.EVENT_AFTER_SCENE_LAUNCH, newScene);
+    }
+
+    /**
+     * 切换场景，与引擎一致在当前帧结束时执行
+     */
+    runScene(scene: Scene | SceneAsset, onBeforeLoadScene?: () => void, onLaunched?: (err: Error | null, scene?: Scene) => void) {
+        this.once(Director.EVENT_END_FRAME, () => {
+            this.runSceneImmediate(scene, onBeforeLoadScene, onLaunched);
+        });
+    }
+
+    loadScene(sceneName: string, onLaunched?: (err: Error | null, scene?: Scene) => void, onUnloaded?: () => void) {
+        for (let bundle of assetManager.bundles.values()) {
+            if (bundle.getInfoWithPath(sceneName, SceneAsset)) {
+                bundle.loadScene(sceneName, (err: Error, sceneAsset: SceneAsset) => {
+                    if (err) {
+                        onLaunched?.(err);
+                    } else {
+                        this.runScene(sceneAsset, onUnloaded, onLaunched);
+                    }
+                });
+                return true;
+            }
+        }
+        error(`loadScene: can not find scene ${sceneName}`);
+        return false;
+    }
+
+    preloadScene(sceneName: string, ...args: any[]) {
+        let onLoaded = args.filter(arg => typeof arg === 'function').pop();
+        Promise.resolve().then(() => onLoaded?.(null));
+    }
+
+    addPersistRootNode(node: Node) {
+        if (!(node instanceof Node) || this._persistRootNodes.has(node.uuid)) {
+            return;
+        }
+        if (!node.parent) {
+            node.parent = this._scene;
+        } else if (node.parent !== this._scene) {
+            warn('addPersistRootNode: the node must be placed in the root level of scene');
+            return;
+        }
+        node._persistNode = true;
+        this._persistRootNodes.set(node.uuid, node);
+    }
+
+    removePersistRootNode(node: Node) {
+        if (this._persistRootNodes.get(node.uuid) === node) {
+            this._persistRootNodes.delete(node.uuid);
+            node._persistNode = false;
+        }
+    }
+
+    isPersistRootNode(node: Node) {
+        return !!node._persistNode;
+    }
+
+    /**
+     * 推进一帧
+     * 顺序与引擎一致：start、update、定时器、缓动、lateUpdate，最后执行延迟销毁
+     * @param dt 帧间隔（秒）
+     */
+    tick(dt: number) {
+        this.emit(Director.EVENT_BEGIN_FRAME);
+        if (!this._paused) {
+            this.emit(Director.EVENT_BEFORE_UPDATE);
+            let comps = this.collectComponents();
+            comps.forEach(comp => {
+                if (!comp._isStarted && comp._enabledInHierarchy) {
+                    comp._isStarted = true;
+                    comp.invoke('start');
+                }
+            });
+            comps.forEach(comp => comp._enabledInHierarchy && comp._isStarted && comp.invoke('update', dt));
+            this._scheduler.update(dt);
+            Tween.update(dt);
+            comps.forEach(comp => comp._enabledInHierarchy && comp._isStarted && comp.invoke('lateUpdate', dt));
+            this.emit(Director.EVENT_AFTER_UPDATE);
+            deferredDestroy();
+        }
+        this.emit(Director.EVENT_END_FRAME);
+        this._totalFrames++;
+    }
+
+    /**
+     * 重置为只有一个空场景的初始状态（测试专用）
+     * 立即销毁当前场景及常驻节点，清空定时器与缓动
+     */
+    reset() {
+        deferredDestroy();
+        this._persistRootNodes.forEach(node => node._persistNode = false);
+        this._persistRootNodes.clear();
+        this._scheduler.unscheduleAll();
+        Tween.stopAll();
+        this._paused = false;
+        this._totalFrames = 0;
+        this.runSceneImmediate(new Scene('TestScene'));
+        deferredDestroy();
+        this.emit(Director.EVENT_RESET);
+    }
+
+    private collectComponents() {
+        let comps: Component[] = [];
+        let visit = (node: Node) => {
+            if (!node._activeInHierarchy) return;
+            comps.push(...node._components);
+            node._children.forEach(visit);
+        };
+        if (this._scene) {
+            visit(this._scene);
+        }
+        return comps;
+    }
+}
+
+export const director = new Director();
+
+export class Game extends EventTarget {
+    static EVENT_HIDE = 'game_on_hide';
+    static EVENT_SHOW = 'game_on_show';
+    static EVENT_LOW_MEMORY = 'game_on_low_memory';
+    static EVENT_GAME_INITED = 'game_inited';
+    static EVENT_ENGINE_INITED = 'engine_inited';
+    static EVENT_RESTART = 'game_on_restart';
+    static EVENT_PAUSE = 'game_on_pause';
+    static EVENT_RESUME = 'game_on_resume';
+
+    frameRate = 60;
+    /** 启动以来的累计时间（毫秒），由 FWTestHarness 推进帧时累加 */
+    totalTime = 0;
+    private _paused = false;
+
+    get frameTime() {
+        return 1000 / this.frameRate;
+    }
+
+    isPaused() {
+        return this._paused;
+    }
+
+    pause() {
+        if (!this._paused) {
+            this._paused = true;
+            this.emit(Game.EVENT_PAUSE);
+        }
+    }
+
+    resume() {
+        if (this._paused) {
+            this._paused = false;
+            this.emit(Game.EVENT_RESUME);
+        }
+    }
+
+    addPersistRootNode(node: Node) {
+        director.addPersistRootNode(node);
+    }
+
+    removePersistRootNode(node: Node) {
+        director.removePersistRootNode(node);
+    }
+
+    isPersistRootNode(node: Node) {
+        return director.isPersistRootNode(node);
+    }
+}
+
+export const game = new Game();
+
+// ---------------------------------------------------------------- 系统
+
+/**
+ * 内存中的 localStorage
+ */
+class MemoryStorage {
+    private _data: Map<string, string> = new Map();
+
+    get length() {
+        return this._data.size;
+    }
+
+    key(index: number) {
+        return Array.from(this._data.keys())[index] ?? null;
+    }
+
+    getItem(key: string) {
+        return this._data.has(key) ? this._data.get(key) : null;
+    }
+
+    setItem(key: string, value: string) {
+        this._data.set(key, String(value));
+    }
+
+    removeItem(key: string) {
+        this._data.delete(key);
+    }
+
+    clear() {
+        this._data.clear();
+    }
+}
+
+const OS = {
+    UNKNOWN: 'Unknown',
+    IOS: 'iOS',
+    ANDROID: 'Android',
+    WINDOWS: 'Windows',
+    LINUX: 'Linux',
+    OSX: 'OS X',
+    OHOS: 'OHOS',
+};
+
+const Platform = {
+    UNKNOWN: 'UNKNOWN',
+    EDITOR_PAGE: 'EDITOR_PAGE',
+    EDITOR_CORE: 'EDITOR_CORE',
+    MOBILE_BROWSER: 'MOBILE_BROWSER',
+    DESKTOP_BROWSER: 'DESKTOP_BROWSER',
+    WIN32: 'WIN32',
+    ANDROID: 'ANDROID',
+    IOS: 'IOS',
+    MACOS: 'MACOS',
+};
+
+export const sys = {
+    OS,
+    Platform,
+    localStorage: new MemoryStorage(),
+    isNative: false,
+    isBrowser: true,
+    isMobile: false,
+    os: OS.LINUX,
+    osVersion: '',
+    platform: Platform.DESKTOP_BROWSER,
+    language: 'zh',
+    languageCode: 'zh-cn',
+    now() {
+        return Date.now();
+    },
+    openURL(url: string) { },
+    garbageCollect() { },
+};
+
+/** FWFile 直接使用全局 localStorage 检查可用性 */
+if (typeof globalObject.localStorage === 'undefined') {
+    globalObject.localStorage = sys.localStorage;
+}
+
+/** 原生接口，sys.isNative 为 false 时框架不会访问 */
+export const native: Record<string, any> = {};
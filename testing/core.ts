@@ -0,0 +1,47 @@
+/**
+ * @bl-framework/core 模块替身
+ * 核心库由宿主项目提供，不在 npm 上发布，测试时用本文件代替，只实现框架用到的接口
+ *
+ * 测试运行器需要把 '@bl-framework/core' 映射到本文件，见 testing/README.md
+ */
+import * as path from 'path';
+
+export * from '../assets/events/FWEventDispatcher';
+
+/**
+ * 日志替身
+ * 默认不输出，避免用例中预期的错误日志干扰结果，设置环境变量 FW_TEST_LOG=1 时输出到控制台
+ */
+export class Log {
+    static enabled: boolean = !!process.env.FW_TEST_LOG;
+
+    static debug(...args: any[]) {
+        Log.enabled && console.debug(...args);
+    }
+
+    static info(...args: any[]) {
+        Log.enabled && console.info(...args);
+    }
+
+    static printDebug(...args: any[]) {
+        Log.enabled && console.debug(...args);
+    }
+
+    static warn(...args: any[]) {
+        Log.enabled && console.warn(...args);
+    }
+
+    static error(...args: any[]) {
+        Log.enabled && console.error(...args);
+    }
+}
+
+export const log = Log;
+
+/**
+ * 路径工具替身，按 posix 风格处理
+ */
+export const FWPath = {
+    join: (...paths: string[]) => path.posix.join(...paths),
+    normalize: (value: string) => path.posix.normalize(value),
+};
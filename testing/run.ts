@@ -0,0 +1,55 @@
+/*
+*   测试入口，由 npm test 在 tsc -p testing 之后执行
+*   1. 把 cc、cc/env、@bl-framework/core 映射到替身，ccc-axios 映射到同接口的 axios，db://bl-framework 映射到 assets 目录，其余依赖按项目正常安装
+*   2. 每个 testing/test 下的 *.test.js 在独立的子进程中加载，顶层的 beforeEach/afterEach 只作用于本文件，
+*      用例使用 node:test 编写，任一文件失败时进程以非0退出
+*   3. 传入参数时只运行文件名包含该参数的用例，例如 npm test -- NetNode
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import Module = require('module');
+
+const assetsDir = path.join(__dirname, '../assets');
+const aliases: Record<string, string> = {
+    'cc': path.join(__dirname, 'cc.js'),
+    'cc/env': path.join(__dirname, 'cc-env.js'),
+    '@bl-framework/core': path.join(__dirname, 'core.js'),
+    'ccc-axios': 'axios',
+};
+
+const resolveFilename = (Module as any)._resolveFilename;
+(Module as any)._resolveFilename = function (request: string, ...args: any[]) {
+    if (aliases[request]) {
+        request = aliases[request];
+    } else if (request.startsWith('db://bl-framework/')) {
+        request = path.join(assetsDir, request.substring('db://bl-framework/'.length));
+    }
+    return resolveFilename.call(this, request, ...args);
+};
+
+function findTests(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir).sort().reduce<string[]>((files, name) => {
+        let file = path.join(dir, name);
+        if (fs.statSync(file).isDirectory()) {
+            return files.concat(findTests(file));
+        }
+        return name.endsWith('.test.js') ? files.concat(file) : files;
+    }, []);
+}
+
+const [option, value] = process.argv.slice(2);
+if (option == '--file') {
+    require(value);
+} else {
+    let failed = findTests(path.join(__dirname, 'test'))
+        .filter(file => !option || path.basename(file).includes(option))
+        .filter(file => spawnSync(process.execPath, [__filename, '--file', file], { stdio: 'inherit' }).status !== 0);
+    if (failed.length > 0) {
+        console.error(`failed: ${failed.map(file => path.basename(file)).join(', ')}`);
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { director, game, Game } from '../cc';
+import { FWApplication } from '../../assets/FWApplication';
+import { managerObject } from '../../assets/common/FWConstant';
+import { FWTimer } from '../../assets/common/FWTimer';
+import { FWBaseManager, FWManager } from '../../assets/manager';
+import { initApplication } from '../../assets/FWDebug';
+import { FWTestHarness } from '../FWTestHarness';
+
+/**
+ * 记录生命周期回调次数的管理器，每次创建新的实例
+ */
+class ProbeManager extends FWBaseManager {
+    static created: ProbeManager[] = [];
+    updates = 0;
+    pauses = 0;
+    pauseEvents = 0;
+    resumes: number[] = [];
+    lowMemories = 0;
+
+    constructor() {
+        super();
+        ProbeManager.created.push(this);
+    }
+
+    start(): void {
+        app.manager.event.on(app.manager.event.events.ON_APP_PAUSE, () => this.pauseEvents++, this);
+    }
+
+    update(deltaTime: number): void {
+        this.updates++;
+    }
+
+    onPause(): void {
+        this.pauses++;
+    }
+
+    onResume(backgroundTime: number): void {
+        this.resumes.push(backgroundTime);
+    }
+
+    onLowMemory(): void {
+        this.lowMemories++;
+    }
+}
+
+const config = {
+    managers: {
+        probe: { ctor: () => new ProbeManager(), dependencies: ['event'] },
+    },
+};
+
+async function restart() {
+    app.restart();
+    await FWApplication.instance.manager.init();
+    await FWTestHarness.flush();
+    // 旧的UI根节点在帧末销毁
+    FWTestHarness.step();
+}
+
+beforeEach(async () => {
+    ProbeManager.created = [];
+    await FWTestHarness.boot(config);
+    FWTestHarness.step();
+});
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+});
+
+test('软重启后不残留管理器、监听与节点', async () => {
+    let scene = director.getScene();
+    let managerCount = managerObject.length;
+    let childCount = scene.children.length;
+    let persistCount = scene.children.filter(node => director.isPersistRootNode(node)).length;
+    let oldEvent = app.manager.event;
+
+    for (let i = 0; i < 3; i++) {
+        await restart();
+    }
+
+    // 管理器只保留最新一轮创建的实例
+    assert.equal(managerObject.length, managerCount);
+    assert.equal(ProbeManager.created.length, 4);
+    assert.ok(managerObject.indexOf(ProbeManager.created[0]) == -1);
+
+    // 旧的事件管理器不再持有任何监听
+    assert.notEqual(app.manager.event, oldEvent);
+    oldEvent.emit(oldEvent.events.ON_APP_PAUSE);
+    ProbeManager.created.forEach(probe => {
+        assert.equal(probe.pauseEvents, 0);
+    });
+
+    // 场景中只有一个UI根节点，常驻节点数量不变
+    assert.equal(scene.children.length, childCount);
+    assert.equal(scene.children.filter(node => node.name == '_UIRoot').length, 1);
+    assert.equal(scene.children.filter(node => director.isPersistRootNode(node)).length, persistCount);
+
+    // 帧更新与前后台切换只派发给最新的应用
+    FWTestHarness.step();
+    game.emit(Game.EVENT_HIDE);
+    let latest = ProbeManager.created[3];
+    ProbeManager.created.slice(0, 3).forEach(probe => {
+        assert.equal(probe.pauses, 0);
+        assert.equal(probe.pauseEvents, 0);
+    });
+    let updates = ProbeManager.created.slice(0, 3).map(probe => probe.updates);
+    FWTestHarness.step();
+    assert.deepEqual(ProbeManager.created.slice(0, 3).map(probe => probe.updates), updates);
+    assert.equal(latest.pauses, 1);
+    assert.equal(latest.pauseEvents, 1);
+    assert.ok(latest.updates >= 2);
+});
+
+test('初始化流程出错时发送MANAGER_INIT_FAILED', async () => {
+    FWTestHarness.shutdown();
+    let init = FWManager.prototype.init;
+    FWManager.prototype.init = () => Promise.reject(new Error('init broken'));
+    try {
+        initApplication(config);
+    } finally {
+        FWManager.prototype.init = init;
+    }
+    let failed: [string, Error][] = [];
+    let ended = 0;
+    app.manager.event.on(app.manager.event.events.MANAGER_INIT_FAILED, (key: string, error: Error) => {
+        failed.push([key, error]);
+    });
+    app.manager.event.on(app.manager.event.events.MANAGER_INIT_END, () => ended++);
+    await FWTestHarness.flush();
+
+    assert.equal(failed.length, 1);
+    assert.equal(failed[0][0], 'app');
+    assert.equal(failed[0][1].message, 'init broken');
+    assert.equal(ended, 0);
+});
+
+test('前后台切换与内存不足通知管理器并发送事件', (t) => {
+    let now = 1000;
+    t.mock.method(FWTimer, 'now', () => now);
+    let probe = ProbeManager.created[0];
+    let resumed: number[] = [];
+    let lowMemories = 0;
+    app.manager.event.on(app.manager.event.events.ON_APP_RESUME, (backgroundTime) => resumed.push(backgroundTime));
+    app.manager.event.on(app.manager.event.events.ON_APP_LOW_MEMORY, () => lowMemories++);
+
+    // 重复的切换事件只处理一次
+    game.emit(Game.EVENT_HIDE);
+    game.emit(Game.EVENT_HIDE);
+    assert.equal(app.isBackground, true);
+    assert.equal(probe.pauses, 1);
+    assert.equal(probe.pauseEvents, 1);
+    now += 500;
+    game.emit(Game.EVENT_SHOW);
+    game.emit(Game.EVENT_SHOW);
+    assert.equal(app.isBackground, false);
+    assert.deepEqual(probe.resumes, [500]);
+    assert.deepEqual(resumed, [500]);
+
+    game.emit(Game.EVENT_HIDE);
+    now += 250;
+    game.emit(Game.EVENT_SHOW);
+    assert.equal(app.backgroundTime, 250);
+    assert.equal(app.totalBackgroundTime, 750);
+
+    game.emit(Game.EVENT_LOW_MEMORY);
+    assert.equal(probe.lowMemories, 1);
+    assert.equal(lowMemories, 1);
+});
+
@@ -0,0 +1,205 @@
+import { beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { FWAxios, RequestError } from '../../assets/network/FWAxios';
+import { IFWAxiosUIAdapter } from '../../assets/network/FWAxiosUIAdapter';
+import { FWHttpCache } from '../../assets/network/FWHttpCache';
+
+/** 脚本化的响应，network表示请求发出后没有收到响应 */
+type ScriptedResponse = { status: number, data?: any, headers?: Record<string, string> } | 'network';
+
+/**
+ * 按脚本依次响应的axios适配器，记录每次请求的配置
+ */
+class ScriptAdapter {
+    script: ScriptedResponse[] = [];
+    requests: InternalAxiosRequestConfig[] = [];
+
+    readonly adapter = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        this.requests.push(config);
+        let next = this.script.shift() ?? { status: 200, data: {} };
+        if (next == 'network') {
+            return Promise.reject(new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {}));
+        }
+        let response: AxiosResponse = {
+            data: next.data ?? null,
+            status: next.status,
+            statusText: String(next.status),
+            headers: next.headers ?? {},
+            config,
+            request: {},
+        };
+        if (config.validateStatus && !config.validateStatus(response.status)) {
+            return Promise.reject(new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response));
+        }
+        return Promise.resolve(response);
+    };
+
+    header(index: number, name: string) {
+        return this.requests[index].headers.get(name);
+    }
+}
+
+/**
+ * 记录加载与错误提示的界面适配器
+ */
+class ProbeUIAdapter implements IFWAxiosUIAdapter {
+    calls: string[] = [];
+    private _nextId = 1;
+
+    showLoading(text?: string): number {
+        let id = this._nextId++;
+        this.calls.push(`show:${id}:${text ?? ''}`);
+        return id;
+    }
+
+    hideLoading(id: number): void {
+        this.calls.push(`hide:${id}`);
+    }
+
+    showError(message: string): void {
+        this.calls.push(`error:${message}`);
+    }
+}
+
+let server: ScriptAdapter;
+
+/**
+ * 创建使用脚本适配器的实例
+ */
+function createClient() {
+    let client = new FWAxios('https://example.com');
+    client.getInstance().defaults.adapter = server.adapter;
+    return client;
+}
+
+beforeEach(() => {
+    server = new ScriptAdapter();
+    FWHttpCache.instance.clear();
+});
+
+test('retry策略按状态码重试并记录每次尝试，不可恢复的状态码不重试', async () => {
+    let client = createClient();
+    server.script = [{ status: 503 }, 'network', { status: 200, data: { ok: true } }];
+    let rsp = await client.get('/retry', null, { retry: { retries: 2, baseDelay: 1, jitter: 0 } });
+    assert.deepEqual(rsp.data, { ok: true });
+    assert.deepEqual(rsp.attempts.map(item => [item.status, item.error, item.delay]), [[503, 'HTTP_503', 1], [0, 'NETWORK_ERROR', 2], [200, undefined, 0]]);
+    assert.equal(server.requests.length, 3);
+
+    server.requests = [];
+    server.script = [{ status: 404 }];
+    await assert.rejects(client.get('/retry', null, { retry: { retries: 2, baseDelay: 1 }, showError: false }), (err: RequestError) => {
+        assert.equal(err.code, 'HTTP_404');
+        assert.equal(err.attempts.length, 1);
+        return true;
+    });
+    assert.equal(server.requests.length, 1);
+});
+
+test('Retry-After优先于退避延迟，POST重试使用同一个幂等键', async () => {
+    let client = createClient();
+    server.script = [{ status: 429, headers: { 'retry-after': '0' } }, { status: 200 }];
+    let rsp = await client.get('/retry', null, { retry: { retries: 1, baseDelay: 5000, jitter: 0 } });
+    assert.deepEqual(rsp.attempts.map(item => item.delay), [0, 0]);
+
+    server.requests = [];
+    server.script = [{ status: 502 }, { status: 201 }];
+    await client.post('/order', { id: 1 }, { retry: { retries: 1, baseDelay: 1 } });
+    assert.equal(server.requests.length, 2);
+    assert.ok(server.header(0, 'Idempotency-Key'));
+    assert.equal(server.header(1, 'Idempotency-Key'), server.header(0, 'Idempotency-Key'));
+
+    server.requests = [];
+    server.script = [{ status: 502 }, { status: 201 }];
+    await assert.rejects(client.post('/order', { id: 1 }, { retry: { retries: 1, baseDelay: 1, idempotencyKey: false }, showError: false }), (err: RequestError) => err.code == 'HTTP_502');
+    assert.equal(server.requests.length, 1);
+    assert.equal(server.header(0, 'Idempotency-Key'), undefined);
+});
+
+test('未配置retry时按retryCount固定延迟重试所有方法', async () => {
+    let client = createClient();
+    server.script = [{ status: 400 }, { status: 201 }];
+    let rsp = await client.post('/legacy', {}, { retryCount: 1, retryDelay: 1 });
+    assert.equal(rsp.status, 201);
+    assert.deepEqual(rsp.attempts.map(item => item.delay), [1, 0]);
+    assert.equal(server.header(0, 'Idempotency-Key'), undefined);
+});
+
+test('缓存未过期时直接命中，过期后带验证请求头，304时继续使用缓存', async () => {
+    let client = createClient();
+    server.script = [{ status: 200, data: { list: [1] }, headers: { 'Cache-Control': 'max-age=60' } }];
+    let rsp = await client.get('/notice', { page: 1 }, { cache: 'default' });
+    assert.equal(rsp.cacheStatus, 'MISS');
+    rsp = await client.get('/notice', { page: 1 }, { cache: 'default' });
+    assert.equal(rsp.cacheStatus, 'HIT');
+    assert.deepEqual(rsp.data, { list: [1] });
+    assert.equal(server.requests.length, 1);
+
+    // 参数不同的请求使用不同的缓存
+    server.script = [{ status: 200, data: { list: [2] }, headers: { ETag: '"v2"' } }, { status: 304, headers: { 'Cache-Control': 'max-age=60' } }];
+    rsp = await client.get('/notice', { page: 2 }, { cache: 'default' });
+    assert.equal(rsp.cacheStatus, 'MISS');
+    rsp = await client.get('/notice', { page: 2 }, { cache: 'default' });
+    assert.equal(rsp.cacheStatus, 'REVALIDATED');
+    assert.deepEqual(rsp.data, { list: [2] });
+    assert.equal(server.header(2, 'If-None-Match'), '"v2"');
+    rsp = await client.get('/notice', { page: 2 }, { cache: 'default' });
+    assert.equal(rsp.cacheStatus, 'HIT');
+    assert.equal(server.requests.length, 3);
+});
+
+test('网络错误或5xx时使用过期缓存，4xx或超出staleIfError时长时报错', async (t) => {
+    let client = createClient();
+    server.script = [{ status: 200, data: { v: 1 } }, 'network', { status: 500 }, { status: 404 }];
+    await client.get('/config', null, { cache: { ttl: 0 } });
+    let rsp = await client.get('/config', null, { cache: { ttl: 0 } });
+    assert.equal(rsp.cacheStatus, 'STALE');
+    assert.deepEqual(rsp.data, { v: 1 });
+    rsp = await client.get('/config', null, { cache: { ttl: 0 } });
+    assert.equal(rsp.cacheStatus, 'STALE');
+    await assert.rejects(client.get('/config', null, { cache: { ttl: 0 }, showError: false }), (err: RequestError) => err.code == 'HTTP_404');
+
+    // 过期超过10秒后不再使用
+    let now = Date.now() + 10000;
+    t.mock.method(Date, 'now', () => now);
+    server.script = ['network'];
+    await assert.rejects(client.get('/config', null, { cache: { staleIfError: 1000 }, showError: false }), (err: RequestError) => err.code == 'NETWORK_ERROR');
+
+    await assert.rejects(client.get('/missing', null, { cache: 'only-if-cached' }), (err: RequestError) => err.code == 'CACHE_MISS');
+    assert.equal(server.requests.length, 5);
+});
+
+test('每次尝试显示并隐藏一次加载提示，最终失败时只提示一次错误', async () => {
+    let ui = new ProbeUIAdapter();
+    let client = createClient();
+    client.setUIAdapter(ui);
+    server.script = [{ status: 503 }, { status: 200 }];
+    await client.get('/list', null, { showLoading: true, loadingText: '加载列表', retry: { retries: 1, baseDelay: 1 } });
+    assert.deepEqual(ui.calls, ['show:1:加载列表', 'hide:1', 'show:2:加载列表', 'hide:2']);
+
+    ui.calls = [];
+    server.script = [{ status: 503 }, { status: 503 }];
+    await assert.rejects(client.get('/list', null, { showLoading: true, errorText: '列表加载失败', retry: { retries: 1, baseDelay: 1 } }));
+    assert.deepEqual(ui.calls, ['show:3:', 'hide:3', 'show:4:', 'hide:4', 'error:列表加载失败']);
+
+    // 不显示加载提示的请求只提示错误
+    ui.calls = [];
+    server.script = [{ status: 404 }];
+    await assert.rejects(client.get('/list'));
+    assert.deepEqual(ui.calls, ['error:请求失败: 404 404']);
+
+    client.setUIAdapter(null);
+    assert.equal(client.getUIAdapter(), FWAxios.defaultUIAdapter);
+});
+
+test('使用过期缓存时不提示错误，不能使用时补上错误提示', async () => {
+    let ui = new ProbeUIAdapter();
+    let client = createClient();
+    client.setUIAdapter(ui);
+    server.script = [{ status: 200, data: {} }, { status: 502 }, { status: 403 }];
+    await client.get('/profile', null, { cache: { ttl: 0 } });
+    assert.equal((await client.get('/profile', null, { cache: { ttl: 0 } })).cacheStatus, 'STALE');
+    assert.deepEqual(ui.calls, []);
+    await assert.rejects(client.get('/profile', null, { cache: { ttl: 0 }, errorText: '无权访问' }), (err: RequestError) => err.code == 'HTTP_403');
+    assert.deepEqual(ui.calls, ['error:无权访问']);
+});
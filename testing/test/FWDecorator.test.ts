@@ -0,0 +1,69 @@
+import { afterEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { director, Node } from '../cc';
+import { FWApplication } from '../../assets/FWApplication';
+import { initApplication } from '../../assets/FWDebug';
+import { FWEventComponent, OnEvent } from '../../assets/common/FWDecorator';
+import { FWTestHarness } from '../FWTestHarness';
+
+class Listener extends FWEventComponent {
+    initEnd = 0;
+    pauses = 0;
+
+    @OnEvent('MANAGER_INIT_END')
+    onInitEnd() {
+        this.initEnd++;
+    }
+
+    @OnEvent('ON_APP_PAUSE')
+    onPause() {
+        this.pauses++;
+    }
+}
+
+function createListener() {
+    let node = new Node('Listener');
+    let listener = node.addComponent(Listener);
+    director.getScene().addChild(node);
+    return listener;
+}
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+});
+
+test('框架初始化前启用的组件在事件管理器创建后订阅', async () => {
+    FWTestHarness.shutdown();
+    let listener = createListener();
+    initApplication();
+    await FWApplication.instance.manager.init();
+    await FWTestHarness.flush();
+    assert.equal(listener.initEnd, 1);
+
+    listener.node.destroy();
+    FWTestHarness.step();
+    app.manager.event.emit(app.manager.event.events.ON_APP_PAUSE);
+    assert.equal(listener.pauses, 0);
+});
+
+test('软重启后仍启用的组件订阅到新的事件管理器', async () => {
+    await FWTestHarness.boot();
+    let listener = createListener();
+    let oldEvent = app.manager.event;
+    // MANAGER_INIT_END 为粘性事件，晚订阅也会收到
+    assert.equal(listener.initEnd, 1);
+
+    app.restart();
+    await FWApplication.instance.manager.init();
+    await FWTestHarness.flush();
+    assert.equal(listener.initEnd, 2);
+
+    oldEvent.emit(oldEvent.events.ON_APP_PAUSE);
+    app.manager.event.emit(app.manager.event.events.ON_APP_PAUSE);
+    assert.equal(listener.pauses, 1);
+
+    listener.enabled = false;
+    app.manager.event.emit(app.manager.event.events.ON_APP_PAUSE);
+    assert.equal(listener.pauses, 1);
+    listener.node.destroy();
+});
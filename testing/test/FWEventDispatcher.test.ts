@@ -0,0 +1,166 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FWEventDispatcher } from '../../assets/events/FWEventDispatcher';
+import { FWEventRecorder } from '../../assets/events/FWEventRecorder';
+
+test('off()移除所有监听，包括通配与模式监听', () => {
+    let dispatcher = new FWEventDispatcher();
+    let calls: string[] = [];
+    dispatcher.on('game.start', () => calls.push('on'));
+    dispatcher.on('*', () => calls.push('*'));
+    dispatcher.onPattern('game.*', () => calls.push('game.*'));
+    dispatcher.onPattern('**', () => calls.push('**'));
+
+    dispatcher.off();
+    dispatcher.emit('game.start');
+    assert.deepEqual(calls, []);
+});
+
+test('录制时嵌套触发的事件排在外层事件之后，回放顺序一致', async () => {
+    let dispatcher = new FWEventDispatcher();
+    let recorder = new FWEventRecorder().start(dispatcher);
+    dispatcher.on('login', () => dispatcher.emit('profile.loaded', 1));
+    dispatcher.emit('login', 'user');
+    recorder.stop();
+
+    assert.deepEqual(recorder.records.map(record => [record.seq, record.event]), [[0, 'login'], [1, 'profile.loaded']]);
+    assert.equal(recorder.records[0].listenerCount, 1);
+    assert.ok(recorder.records[0].duration >= recorder.records[1].duration);
+
+    let target = new FWEventDispatcher();
+    let replayed: string[] = [];
+    target.on('*', (event: string) => replayed.push(event));
+    await FWEventRecorder.replay(recorder.export(), target);
+    assert.deepEqual(replayed, ['login', 'profile.loaded']);
+});
+
+function sleep(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+test('emitAsync按优先级依次等待或并行等待监听器', async () => {
+    let dispatcher = new FWEventDispatcher();
+    let calls: string[] = [];
+    dispatcher.on('save', async () => {
+        calls.push('low-start');
+        await sleep(1);
+        calls.push('low-end');
+    });
+    dispatcher.on('save', async () => {
+        calls.push('high-start');
+        await sleep(5);
+        calls.push('high-end');
+    }, undefined, 10);
+
+    assert.equal(await dispatcher.emitAsync('save', []), true);
+    assert.deepEqual(calls, ['high-start', 'high-end', 'low-start', 'low-end']);
+
+    calls = [];
+    await dispatcher.emitAsync('save', [], { mode: 'parallel' });
+    assert.deepEqual(calls, ['high-start', 'low-start', 'low-end', 'high-end']);
+    assert.equal(await dispatcher.emitAsync('missing', []), false);
+});
+
+test('emitAsync中监听器出错不中断，一次性监听器在等待期间不会再次触发', async () => {
+    let dispatcher = new FWEventDispatcher();
+    let onceCalls = 0;
+    let after = 0;
+    dispatcher.once('load', async () => {
+        onceCalls++;
+        await dispatcher.emitAsync('load', []);
+    }, undefined, 10);
+    dispatcher.on('load', async () => {
+        throw new Error('broken');
+    }, undefined, 5);
+    dispatcher.on('load', () => after++);
+
+    let error = console.error;
+    console.error = () => { };
+    try {
+        await dispatcher.emitAsync('load', []);
+    } finally {
+        console.error = error;
+    }
+    assert.equal(onceCalls, 1);
+    assert.equal(after, 2);
+});
+
+test('waitFor按过滤条件结束等待，超时后移除监听', async () => {
+    let dispatcher = new FWEventDispatcher<{ move: [x: number, y: number] }>();
+    let waiting = dispatcher.waitFor('move', { filter: (x) => x > 100 });
+    dispatcher.emit('move', 50, 0);
+    dispatcher.emit('move', 150, 20);
+    assert.deepEqual(await waiting, [150, 20]);
+    assert.equal(dispatcher.getListenerCount('move'), 0);
+
+    await assert.rejects(dispatcher.waitFor('move', { timeout: 10 }), /waitFor move timeout after 10ms/);
+    assert.equal(dispatcher.getListenerCount('move'), 0);
+});
+
+test('模式监听按段匹配，*匹配一段，**匹配零段或多段', () => {
+    let dispatcher = new FWEventDispatcher();
+    let calls: string[] = [];
+    dispatcher.onPattern('net.*.connected', (event) => calls.push(`one:${event}`));
+    dispatcher.onPattern('ui.**', (event, ...args) => calls.push(`any:${event}:${args.join(',')}`));
+
+    dispatcher.emit('net.channel0.connected');
+    dispatcher.emit('net.connected');
+    dispatcher.emit('net.a.b.connected');
+    dispatcher.emit('ui', 1);
+    dispatcher.emit('ui.dialog.shown', 2, 3);
+    dispatcher.emit('uix.dialog');
+    assert.deepEqual(calls, ['one:net.channel0.connected', 'any:ui:1', 'any:ui.dialog.shown:2,3']);
+});
+
+test('子分发器的事件加上命名空间转发给父级，offNamespace移除其中的监听', () => {
+    let dispatcher = new FWEventDispatcher();
+    let channel = dispatcher.scope<{ closed: [code: number] }>('net.channel0');
+    let calls: string[] = [];
+    assert.equal(dispatcher.scope('net').scope('channel0'), channel);
+    assert.equal(channel.getNamespace(), 'net.channel0');
+
+    channel.on('closed', (code) => calls.push(`channel:${code}`));
+    dispatcher.on('net.channel0.closed', (code: number) => calls.push(`parent:${code}`));
+    dispatcher.onPattern('net.**', (event) => calls.push(`pattern:${event}`));
+    dispatcher.on('game.start', () => calls.push('game'));
+
+    assert.equal(channel.emit('closed', 1000), true);
+    assert.deepEqual(calls, ['channel:1000', 'parent:1000', 'pattern:net.channel0.closed']);
+
+    calls = [];
+    dispatcher.offNamespace('net');
+    channel.emit('closed', 1001);
+    dispatcher.emit('game.start');
+    assert.deepEqual(calls, ['game']);
+});
+
+test('粘性事件向晚订阅的监听器回放最近的参数', async () => {
+    let dispatcher = new FWEventDispatcher<{ chat: [text: string], ready: [] }>();
+    dispatcher.setSticky('chat', 2);
+    dispatcher.emit('chat', 'a');
+    dispatcher.emit('chat', 'b');
+    dispatcher.emit('chat', 'c');
+    assert.deepEqual(dispatcher.getStickyPayload('chat'), ['c']);
+
+    let all: string[] = [];
+    let once: string[] = [];
+    dispatcher.on('chat', (text) => all.push(text));
+    dispatcher.once('chat', (text) => once.push(text));
+    assert.deepEqual(all, ['b', 'c']);
+    assert.deepEqual(once, ['c']);
+    dispatcher.emit('chat', 'd');
+    assert.deepEqual(once, ['c']);
+
+    // 已触发的粘性事件使waitFor立即结束
+    dispatcher.setSticky('ready');
+    dispatcher.emit('ready');
+    assert.deepEqual(await dispatcher.waitFor('ready', { timeout: 10 }), []);
+
+    dispatcher.clearSticky('chat');
+    let late: string[] = [];
+    dispatcher.on('chat', (text) => late.push(text));
+    assert.deepEqual(late, []);
+    assert.equal(dispatcher.isSticky('chat'), true);
+    dispatcher.removeSticky('chat');
+    assert.equal(dispatcher.isSticky('chat'), false);
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Component, Node } from '../cc';
+import { FWTestHarness } from '../FWTestHarness';
+
+class ProbeComponent extends Component {
+}
+
+beforeEach(async () => {
+    await FWTestHarness.boot();
+});
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+});
+
+test('offTarget移除节点的销毁回调，节点销毁时仍自动移除重新绑定的监听', () => {
+    let event = app.manager.event;
+    let node = new Node('target');
+    let calls = 0;
+
+    event.on(event.events.ON_APP_PAUSE, () => calls++, node);
+    assert.equal(node.hasEventListener(Node.EventType.NODE_DESTROYED), true);
+    event.offTarget(node);
+    assert.equal(node.hasEventListener(Node.EventType.NODE_DESTROYED), false);
+
+    event.on(event.events.ON_APP_PAUSE, () => calls++, node);
+    assert.equal(node.hasEventListener(Node.EventType.NODE_DESTROYED), true);
+    node.destroy();
+    FWTestHarness.step();
+    event.emit(event.events.ON_APP_PAUSE);
+    assert.equal(calls, 0);
+});
+
+test('节点销毁时移除其组件的监听，单独销毁的组件在下次触发时移除', () => {
+    let event = app.manager.event;
+    let calls: string[] = [];
+    let node = new Node('owner');
+    let comp = node.addComponent(ProbeComponent);
+    let other = new Node('other').addComponent(ProbeComponent);
+    event.on(event.events.ON_APP_PAUSE, () => calls.push('comp'), comp);
+    event.on(event.events.ON_APP_PAUSE, () => calls.push('other'), other);
+
+    other.destroy();
+    FWTestHarness.step();
+    assert.deepEqual(event.getInvalidListeners().map(info => info.target), [other]);
+    event.emit(event.events.ON_APP_PAUSE);
+    assert.deepEqual(calls, ['comp']);
+    assert.deepEqual(event.getInvalidListeners(), []);
+
+    node.destroy();
+    FWTestHarness.step();
+    assert.deepEqual(event.getInvalidListeners(), []);
+    event.emit(event.events.ON_APP_PAUSE);
+    assert.deepEqual(calls, ['comp']);
+});
+
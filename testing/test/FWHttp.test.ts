@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { director, Node } from '../cc';
+import { FWCancelController, FWHttp, HttpError, HttpMethod } from '../../assets/network/FWHttp';
+
+/** 脚本化的响应，hang表示不响应直到请求被中断 */
+type ScriptedResponse = { status: number, body?: any, headers?: Record<string, string> } | 'network' | 'timeout' | 'hang';
+
+/**
+ * 按脚本依次响应的XMLHttpRequest替身，记录每次请求的方法、URL与请求头
+ */
+class ScriptXHR {
+    static script: ScriptedResponse[] = [];
+    static requests: { method: string, url: string, headers: Record<string, string> }[] = [];
+
+    onload: () => void = null;
+    onerror: () => void = null;
+    ontimeout: () => void = null;
+    onabort: () => void = null;
+    withCredentials = false;
+    responseType = '';
+    timeout = 0;
+    status = 0;
+    statusText = '';
+    response: any = null;
+    responseURL = '';
+    private _headers: Record<string, string> = {};
+    private _responseHeaders: Record<string, string> = {};
+    private _done = false;
+
+    open(method: string, url: string) {
+        ScriptXHR.requests.push({ method, url, headers: this._headers });
+        this.responseURL = url;
+    }
+
+    setRequestHeader(key: string, value: string) {
+        this._headers[key] = value;
+    }
+
+    getAllResponseHeaders() {
+        return Object.keys(this._responseHeaders).map(key => `${key}: ${this._responseHeaders[key]}`).join('\r\n');
+    }
+
+    send() {
+        let next = ScriptXHR.script.shift() ?? { status: 200, body: {} };
+        if (next == 'hang') {
+            return;
+        }
+        setTimeout(() => {
+            if (this._done) {
+                return;
+            }
+            this._done = true;
+            if (next == 'network') {
+                this.onerror();
+            } else if (next == 'timeout') {
+                this.ontimeout();
+            } else if (typeof next == 'object') {
+                this.status = next.status;
+                this.response = JSON.stringify(next.body ?? null);
+                this._responseHeaders = next.headers ?? {};
+                this.onload();
+            }
+        }, 0);
+    }
+
+    abort() {
+        if (this._done) {
+            return;
+        }
+        this._done = true;
+        setTimeout(() => this.onabort(), 0);
+    }
+}
+
+let xhr: any;
+
+beforeEach(() => {
+    xhr = (globalThis as any).XMLHttpRequest;
+    (globalThis as any).XMLHttpRequest = ScriptXHR;
+    ScriptXHR.script = [];
+    ScriptXHR.requests = [];
+});
+
+afterEach(() => {
+    (globalThis as any).XMLHttpRequest = xhr;
+});
+
+test('only-if-cached没有缓存时以CACHE_MISS失败', async () => {
+    await assert.rejects(FWHttp.request('https://example.com/notice', { cache: { mode: 'only-if-cached' } }), (err: HttpError) => {
+        assert.ok(err instanceof HttpError);
+        assert.equal(err.code, 'CACHE_MISS');
+        assert.equal(err.status, 0);
+        return true;
+    });
+    assert.equal(ScriptXHR.requests.length, 0);
+});
+
+test('request解析JSON响应，按错误码区分失败', async () => {
+    ScriptXHR.script = [{ status: 200, body: { id: 1 }, headers: { 'X-Trace': 'abc' } }, { status: 404, body: { msg: 'none' } }, 'network', 'timeout'];
+    let rsp = await FWHttp.request<{ id: number }>('https://example.com/user', { params: { id: 1, name: 'a b' } });
+    assert.deepEqual(rsp.data, { id: 1 });
+    assert.equal(rsp.headers['X-Trace'], 'abc');
+    assert.equal(ScriptXHR.requests[0].url, 'https://example.com/user?id=1&name=a%20b');
+
+    await assert.rejects(FWHttp.request('https://example.com/user'), (err: HttpError) => {
+        assert.equal(err.code, 'HTTP');
+        assert.equal(err.status, 404);
+        assert.deepEqual(err.response.data, { msg: 'none' });
+        return true;
+    });
+    await assert.rejects(FWHttp.request('https://example.com/user'), (err: HttpError) => err.code == 'NETWORK');
+    await assert.rejects(FWHttp.request('https://example.com/user'), (err: HttpError) => err.code == 'TIMEOUT');
+});
+
+test('取消信号与所属对象可中断请求，取消原因记录在错误中', async () => {
+    let reason = new Error('leave');
+    let aborted = new FWCancelController();
+    aborted.abort(reason);
+    await assert.rejects(FWHttp.request('https://example.com/a', { signal: aborted.signal }), (err: HttpError) => err.code == 'ABORT' && err.reason === reason);
+    assert.equal(ScriptXHR.requests.length, 0);
+
+    ScriptXHR.script = ['hang', 'hang', 'hang', 'hang'];
+    let controller = new FWCancelController();
+    let bySignal = FWHttp.request('https://example.com/a', { signal: controller.signal });
+    controller.abort(reason);
+    await assert.rejects(bySignal, (err: HttpError) => err.code == 'ABORT' && err.reason === reason);
+
+    let owner = {};
+    let first = FWHttp.request('https://example.com/a', { owner });
+    let second = FWHttp.request('https://example.com/b', { owner, method: HttpMethod.DELETE });
+    assert.equal(FWHttp.getOwnerRequestCount(owner), 2);
+    assert.equal(FWHttp.cancelOwner(owner), 2);
+    await assert.rejects(first, (err: HttpError) => err.code == 'ABORT');
+    await assert.rejects(second, (err: HttpError) => err.code == 'ABORT');
+    assert.equal(FWHttp.getOwnerRequestCount(owner), 0);
+
+    // 所属节点销毁时自动取消
+    let node = new Node('dialog');
+    let byNode = FWHttp.request('https://example.com/c', { owner: node });
+    node.destroy();
+    director.tick(0);
+    await assert.rejects(byNode, (err: HttpError) => err.code == 'ABORT' && err.reason?.message == 'owner destroyed');
+});
+
+test('可恢复的失败按策略重试并记录每次尝试，Retry-After优先于退避延迟', async () => {
+    ScriptXHR.script = [{ status: 503 }, 'network', { status: 200, body: { ok: true } }];
+    let rsp = await FWHttp.request('https://example.com/retry', { retry: { retries: 2, baseDelay: 1, jitter: 0 } });
+    assert.deepEqual(rsp.data, { ok: true });
+    assert.deepEqual(rsp.attempts.map(item => [item.status, item.error, item.delay]), [[503, 'HTTP', 1], [0, 'NETWORK', 2], [200, undefined, 0]]);
+    assert.equal(ScriptXHR.requests.length, 3);
+
+    ScriptXHR.script = [{ status: 429, headers: { 'Retry-After': '0' } }, { status: 200 }];
+    rsp = await FWHttp.request('https://example.com/retry', { retry: { retries: 1, baseDelay: 5000, jitter: 0 } });
+    assert.deepEqual(rsp.attempts.map(item => item.delay), [0, 0]);
+
+    // Retry-After超过maxDelay时不再重试
+    ScriptXHR.script = [{ status: 503, headers: { 'Retry-After': '60' } }];
+    await assert.rejects(FWHttp.request('https://example.com/retry', { retry: { retries: 1, baseDelay: 1 } }), (err: HttpError) => err.status == 503 && err.attempts.length == 1);
+});
+
+test('不可恢复的状态码不重试，重试次数用尽时错误带上全部尝试', async () => {
+    ScriptXHR.script = [{ status: 404 }];
+    await assert.rejects(FWHttp.request('https://example.com/retry', { retry: { retries: 3, baseDelay: 1 } }), (err: HttpError) => {
+        assert.deepEqual(err.attempts.map(item => item.status), [404]);
+        return true;
+    });
+    assert.equal(ScriptXHR.requests.length, 1);
+
+    ScriptXHR.script = ['timeout', 'timeout', 'timeout'];
+    await assert.rejects(FWHttp.request('https://example.com/retry', { retry: { retries: 2, baseDelay: 1, jitter: 0 } }), (err: HttpError) => {
+        assert.equal(err.code, 'TIMEOUT');
+        assert.deepEqual(err.attempts.map(item => item.delay), [1, 2, 0]);
+        return true;
+    });
+});
+
+test('POST每次重试使用同一个幂等键，关闭幂等键时不重试', async () => {
+    ScriptXHR.script = [{ status: 502 }, { status: 200 }];
+    await FWHttp.request('https://example.com/order', { method: HttpMethod.POST, body: '{}', retry: { retries: 1, baseDelay: 1 } });
+    let keys = ScriptXHR.requests.map(item => item.headers['Idempotency-Key']);
+    assert.equal(keys.length, 2);
+    assert.match(keys[0], /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    assert.equal(keys[1], keys[0]);
+
+    ScriptXHR.requests = [];
+    ScriptXHR.script = [{ status: 502 }, { status: 200 }];
+    await assert.rejects(FWHttp.request('https://example.com/order', { method: HttpMethod.POST, body: '{}', retry: { retries: 1, baseDelay: 1, idempotencyKey: false } }), (err: HttpError) => err.status == 502);
+    assert.equal(ScriptXHR.requests.length, 1);
+    assert.equal(ScriptXHR.requests[0].headers['Idempotency-Key'], undefined);
+});
+
+test('重试等待期间取消请求以ABORT失败', async () => {
+    ScriptXHR.script = [{ status: 503 }];
+    let controller = new FWCancelController();
+    let request = FWHttp.request('https://example.com/retry', { signal: controller.signal, retry: { retries: 1, baseDelay: 5000 } });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+    await assert.rejects(request, (err: HttpError) => err.code == 'ABORT' && err.attempts.length == 1);
+    assert.equal(ScriptXHR.requests.length, 1);
+});
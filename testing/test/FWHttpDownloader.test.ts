@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { sys } from '../cc';
+import { FWFile } from '../../assets/common/FWFile';
+import { FWHttpDownloader } from '../../assets/network/FWHttpDownloader';
+
+/**
+ * 按Range返回文件内容的XMLHttpRequest替身
+ */
+class RangeXHR {
+    static file: Uint8Array = new Uint8Array(0);
+    static requests = 0;
+
+    onload: () => void = null;
+    onerror: () => void = null;
+    ontimeout: () => void = null;
+    onabort: () => void = null;
+    onprogress: (event: any) => void = null;
+    withCredentials = false;
+    responseType = '';
+    timeout = 0;
+    status = 0;
+    statusText = '';
+    response: ArrayBuffer = null;
+    private _headers: Record<string, string> = {};
+    private _responseHeaders: Record<string, string> = {};
+
+    open() {
+    }
+
+    setRequestHeader(key: string, value: string) {
+        this._headers[key] = value;
+    }
+
+    getAllResponseHeaders() {
+        return Object.keys(this._responseHeaders).map(key => `${key}: ${this._responseHeaders[key]}`).join('\r\n');
+    }
+
+    send() {
+        RangeXHR.requests++;
+        let file = RangeXHR.file;
+        let match = /^bytes=(\d+)-(\d*)$/.exec(this._headers['Range'] ?? '');
+        let start = match ? parseInt(match[1], 10) : 0;
+        let end = match && match[2] ? Math.min(parseInt(match[2], 10), file.length - 1) : file.length - 1;
+        this.status = match ? 206 : 200;
+        this.response = file.slice(start, end + 1).buffer;
+        if (match) {
+            this._responseHeaders['Content-Range'] = `bytes ${start}-${end}/${file.length}`;
+        }
+        setTimeout(() => this.onload(), 0);
+    }
+
+    abort() {
+    }
+}
+
+function createFile(size: number) {
+    return Uint8Array.from({ length: size }, (_, i) => i % 251);
+}
+
+let xhr: any;
+let webMaxSize: number;
+
+beforeEach(() => {
+    xhr = (globalThis as any).XMLHttpRequest;
+    (globalThis as any).XMLHttpRequest = RangeXHR;
+    webMaxSize = FWHttpDownloader.WEB_MAX_SIZE;
+    RangeXHR.requests = 0;
+    sys.localStorage.clear();
+});
+
+afterEach(() => {
+    (globalThis as any).XMLHttpRequest = xhr;
+    FWHttpDownloader.WEB_MAX_SIZE = webMaxSize;
+});
+
+test('分块合并后的文件内容完整，分块文件被删除', async () => {
+    RangeXHR.file = createFile(2500);
+    let result = await FWHttpDownloader.download('https://cdn.example.com/a.bin', 'dlc/a.bin', { chunkSize: 1000 });
+
+    assert.equal(RangeXHR.requests, 3);
+    assert.equal(result.size, 2500);
+    assert.deepEqual(new Uint8Array(FWFile.readFile(FWFile.getFullPath(result.path), true) as ArrayBuffer), RangeXHR.file);
+    assert.equal(FWFile.readFile(FWFile.getFullPath('dlc/a.bin.part0'), true), null);
+    assert.equal(FWHttpDownloader.getState('dlc/a.bin'), null);
+});
+
+test('merge为false时保留分块文件，不写入目标文件', async () => {
+    RangeXHR.file = createFile(2500);
+    let result = await FWHttpDownloader.download('https://cdn.example.com/b.bin', 'dlc/b.bin', { chunkSize: 1000, merge: false });
+
+    assert.equal(result.size, 2500);
+    assert.deepEqual(result.parts, ['dlc/b.bin.part0', 'dlc/b.bin.part1', 'dlc/b.bin.part2']);
+    let bytes = result.parts.map(part => new Uint8Array(FWFile.readFile(FWFile.getFullPath(part), true) as ArrayBuffer));
+    assert.deepEqual(Uint8Array.from(bytes.flatMap(item => Array.from(item))), RangeXHR.file);
+    assert.equal(FWFile.readFile(FWFile.getFullPath('dlc/b.bin'), true), null);
+    assert.equal(FWHttpDownloader.getState('dlc/b.bin'), null);
+});
+
+test('Web平台超过WEB_MAX_SIZE时失败且不保留分块', async () => {
+    FWHttpDownloader.WEB_MAX_SIZE = 2000;
+    RangeXHR.file = createFile(2500);
+    await assert.rejects(FWHttpDownloader.download('https://cdn.example.com/c.bin', 'dlc/c.bin', { chunkSize: 1000 }), /too large/);
+
+    assert.equal(RangeXHR.requests, 1);
+    assert.equal(FWFile.readFile(FWFile.getFullPath('dlc/c.bin.part0'), true), null);
+    assert.equal(FWHttpDownloader.getState('dlc/c.bin'), null);
+});
@@ -0,0 +1,196 @@
+import { afterEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { game, Game } from '../cc';
+import { managerObject } from '../../assets/common/FWConstant';
+import { FWApplication } from '../../assets/FWApplication';
+import { FWBaseManager } from '../../assets/manager';
+import { initApplication } from '../../assets/FWDebug';
+import { FWTestHarness } from '../FWTestHarness';
+
+/**
+ * 按调用顺序记录生命周期回调的管理器
+ */
+class OrderManager extends FWBaseManager {
+    static calls: string[] = [];
+
+    constructor(readonly key: string) {
+        super();
+    }
+
+    start(): void {
+        OrderManager.calls.push(`start:${this.key}`);
+    }
+
+    update(deltaTime: number): void {
+        OrderManager.calls.push(`update:${this.key}`);
+    }
+
+    onPause(): void {
+        OrderManager.calls.push(`pause:${this.key}`);
+    }
+}
+
+/**
+ * init结果可控的管理器
+ */
+class InitManager extends FWBaseManager {
+    inited = false;
+
+    constructor(readonly error?: Error) {
+        super();
+    }
+
+    async init() {
+        if (this.error) {
+            throw this.error;
+        }
+        this.inited = true;
+    }
+}
+
+/**
+ * 记录固定步长更新的管理器
+ */
+class FixedManager extends FWBaseManager {
+    useFixedUpdate = true;
+    steps: number[] = [];
+    updates = 0;
+
+    fixedUpdate(fixedDeltaTime: number): void {
+        this.steps.push(fixedDeltaTime);
+    }
+
+    update(deltaTime: number): void {
+        this.updates++;
+    }
+}
+
+function callsOf(type: string) {
+    return OrderManager.calls.filter(call => call.startsWith(type + ':')).map(call => call.slice(type.length + 1));
+}
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+    OrderManager.calls = [];
+});
+
+test('updateOrder只影响update顺序，其余生命周期保持依赖顺序', async () => {
+    await FWTestHarness.boot({
+        managers: {
+            base: { ctor: () => new OrderManager('base'), updateOrder: 10 },
+            child: { ctor: () => new OrderManager('child'), dependencies: ['base'], updateOrder: -10 },
+        },
+    });
+    let order = managerObject.slice();
+    FWTestHarness.step();
+    game.emit(Game.EVENT_HIDE);
+
+    assert.deepEqual(callsOf('start'), ['base', 'child']);
+    assert.deepEqual(callsOf('update'), ['child', 'base']);
+    assert.deepEqual(callsOf('pause'), ['base', 'child']);
+    assert.deepEqual(managerObject, order);
+
+    // 运行时修改优先级后重新排序
+    OrderManager.calls = [];
+    app.manager.get<OrderManager>('base').updatePriority = -20;
+    FWTestHarness.step();
+    assert.deepEqual(callsOf('update'), ['base', 'child']);
+});
+
+test('管理器依赖成环时初始化抛出错误并给出环路', () => {
+    FWTestHarness.shutdown();
+    assert.throws(() => initApplication({
+        managers: {
+            a: { ctor: () => new InitManager(), dependencies: ['b'] },
+            b: { ctor: () => new InitManager(), dependencies: ['c'] },
+            c: { ctor: () => new InitManager(), dependencies: ['a'] },
+        },
+    }), /manager dependency cycle: a -> b -> c -> a/);
+});
+
+test('依赖初始化失败时逐级标记失败，不影响其他管理器', async () => {
+    let ended = 0;
+    await FWTestHarness.boot({
+        managers: {
+            root: { ctor: () => new InitManager(new Error('boom')) },
+            middle: { ctor: () => new InitManager(), dependencies: ['root'] },
+            leaf: { ctor: () => new InitManager(), dependencies: ['middle'] },
+            other: { ctor: () => new InitManager() },
+        },
+    });
+    app.manager.event.on(app.manager.event.events.MANAGER_INIT_END, () => ended++);
+
+    assert.equal(app.manager.getInitError('root').message, 'boom');
+    assert.equal(app.manager.getInitError('middle').message, 'dependency root init failed: boom');
+    assert.equal(app.manager.getInitError('leaf').message, 'dependency middle init failed: dependency root init failed: boom');
+    assert.equal(app.manager.get<InitManager>('middle').inited, false);
+    assert.equal(app.manager.get<InitManager>('leaf').inited, false);
+    assert.equal(app.manager.get<InitManager>('other').inited, true);
+    assert.equal(app.manager.getInitError('other'), undefined);
+    // 初始化结束事件是粘性的，失败后仍会发送
+    assert.equal(ended, 1);
+});
+
+
+test('运行时添加的管理器完成初始化，子包释放时自动移除', async () => {
+    await FWTestHarness.boot({
+        managers: {
+            quest: { ctor: () => new InitManager() },
+            broken: { ctor: () => new InitManager(new Error('boom')) },
+        },
+    });
+    let failed: string[] = [];
+    app.manager.event.on(app.manager.event.events.MANAGER_INIT_FAILED, (key: string) => failed.push(key));
+    assert.equal(app.manager.has('quest'), true);
+    assert.equal(app.manager.get<InitManager>('quest').inited, true);
+
+    let shop = await app.manager.addManager('shop', () => new InitManager(), { dependencies: ['quest'], bundle: 'shop' });
+    assert.equal(shop.inited, true);
+    assert.equal(app.manager.get('shop'), shop);
+    assert.ok(managerObject.indexOf(shop) != -1);
+
+    await assert.rejects(app.manager.addManager('guild', () => new InitManager(), { dependencies: ['broken'] }), /dependency broken init failed: boom/);
+    assert.deepEqual(failed, ['guild']);
+
+    app.manager.event.emit(app.manager.event.events.ON_BUNDLE_RELEASE, 'shop');
+    assert.equal(app.manager.has('shop'), false);
+    assert.equal(managerObject.indexOf(shop), -1);
+
+    assert.equal(app.manager.removeManager('quest'), true);
+    assert.equal(app.manager.removeManager('quest'), false);
+    assert.equal(app.manager.get('quest'), undefined);
+});
+
+test('fixedUpdate按固定步长累积，单帧超出maxFixedSteps的时间被丢弃', async () => {
+    await FWTestHarness.boot({ managers: { fixed: { ctor: () => new FixedManager() } } });
+    let manager = FWApplication.instance.manager;
+    let fixed = manager.get<FixedManager>('fixed');
+    manager.fixedTimeStep = 0.125;
+    manager.maxFixedSteps = 3;
+
+    FWTestHarness.step(0.0625);
+    assert.equal(fixed.steps.length, 0);
+    assert.equal(manager.fixedAlpha, 0.5);
+    FWTestHarness.step(0.0625);
+    assert.deepEqual(fixed.steps, [0.125]);
+    assert.equal(manager.fixedAlpha, 0);
+
+    // 卡顿一帧最多追3步，多余的整步被丢弃，只保留不足一步的部分
+    fixed.steps = [];
+    FWTestHarness.step(1.0625);
+    assert.equal(fixed.steps.length, 3);
+    assert.equal(manager.fixedAlpha, 0.5);
+
+    // 暂停后不再调用update与fixedUpdate
+    fixed.steps = [];
+    fixed.pause();
+    let updates = fixed.updates;
+    FWTestHarness.step(0.25);
+    assert.equal(fixed.steps.length, 0);
+    assert.equal(fixed.updates, updates);
+    fixed.resume();
+    FWTestHarness.step(0.125);
+    assert.equal(fixed.steps.length, 1);
+    assert.equal(fixed.updates, updates + 1);
+});
+
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NetNode, NetNodeState } from '../../assets/network/NetNode';
+import { NetRequestError } from '../../assets/network/NetInterface';
+import { BinaryProtocolHelper } from '../../assets/network/BinaryProtocol';
+import { JsonCodec, NetCodecRegistry } from '../../assets/network/NetCodec';
+import { FWMockNetServer, FWMockSocket } from '../FWMockNet';
+import { FWTestHarness } from '../FWTestHarness';
+
+const Cmd = {
+    Echo: 1,
+};
+
+function sleep(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 创建连接到指定服务器的节点，服务器回显请求并附带服务器名称
+ */
+function createChannel(serverName: string) {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()) });
+    let server = new FWMockNetServer({ protocol: helper });
+    server.handle(Cmd.Echo, (msg) => helper.encodePackage(Cmd.Echo, helper.getPackageSeq(msg), { server: serverName }));
+    let node = new NetNode();
+    node.init(new FWMockSocket(server), helper);
+    return node;
+}
+
+beforeEach(async () => {
+    await FWTestHarness.boot();
+});
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+});
+
+test('按频道名称收发并广播连接事件，应用销毁时关闭所有频道', async () => {
+    let net = app.manager.net;
+    let working: string[] = [];
+    app.manager.event.on(app.manager.event.events.ON_NET_WORKING, (name) => working.push(name));
+    let game = net.addChannel(createChannel('game-server'), 'game');
+    let chat = net.addChannel(createChannel('chat-server'), 'chat');
+    assert.equal(game.name, 'game');
+    assert.deepEqual(net.channelNames, ['game', 'chat']);
+
+    assert.equal(net.connect({ url: 'mock://game' }, 'game'), true);
+    assert.equal(net.connect({ url: 'mock://chat' }, 'chat'), true);
+    assert.equal(net.connect({ url: 'mock://none' }, 'none'), false);
+    await sleep(10);
+    assert.deepEqual(working.sort(), ['chat', 'game']);
+    assert.equal(net.getState('game'), NetNodeState.Working);
+    assert.equal(net.getState('none'), NetNodeState.Closed);
+
+    assert.deepEqual(await net.request(Cmd.Echo, {}, {}, 'chat'), { server: 'chat-server' });
+    assert.deepEqual(await net.request(Cmd.Echo, {}, {}, 'game'), { server: 'game-server' });
+    await assert.rejects(net.request(Cmd.Echo, {}, {}, 'none'), (err: NetRequestError) => err.code == 'CLOSED');
+
+    FWTestHarness.shutdown();
+    await sleep(10);
+    assert.equal(game.getState(), NetNodeState.Closed);
+    assert.equal(chat.getState(), NetNodeState.Closed);
+});
+
+test('同名频道替换时关闭旧节点，移除频道时可选择保留连接', async () => {
+    let net = app.manager.net;
+    let old = net.addChannel(createChannel('old'));
+    net.connect({ url: 'mock://old' });
+    await sleep(10);
+    let node = net.addChannel(createChannel('new'));
+    await sleep(10);
+    assert.equal(old.getState(), NetNodeState.Closed);
+    assert.equal(net.getChannel(), node);
+
+    net.connect({ url: 'mock://new' });
+    await sleep(10);
+    assert.equal(net.removeChannel('default', false), true);
+    assert.equal(net.removeChannel('default'), false);
+    assert.equal(net.hasChannel('default'), false);
+    assert.equal(node.isWorking(), true);
+    node.close();
+});
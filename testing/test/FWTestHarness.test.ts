@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { director, Node, Prefab, Scene, SceneAsset } from '../cc';
+import { FWUIDialog } from '../../assets/ui';
+import { SettingKey } from '../../assets/manager/data/FWSettingData';
+import { FWTestHarness } from '../FWTestHarness';
+
+beforeEach(async () => {
+    await FWTestHarness.boot();
+});
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+});
+
+test('启动后发送MANAGER_INIT_END', () => {
+    let count = 0;
+    app.manager.event.on(app.manager.event.events.MANAGER_INIT_END, () => count++);
+    assert.equal(count, 1);
+});
+
+test('弹窗队列', async () => {
+    let node = new Node('Dialog');
+    node.addComponent(FWUIDialog);
+    let prefab = new Prefab();
+    prefab.data = node;
+    FWTestHarness.registerBundle('ui', { 'prefab/dialog': prefab });
+
+    let promise = app.manager.ui.showDialog({ bundleName: 'ui', path: 'prefab/dialog' });
+    await FWTestHarness.runFrames(2);
+    let dialog = await promise;
+    assert.equal(app.manager.ui.dialog.curDialog, dialog);
+});
+
+test('场景队列', async () => {
+    let sceneAsset = new SceneAsset();
+    sceneAsset.scene = new Scene('Game');
+    FWTestHarness.registerBundle('game', { 'Game': sceneAsset });
+
+    app.manager.scene.changeScene('game', 'Game');
+    await FWTestHarness.runFrames(5);
+    assert.equal(director.getScene().name, 'Game');
+});
+
+test('数据持久化', async () => {
+    app.manager.data.setting.bgmVolume = 0.3;
+    FWTestHarness.shutdown({ keepStorage: true });
+    await FWTestHarness.boot();
+    assert.equal(app.manager.data.setting.getFloat(SettingKey.BGM_VOLUME), 0.3);
+});
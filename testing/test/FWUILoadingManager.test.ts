@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Node, Prefab } from '../cc';
+import { constant } from '../../assets/common/FWConstant';
+import { FWUIRequestLoading } from '../../assets/ui';
+import { FWAxiosUIAdapter } from '../../assets/network/FWAxiosUIAdapter';
+import { FWTestHarness } from '../FWTestHarness';
+
+/**
+ * 记录文本的请求加载提示
+ */
+class ProbeRequestLoading extends FWUIRequestLoading {
+    texts: string[] = [];
+
+    setText(text: string) {
+        this.texts.push(text);
+        super.setText(text);
+    }
+}
+
+/**
+ * 当前显示中的请求加载提示
+ */
+function getViews() {
+    return app.manager.ui.uiRoot.staticNode.loading.getComponentsInChildren(ProbeRequestLoading).filter(view => view.isValid);
+}
+
+beforeEach(async () => {
+    let node = new Node('requestLoading');
+    node.addComponent(ProbeRequestLoading);
+    let prefab = new Prefab();
+    prefab.data = node;
+    constant.default_requestLoadingPrefab = prefab as any;
+    await FWTestHarness.boot();
+});
+
+afterEach(() => {
+    FWTestHarness.shutdown();
+    constant.default_requestLoadingPrefab = null;
+});
+
+test('多个请求共用一个加载提示，显示最近开始的请求文本，全部结束后隐藏', async () => {
+    let loading = app.manager.ui.loading;
+    let first = loading.beginRequest('登录中');
+    let second = loading.beginRequest('拉取数据');
+    let views = getViews();
+    assert.equal(views.length, 1);
+    assert.equal(loading.requestCount, 2);
+    assert.deepEqual(views[0].texts, ['登录中', '拉取数据']);
+
+    loading.endRequest(second);
+    assert.deepEqual(views[0].texts, ['登录中', '拉取数据', '登录中']);
+    // 重复结束与未知标识被忽略
+    loading.endRequest(second);
+    loading.endRequest(999);
+    assert.equal(loading.requestCount, 1);
+
+    loading.endRequest(first);
+    assert.equal(loading.requestCount, 0);
+    await FWTestHarness.runFrames(30, 0.1);
+    assert.equal(getViews().length, 0);
+
+    // 隐藏后再开始的请求创建新的提示
+    let third = loading.beginRequest();
+    assert.equal(getViews().length, 1);
+    assert.notEqual(getViews()[0], views[0]);
+    loading.endRequest(third);
+});
+
+test('closeAll丢弃进行中的请求，默认界面适配器通过加载管理器显示提示', () => {
+    let loading = app.manager.ui.loading;
+    let adapter = FWAxiosUIAdapter.instance;
+    let id = adapter.showLoading();
+    assert.equal(loading.requestCount, 1);
+    assert.deepEqual(getViews()[0].texts, [adapter.loadingText]);
+    adapter.hideLoading(id);
+    assert.equal(loading.requestCount, 0);
+
+    loading.beginRequest('a');
+    loading.closeAll();
+    assert.equal(loading.requestCount, 0);
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as zlib from 'node:zlib';
+import { deflateRaw, inflateRaw } from '../../assets/network/NetDeflate';
+import { AesMiddleware, DeflateMiddleware, NetMiddlewareFlag } from '../../assets/network/NetMiddleware';
+import { NetNode } from '../../assets/network/NetNode';
+import { BinaryProtocolHelper } from '../../assets/network/BinaryProtocol';
+import { JsonCodec, NetCodecRegistry } from '../../assets/network/NetCodec';
+import { FWMockNetServer, FWMockSocket } from '../FWMockNet';
+
+const KEY = '000102030405060708090a0b0c0d0e0f';
+
+/**
+ * 生成带重复片段的文本，覆盖字面量与长距离引用
+ */
+function sample(length: number): Uint8Array {
+    let words = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', '战斗', '背包'];
+    let text = '';
+    for (let i = 0; text.length < length; i++) {
+        text += words[(i * 7) % words.length] + (i % 13) + ' ';
+    }
+    return new Uint8Array(Buffer.from(text.slice(0, length)));
+}
+
+function randomBytes(length: number): Uint8Array {
+    let bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+        bytes[i] = (i * 2654435761 + (i >>> 3)) & 0xff;
+    }
+    return bytes;
+}
+
+function sleep(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+test('deflateRaw的输出可被zlib解压', () => {
+    for (let data of [new Uint8Array(0), sample(10), sample(5000), randomBytes(3000)]) {
+        let inflated = zlib.inflateRawSync(deflateRaw(data));
+        assert.deepEqual(new Uint8Array(inflated), data);
+    }
+});
+
+test('inflateRaw可解压zlib的存储、固定与动态哈夫曼块', () => {
+    let inputs = [sample(20), sample(70000), randomBytes(4000)];
+    for (let data of inputs) {
+        for (let options of [{ level: 0 }, { level: 9 }, { strategy: zlib.constants.Z_FIXED }]) {
+            let compressed = new Uint8Array(zlib.deflateRawSync(data, options));
+            assert.deepEqual(inflateRaw(compressed), data);
+        }
+    }
+});
+
+test('解压结果超过上限时抛出RangeError', () => {
+    let compressed = new Uint8Array(zlib.deflateRawSync(new Uint8Array(200 * 1024)));
+    assert.throws(() => inflateRaw(compressed, 64 * 1024), RangeError);
+    assert.equal(inflateRaw(compressed, 200 * 1024).length, 200 * 1024);
+
+    let middleware = new DeflateMiddleware(256, undefined, 1024);
+    assert.throws(() => middleware.inbound(compressed), RangeError);
+});
+
+test('AES中间件加解密往返', () => {
+    let sender = new AesMiddleware(KEY);
+    let receiver = new AesMiddleware(KEY);
+    for (let data of [new Uint8Array(0), sample(15), sample(16), sample(1000)]) {
+        let encrypted = sender.outbound(data);
+        assert.equal((encrypted.length - 48) % 16, 0);
+        assert.deepEqual(receiver.inbound(encrypted), data);
+    }
+});
+
+test('篡改密文或HMAC的包被拒绝', () => {
+    let aes = new AesMiddleware(KEY);
+    let encrypted = aes.outbound(sample(100));
+    for (let index of [0, 20, encrypted.length - 33, encrypted.length - 1]) {
+        let tampered = encrypted.slice();
+        tampered[index] ^= 0x01;
+        assert.throws(() => aes.inbound(tampered), /HMAC mismatch/);
+    }
+
+    let other = new AesMiddleware('f0e0d0c0b0a090807060504030201000');
+    assert.throws(() => other.inbound(encrypted), /HMAC mismatch/);
+});
+
+test('NetNode按添加顺序压缩加密，收到的包按标记位还原，无法还原的包被丢弃', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()) });
+    let server = new FWMockNetServer({ protocol: helper });
+    server.echo();
+    let node = new NetNode();
+    node.init(new FWMockSocket(server), helper);
+    t.after(() => node.close());
+    assert.equal(node.use(new DeflateMiddleware(64)), true);
+    assert.equal(node.use(new AesMiddleware(KEY)), true);
+    assert.equal(node.use(new DeflateMiddleware(64, NetMiddlewareFlag.Aes)), false);
+    let pushed: any[] = [];
+    node.addResponeHandler(1, (msg) => pushed.push(helper.decodePackage(msg)));
+    node.addResponeHandler(2, (msg) => pushed.push(helper.decodePackage(msg)));
+    node.connect({ url: 'mock://game' });
+    await sleep(10);
+
+    let text = 'hello '.repeat(100);
+    assert.deepEqual(await node.request(1, { text }), { text });
+    assert.deepEqual(await node.request(1, { text: 'hi' }), { text: 'hi' });
+    let flags = server.getReceived(1).map(msg => helper.getFlags(msg));
+    assert.deepEqual(flags, [NetMiddlewareFlag.Deflate | NetMiddlewareFlag.Aes, NetMiddlewareFlag.Aes]);
+
+    // 篡改的加密包被丢弃，之后的包正常处理
+    let encrypted = new Uint8Array(server.getReceived(1)[1] as ArrayBuffer).slice();
+    encrypted[encrypted.length - 1] ^= 0x01;
+    server.push(encrypted.buffer);
+    server.push(helper.pack(2, 0, new TextEncoder().encode('{"ok":true}')));
+    await sleep(10);
+    assert.deepEqual(pushed, [{ ok: true }]);
+    assert.equal(node.isWorking(), true);
+});
+
@@ -0,0 +1,300 @@
+import { test, TestContext } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NetCloseReason, NetNode, NetNodeState } from '../../assets/network/NetNode';
+import { NetRequestError, NetSendPolicy } from '../../assets/network/NetInterface';
+import { BinaryProtocolHelper } from '../../assets/network/BinaryProtocol';
+import { JsonCodec, NetCodecRegistry, encodeUtf8 } from '../../assets/network/NetCodec';
+import { FWMockNetServer, FWMockSocket } from '../FWMockNet';
+import { FWTestHarness } from '../FWTestHarness';
+import { game, Game } from '../cc';
+
+const Cmd = {
+    Login: 1,
+    LoginRsp: 2,
+    Auth: 3,
+    Ack: 4,
+    Chat: 5,
+};
+
+function sleep(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 创建连接到模拟服务器的节点，用例结束时关闭，避免心跳与重连定时器残留
+ */
+function createNode(t: TestContext, helper: BinaryProtocolHelper, server: FWMockNetServer) {
+    let node = new NetNode();
+    node.init(new FWMockSocket(server), helper);
+    t.after(() => node.close());
+    return node;
+}
+
+/**
+ * 启动框架并记录重连相关的框架事件，用例结束时关闭框架
+ */
+async function recordNetEvents(t: TestContext, node: NetNode) {
+    await FWTestHarness.boot();
+    t.after(() => FWTestHarness.shutdown());
+    // 按节点名过滤，忽略上一个用例关闭节点时延迟发送的事件
+    node.name = t.name;
+    let event = app.manager.event;
+    let records: string[] = [];
+    let record = (name: string, text: string) => {
+        if (name == node.name) {
+            records.push(text);
+        }
+    };
+    event.on(event.events.ON_NET_RECONNECT_ATTEMPT, (name, attempt, delay) => record(name, `attempt:${attempt}:${delay}`));
+    event.on(event.events.ON_NET_RECONNECT_SUCCESS, (name, attempts) => record(name, `success:${attempts}`));
+    event.on(event.events.ON_NET_RECONNECT_FAILED, (name, attempts) => record(name, `failed:${attempts}`));
+    event.on(event.events.ON_NET_CLOSED, (name) => record(name, 'closed'));
+    return records;
+}
+
+test('响应解码失败时以DECODE拒绝请求', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()) });
+    let server = new FWMockNetServer({ protocol: helper });
+    server.handle(Cmd.Login, (msg) => helper.pack(Cmd.Login, helper.getPackageSeq(msg), encodeUtf8('{"token":')));
+    let node = createNode(t, helper, server);
+    node.connect({ url: 'mock://game' });
+    await sleep(10);
+
+    await assert.rejects(node.request(Cmd.Login, { token: 'abc' }), (err: NetRequestError) => {
+        assert.ok(err instanceof NetRequestError);
+        assert.equal(err.code, 'DECODE');
+        assert.equal(err.cmd, Cmd.Login);
+        return true;
+    });
+    assert.equal(node.getPendingRequestCount(), 0);
+});
+
+test('请求超时或连接断开后，缓存的请求不会在重连后发送', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()) });
+    let server = new FWMockNetServer({ protocol: helper });
+    server.refuse(1);
+    let node = createNode(t, helper, server);
+    node.connect({ url: 'mock://game', autoReconnect: 3, reconnect: { delay: 30 } });
+
+    // 连接中缓存的请求随连接被拒绝而失败
+    let closed = node.request(Cmd.Login, { token: 'closed' }, { policy: NetSendPolicy.Queue, timeout: 0 });
+    await assert.rejects(closed, (err: NetRequestError) => err.code == 'CLOSED');
+
+    // 等待重连时缓存的请求超时失败
+    let timeout = node.request(Cmd.Login, { token: 'timeout' }, { policy: NetSendPolicy.Queue, timeout: 10 });
+    await assert.rejects(timeout, (err: NetRequestError) => err.code == 'TIMEOUT');
+    assert.equal(node.getQueuedMessageCount(), 0);
+
+    await sleep(50);
+    assert.equal(node.isWorking(), true);
+    assert.deepEqual(server.getReceived(Cmd.Login), []);
+});
+
+test('重新连接时未传心跳参数则恢复默认值', async (t) => {
+    let helper = new BinaryProtocolHelper();
+    let server = new FWMockNetServer({ protocol: helper });
+    let node = createNode(t, helper, server);
+    let heartbeats = () => server.getReceived(0).length;
+
+    // 发送数据后按心跳间隔发送心跳
+    node.connect({ url: 'mock://game', heartTime: 10 });
+    await sleep(10);
+    node.send(helper.pack(Cmd.Login, 0, new Uint8Array(0)));
+    await sleep(30);
+    assert.ok(heartbeats() > 0);
+    node.close();
+    await sleep(10);
+
+    server.reset();
+    node.connect({ url: 'mock://game' });
+    await sleep(10);
+    node.send(helper.pack(Cmd.Login, 0, new Uint8Array(0)));
+    await sleep(30);
+    assert.equal(node.isWorking(), true);
+    assert.equal(heartbeats(), 0);
+});
+
+test('包头没有序列号时按rspCmd匹配响应', async (t) => {
+    let helper = new BinaryProtocolHelper({
+        header: [{ name: 'length', bytes: 4 }, { name: 'cmd', bytes: 2 }],
+        codecs: new NetCodecRegistry(new JsonCodec()),
+    });
+    let server = new FWMockNetServer({ protocol: helper });
+    server.handle(Cmd.Login, (msg) => helper.encodePackage(Cmd.LoginRsp, 0, { ok: true }));
+    let node = createNode(t, helper, server);
+    node.connect({ url: 'mock://game' });
+    await sleep(10);
+
+    await assert.rejects(node.request(Cmd.Login, {}), (err: NetRequestError) => err.code == 'UNSUPPORTED');
+    assert.deepEqual(await node.request(Cmd.Login, {}, { rspCmd: Cmd.LoginRsp, timeout: 100 }), { ok: true });
+});
+
+test('握手中连接断开时继续自动重连', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()) });
+    let server = new FWMockNetServer({ protocol: helper });
+    let auths = 0;
+    server.handle(Cmd.Auth, (msg, conn) => {
+        // 第一次握手时服务器断开连接
+        if (++auths == 1) {
+            conn.close();
+            return;
+        }
+        return helper.encodePackage(Cmd.Auth, helper.getPackageSeq(msg), { ok: true });
+    });
+    let node = createNode(t, helper, server);
+    node.setHandshake(async (node) => {
+        await node.request(Cmd.Auth, {}, { force: true });
+    });
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { delay: 10 } });
+    await sleep(60);
+
+    assert.equal(auths, 2);
+    assert.equal(node.isWorking(), true);
+    assert.equal(node.isAutoReconnect(), true);
+});
+
+test('确认包的seq与请求序列号相同时不作为请求的响应', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()), ackCmd: Cmd.Ack });
+    let server = new FWMockNetServer({ protocol: helper });
+    // 先发送与请求序列号相同的确认包，再发送真正的响应
+    server.handle(Cmd.Login, (msg) => [
+        helper.pack(Cmd.Ack, helper.getPackageSeq(msg), new Uint8Array(0)),
+        helper.encodePackage(Cmd.Login, helper.getPackageSeq(msg), { ok: true }),
+    ]);
+    let node = createNode(t, helper, server);
+    node.connect({ url: 'mock://game' });
+    await sleep(10);
+
+    assert.deepEqual(await node.request(Cmd.Login, {}, { timeout: 100 }), { ok: true });
+});
+
+test('发送策略：Drop丢弃、Queue连接后发送、MustAck重连后重发直到确认', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()), ackCmd: Cmd.Ack });
+    let server = new FWMockNetServer({ protocol: helper });
+    let acked = false;
+    server.handle(Cmd.Chat, (msg) => {
+        let { ackId } = helper.decodePackage(msg);
+        return acked && ackId ? helper.pack(Cmd.Ack, ackId, new Uint8Array(0)) : undefined;
+    });
+    let received = () => server.getReceived(Cmd.Chat).map(msg => helper.decodePackage(msg).text);
+    let node = createNode(t, helper, server);
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { delay: 10 } });
+    node.setSendQueueLimit(3);
+
+    // 连接中：Drop直接失败，Queue与MustAck进入队列，超出上限时失败
+    assert.equal(node.send(helper.encodePackage(Cmd.Chat, 0, { text: 'drop' }), { policy: NetSendPolicy.Drop }), false);
+    assert.equal(node.send(helper.encodePackage(Cmd.Chat, 0, { text: 'queue' }), { policy: NetSendPolicy.Queue }), true);
+    assert.equal(node.send(helper.encodePackage(Cmd.Chat, 0, { text: 'ack', ackId: 7 }), { policy: NetSendPolicy.MustAck, ackId: 7 }), true);
+    assert.equal(node.send(helper.encodePackage(Cmd.Chat, 0, { text: 'ack' }), { policy: NetSendPolicy.MustAck }), false);
+    assert.equal(node.send(helper.encodePackage(Cmd.Chat, 0, { text: 'third' }), { policy: NetSendPolicy.Queue }), true);
+    assert.equal(node.send(helper.encodePackage(Cmd.Chat, 0, { text: 'full' }), { policy: NetSendPolicy.Queue }), false);
+    await sleep(10);
+    assert.deepEqual(received(), ['queue', 'ack', 'third']);
+    assert.equal(node.getQueuedMessageCount(), 1);
+
+    // 未确认的消息在重连后重发，确认后不再重发
+    acked = true;
+    server.disconnect();
+    await sleep(40);
+    assert.equal(node.isWorking(), true);
+    assert.deepEqual(received(), ['queue', 'ack', 'third', 'ack']);
+    assert.equal(node.getQueuedMessageCount(), 0);
+    server.disconnect();
+    await sleep(40);
+    assert.equal(node.isWorking(), true);
+    assert.equal(received().length, 4);
+});
+
+test('握手成功后才发送缓存的消息，握手失败或超时断开且不重连', async (t) => {
+    let helper = new BinaryProtocolHelper({ codecs: new NetCodecRegistry(new JsonCodec()) });
+    let server = new FWMockNetServer({ protocol: helper });
+    let accept = true;
+    let start = 0;
+    let received = () => server.received.slice(start).map(item => item.cmd);
+    server.handle(Cmd.Auth, (msg) => helper.encodePackage(Cmd.Auth, helper.getPackageSeq(msg), { ok: accept }));
+    let node = createNode(t, helper, server);
+    let reasons: NetCloseReason[] = [];
+    node.setDisconnectCallback((event, reason) => reasons.push(reason));
+    node.setHandshake(async (node) => {
+        let rsp = await node.request<{}, { ok: boolean }>(Cmd.Auth, {}, { force: true });
+        if (!rsp.ok) {
+            throw new Error('auth rejected');
+        }
+    });
+
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { delay: 10 } });
+    node.send(helper.encodePackage(Cmd.Chat, 0, {}), { policy: NetSendPolicy.Queue });
+    await sleep(10);
+    assert.equal(node.isWorking(), true);
+    assert.deepEqual(received(), [Cmd.Auth, Cmd.Chat]);
+
+    // 握手被拒绝
+    node.close();
+    await sleep(10);
+    start = server.received.length;
+    accept = false;
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { delay: 10 } });
+    node.send(helper.encodePackage(Cmd.Chat, 0, {}), { policy: NetSendPolicy.Queue });
+    await sleep(40);
+    assert.equal(node.getState(), NetNodeState.Closed);
+    assert.equal(node.getCloseReason(), NetCloseReason.HandshakeFailed);
+    assert.deepEqual(received(), [Cmd.Auth]);
+
+    // 握手超时
+    node.setHandshake(() => new Promise<void>(() => { }), 10);
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { delay: 10 } });
+    await sleep(40);
+    assert.equal(node.getState(), NetNodeState.Closed);
+    assert.equal(node.getCloseReason(), NetCloseReason.HandshakeFailed);
+    assert.equal(server.connections.length, 0);
+    assert.deepEqual(reasons.slice(-2), [NetCloseReason.HandshakeFailed, NetCloseReason.HandshakeFailed]);
+});
+
+test('指数退避的重连间隔受maxDelay限制，重连成功后发送事件', async (t) => {
+    let helper = new BinaryProtocolHelper();
+    let server = new FWMockNetServer({ protocol: helper });
+    server.refuse(3);
+    let node = createNode(t, helper, server);
+    let records = await recordNetEvents(t, node);
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { strategy: 'exponential', delay: 5, maxDelay: 15 } });
+    await sleep(80);
+
+    assert.equal(node.isWorking(), true);
+    assert.deepEqual(records, ['attempt:1:5', 'attempt:2:10', 'attempt:3:15', 'success:3']);
+});
+
+test('重连次数用尽后发送失败事件，抖动按比例缩短间隔', async (t) => {
+    t.mock.method(Math, 'random', () => 0.5);
+    let helper = new BinaryProtocolHelper();
+    let server = new FWMockNetServer({ protocol: helper });
+    server.refuse();
+    let node = createNode(t, helper, server);
+    let records = await recordNetEvents(t, node);
+    node.connect({ url: 'mock://game', autoReconnect: 2, reconnect: { delay: 20, jitter: 0.5 } });
+    await sleep(80);
+
+    assert.equal(node.getState(), NetNodeState.Closed);
+    assert.equal(node.isAutoReconnect(), false);
+    assert.deepEqual(records, ['attempt:1:15', 'attempt:2:15', 'failed:2', 'closed']);
+});
+
+test('切到后台时暂停重连，回到前台后立即重连', async (t) => {
+    let helper = new BinaryProtocolHelper();
+    let server = new FWMockNetServer({ protocol: helper });
+    let node = createNode(t, helper, server);
+    let records = await recordNetEvents(t, node);
+    node.connect({ url: 'mock://game', autoReconnect: -1, reconnect: { delay: 10 }, pauseInBackground: true });
+    await sleep(10);
+
+    game.emit(Game.EVENT_HIDE);
+    server.disconnect();
+    await sleep(40);
+    assert.equal(server.connections.length, 0);
+    assert.deepEqual(records, []);
+
+    game.emit(Game.EVENT_SHOW);
+    await sleep(10);
+    assert.equal(server.connections.length, 1);
+    assert.deepEqual(records, ['attempt:1:0', 'success:1']);
+});
+